@@ -1,94 +1,132 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { generateImageAndAnalysis } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { generateImageAndAnalysis, getProvider, refineImage, setProvider } from './services/geminiService';
 import { AppStatus } from './types';
-import type { GenerationResult } from './types';
-
-// --- Helper Functions ---
-const toBase64 = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
-
-// --- SVG Icons (defined outside components to prevent re-creation) ---
-const UploadIcon: React.FC<{ className?: string }> = ({ className }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
-    </svg>
-);
-
-const DownloadIcon: React.FC<{ className?: string }> = ({ className }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
-    </svg>
-);
-
-const RedoIcon: React.FC<{ className?: string }> = ({ className }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" />
-    </svg>
-);
-
-const ResetIcon: React.FC<{ className?: string }> = ({ className }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 11.664 0l3.181-3.183m-3.181-4.991-3.182-3.182a8.25 8.25 0 0 0-11.664 0l-3.181 3.182m3.181 4.991h4.992" />
-    </svg>
-);
+import type { ChatMessage, GenerationResult, SessionGeneration, SourceImage, StoredSession, VersionTree } from './types';
+import { addGeneration, createSession, saveGenerationChat, setFinalGeneration } from './services/historyStore';
+import { addVersion, createVersion, currentVersion, finalVersion, markFinalVersion, redoVersion, selectVersion, setVersionChat, undoVersion, versionTreeFromGenerations } from './services/versionTree';
+import { mimeTypeOfDataUrl } from './services/imageFiles';
+import { exportPreparedImage, ImagePreprocessError, prepareImage, type CropRect, type PreparedImage } from './services/imagePreprocess';
+import { DownloadIcon, RedoIcon, ResetIcon, HistoryIcon, LockIcon, SparklesIcon } from './components/icons';
+import { ComparisonMode } from './components/ComparisonMode';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchMode } from './components/BatchMode';
+import { ImageCropper } from './components/ImageCropper';
+import { ImageUploader } from './components/ImageUploader';
+import { GenerationErrorNotice } from './components/GenerationErrorNotice';
+import { VersionTreePanel } from './components/VersionTreePanel';
+import { PosterExportDialog } from './components/PosterExportDialog';
+import { BeforeAfterViewer } from './components/BeforeAfterViewer';
+import { CareerChatPanel } from './components/CareerChatPanel';
+import type { PosterContent } from './services/poster';
+import { toGenerationError, type GenerationError } from './services/generationErrors';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n, type Translate } from './components/I18nProvider';
+import { CareerInput, careerPolicyMessage, CareerSurprisePicker, promptIssueMessage } from './components/CareerInput';
+import { MAX_INSTRUCTION_LENGTH, validateCareerInput, validateInstruction } from './services/promptInput';
+import { useKiosk } from './components/KioskProvider';
+import { KioskAdminPanel } from './components/KioskAdminPanel';
+import { GenerationStyleBadge, PromptStylePicker } from './components/PromptTemplateControls';
+import { usePromptTemplates } from './components/PromptTemplateProvider';
+import { checkCareerPolicy, checkInstructionPolicy, remainingGenerations, type CareerPolicyIssue } from './services/kioskSettings';
 
+/** Any of these counts as someone still using the kiosk. */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
 
 // --- UI Components ---
 
-const Header: React.FC = () => (
-    <header className="w-full p-4 text-center">
-        <h1 className="text-4xl font-bold text-text-main tracking-tight sm:text-5xl">커리어 비전 <span className="text-primary">AI</span></h1>
-        <p className="mt-2 text-lg text-text-muted">사진을 업로드하여 당신의 미래 직업을 확인해보세요!</p>
-    </header>
-);
+const Header: React.FC<{ onOpenHistory?: () => void; onOpenAdmin: () => void }> = ({ onOpenHistory, onOpenAdmin }) => {
+    const { t } = useI18n();
+    return (
+        <header className="relative w-full p-4 text-center">
+            <div className="absolute top-4 right-4 flex items-center gap-2">
+                <LanguageSwitcher />
+                {onOpenHistory && (
+                    <button onClick={onOpenHistory} className="bg-white/60 hover:bg-white/80 backdrop-blur-lg text-text-main font-semibold py-2 px-4 rounded-full shadow flex items-center gap-2 transition">
+                        <HistoryIcon className="w-5 h-5" />
+                        <span className="hidden sm:inline">{t('app.history')}</span>
+                    </button>
+                )}
+                <button onClick={onOpenAdmin} aria-label={t('kiosk.open')} title={t('kiosk.open')} className="bg-white/60 hover:bg-white/80 backdrop-blur-lg text-text-main p-2 rounded-full shadow transition">
+                    <LockIcon className="w-5 h-5" />
+                </button>
+            </div>
+            <h1 className="text-4xl font-bold text-text-main tracking-tight sm:text-5xl">{t('app.title')} <span className="text-primary">AI</span></h1>
+            <p className="mt-2 text-lg text-text-muted">{t('app.subtitle')}</p>
+        </header>
+    );
+};
 
-interface ImageUploaderProps {
-    onImageUpload: (file: File) => void;
-    appStatus: AppStatus;
-}
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, appStatus }) => {
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            onImageUpload(e.target.files[0]);
-        }
-    };
-    
+const ProviderNotice: React.FC<{ onUseMock: () => void }> = ({ onUseMock }) => {
+    const { t } = useI18n();
     return (
-        <div className="relative w-full max-w-lg mx-auto flex flex-col items-center justify-center p-8 border border-white/50 rounded-2xl bg-white/40 backdrop-blur-lg shadow-lg hover:bg-white/60 hover:shadow-xl transform hover:scale-105 transition-all duration-300">
-            <UploadIcon className="w-16 h-16 text-primary" />
-            <h2 className="mt-4 text-xl font-semibold text-text-main">사진 업로드</h2>
-            <p className="mt-1 text-sm text-text-muted">파일을 드래그 앤 드롭하거나 클릭하여 선택하세요</p>
-            <input
-                type="file"
-                accept="image/png, image/jpeg, image/webp"
-                onChange={handleFileChange}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                disabled={appStatus === AppStatus.PROCESSING}
-            />
+        <div className="w-full max-w-2xl mx-auto mt-4 bg-yellow-50 border border-yellow-300 text-yellow-800 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-grow">
+                <p className="font-semibold">{t('provider.missingKeyTitle')}</p>
+                <p className="text-sm">{t('provider.missingKeyMessage')}</p>
+            </div>
+            <button onClick={onUseMock} className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900 font-semibold py-2 px-4 rounded-lg transition-all duration-300">
+                {t('provider.useMock')}
+            </button>
         </div>
     );
 };
 
+const AnalysisSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="mt-4">
+        <h3 className="text-sm font-semibold text-primary mb-2">{title}</h3>
+        {children}
+    </section>
+);
+
+const TagList: React.FC<{ items: string[] }> = ({ items }) => (
+    <ul className="flex flex-wrap gap-2">
+        {items.map((item, i) => (
+            <li key={i} className="bg-primary/10 text-primary-focus text-sm font-medium py-1 px-3 rounded-full">{item}</li>
+        ))}
+    </ul>
+);
+
 interface ResultDisplayProps {
     originalImage: string;
     result: GenerationResult;
+    /** Final pick from the version tree; the current version when nothing is picked. */
+    downloadResult: GenerationResult;
     prompt: string;
     onPromptChange: (value: string) => void;
     onRegenerate: () => void;
+    onRefine: (instruction: string) => void;
     onReset: () => void;
     isLoading: boolean;
+    /** Version the result belongs to; the chat panel starts fresh for each one. */
+    versionId: string;
+    chat: ChatMessage[];
+    onChatChange: (chat: ChatMessage[]) => void;
+    /** Blocked while a generation runs or no provider is ready; the panel applies the kiosk chat cap itself. */
+    isChatDisabled: boolean;
 }
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ originalImage, result, prompt, onPromptChange, onRegenerate, onReset, isLoading }) => {
-    
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ originalImage, result, downloadResult, prompt, onPromptChange, onRegenerate, onRefine, onReset, isLoading, versionId, chat, onChatChange, isChatDisabled }) => {
+    const { t } = useI18n();
+    const { settings: kioskSettings } = useKiosk();
+    const [instruction, setInstruction] = useState('');
+    const [isPosterOpen, setIsPosterOpen] = useState(false);
+    const posterContents = useMemo<PosterContent[]>(
+        () => [{ originalImage, result: downloadResult, date: new Date() }],
+        [originalImage, downloadResult],
+    );
+
+    const instructionIssue = validateInstruction(instruction);
+    const instructionPolicyIssue = !instructionIssue ? checkInstructionPolicy(instruction, kioskSettings) : null;
+
+    const handleRefine = () => {
+        if (!instruction.trim() || instructionIssue || instructionPolicyIssue) return;
+        onRefine(instruction.trim());
+        setInstruction('');
+    };
+
     const handleDownload = () => {
         const link = document.createElement('a');
-        link.href = result.image;
-        link.download = `${result.title.replace(/\s+/g, '_')}_career_vision.png`;
+        link.href = downloadResult.image;
+        link.download = `${downloadResult.title.replace(/\s+/g, '_')}_career_vision.${mimeTypeOfDataUrl(downloadResult.image) === 'image/jpeg' ? 'jpg' : 'png'}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -96,168 +134,558 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ originalImage, result, pr
     
     return (
         <div className="w-full max-w-6xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+            <div className="md:col-span-2">
+                <BeforeAfterViewer originalImage={originalImage} result={result} />
+            </div>
             <div className="flex flex-col gap-4">
-                <div className="relative aspect-square w-full rounded-2xl overflow-hidden shadow-lg border border-primary/20 bg-black/10 transform transition-transform duration-300 hover:scale-105">
-                    <img src={originalImage} alt="원본 이미지" className="w-full h-full object-contain"/>
-                    <div className="absolute top-2 left-2 bg-black/50 text-white text-xs font-bold py-1 px-3 rounded-full">원본</div>
-                </div>
                  <div className="bg-white/40 backdrop-blur-lg border border-white/50 p-4 rounded-xl shadow-md transition-shadow duration-300 hover:shadow-xl">
-                    <h3 className="text-lg font-semibold mb-2 text-primary">다른 직업으로 시도해보기</h3>
-                    <div className="flex gap-2">
-                        <input
-                            type="text"
+                    <h3 className="text-lg font-semibold mb-2 text-primary">{t('result.tryOther')}</h3>
+                    <div className="flex gap-2 items-start">
+                        <CareerInput
+                            id="regenerate-input"
                             value={prompt}
-                            onChange={(e) => onPromptChange(e.target.value)}
-                            placeholder="예: 우주비행사, 셰프, 개발자..."
-                            className="flex-grow bg-white/80 border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary focus:outline-none transition text-text-main placeholder:text-text-muted"
+                            onChange={onPromptChange}
+                            onSubmit={() => { if (prompt.trim()) onRegenerate(); }}
+                            placeholder={t('common.careerPlaceholder')}
+                            inputClassName="px-4 py-2"
                             disabled={isLoading}
                         />
-                        <button onClick={onRegenerate} disabled={isLoading || !prompt} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300 transform hover:scale-105">
+                        <button onClick={onRegenerate} disabled={isLoading || !prompt.trim() || !!validateCareerInput(prompt) || !!checkCareerPolicy(prompt, kioskSettings)} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300 transform hover:scale-105">
                             <RedoIcon className="w-5 h-5" />
-                            <span>생성하기</span>
+                            <span>{t('result.generate')}</span>
                         </button>
                     </div>
+                    <div className="mt-3">
+                        <CareerSurprisePicker onPick={onPromptChange} exclude={[prompt, result.title]} disabled={isLoading} />
+                    </div>
+                    <div className="mt-3">
+                        <PromptStylePicker career={prompt} disabled={isLoading} />
+                    </div>
                  </div>
                  <button onClick={onReset} className="w-full bg-gray-200 hover:bg-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-all duration-300 transform hover:scale-105">
                     <ResetIcon className="w-5 h-5"/>
-                    새 이미지 업로드
+                    {t('common.uploadNewImage')}
                  </button>
             </div>
             <div className="flex flex-col gap-4">
-                 <div className="relative aspect-square w-full rounded-2xl overflow-hidden shadow-lg border-2 border-primary bg-black/10 transform transition-transform duration-300 hover:scale-105">
-                    <img src={result.image} alt={result.title} className="w-full h-full object-contain"/>
-                    <div className="absolute top-2 left-2 bg-primary text-white text-xs font-bold py-1 px-3 rounded-full">AI 생성</div>
+                <div className="bg-white/40 backdrop-blur-lg border border-white/50 p-4 rounded-xl shadow-md transition-shadow duration-300 hover:shadow-xl">
+                    <h3 className="text-lg font-semibold mb-2 text-primary">{t('result.refineTitle')}</h3>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleRefine(); }}
+                            placeholder={t('result.refinePlaceholder')}
+                            aria-invalid={!!(instructionIssue || instructionPolicyIssue)}
+                            className={`flex-grow bg-white/80 border rounded-lg px-4 py-2 focus:ring-2 focus:outline-none transition text-text-main placeholder:text-text-muted ${instructionIssue || instructionPolicyIssue ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'}`}
+                            disabled={isLoading}
+                        />
+                        <button onClick={handleRefine} disabled={isLoading || !instruction.trim() || !!instructionIssue || !!instructionPolicyIssue} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300 transform hover:scale-105">
+                            <SparklesIcon className="w-5 h-5" />
+                            <span>{t('result.refine')}</span>
+                        </button>
+                    </div>
+                    {instructionIssue && <p className="mt-1 text-sm text-red-600">{promptIssueMessage(instructionIssue, MAX_INSTRUCTION_LENGTH, t)}</p>}
+                    {instructionPolicyIssue && <p className="mt-1 text-sm text-red-600">{careerPolicyMessage(instructionPolicyIssue, t)}</p>}
                 </div>
                 <div className="bg-white/40 backdrop-blur-lg border border-white/50 p-6 rounded-xl shadow-md transition-shadow duration-300 hover:shadow-xl">
                     <h2 className="text-3xl font-bold text-text-main">{result.title}</h2>
+                    <GenerationStyleBadge result={result} />
                     <p className="mt-2 text-text-muted">{result.description}</p>
+                    {result.keySkills.length > 0 && (
+                        <AnalysisSection title={t('result.keySkills')}>
+                            <TagList items={result.keySkills} />
+                        </AnalysisSection>
+                    )}
+                    {result.educationPath.length > 0 && (
+                        <AnalysisSection title={t('result.educationPath')}>
+                            <ol className="list-decimal list-inside space-y-1 text-text-muted">
+                                {result.educationPath.map((step, i) => <li key={i}>{step}</li>)}
+                            </ol>
+                        </AnalysisSection>
+                    )}
+                    {result.relatedCareers.length > 0 && (
+                        <AnalysisSection title={t('result.relatedCareers')}>
+                            <TagList items={result.relatedCareers} />
+                        </AnalysisSection>
+                    )}
+                    {result.confidenceNote && (
+                        <p className="mt-4 text-xs text-text-muted italic">{result.confidenceNote}</p>
+                    )}
                     <button onClick={handleDownload} className="mt-4 bg-accent hover:bg-pink-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300 w-full justify-center transform hover:scale-105">
                         <DownloadIcon className="w-5 h-5"/>
-                        이미지 다운로드
+                        {downloadResult === result ? t('result.download') : t('result.downloadFinal', { title: downloadResult.title })}
+                    </button>
+                    <button onClick={() => setIsPosterOpen(true)} className="mt-2 bg-white/70 hover:bg-white border border-accent text-accent font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300 w-full justify-center">
+                        <SparklesIcon className="w-5 h-5"/>
+                        {t('result.poster')}
                     </button>
                 </div>
             </div>
+            <div className="md:col-span-2">
+                <CareerChatPanel key={versionId} result={result} messages={chat} onMessagesChange={onChatChange} disabled={isChatDisabled} />
+            </div>
+            {isPosterOpen && <PosterExportDialog contents={posterContents} title={downloadResult.title} onClose={() => setIsPosterOpen(false)} />}
         </div>
     );
 };
 
 
-const Loader: React.FC<{ message: string }> = ({ message }) => (
-    <div className="fixed inset-0 bg-white/50 backdrop-blur-sm flex flex-col items-center justify-center z-50">
-        <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
-        <p className="mt-4 text-xl text-text-main font-semibold">{message}</p>
-    </div>
-);
+type GenerationMode = 'single' | 'compare' | 'batch';
+
+const ModeToggle: React.FC<{ mode: GenerationMode; onChange: (mode: GenerationMode) => void; disabled: boolean }> = ({ mode, onChange, disabled }) => {
+    const { t } = useI18n();
+    const options: { value: Exclude<GenerationMode, 'batch'>; label: string }[] = [
+        { value: 'single', label: t('mode.single') },
+        { value: 'compare', label: t('mode.compare') },
+    ];
+    return (
+        <div role="radiogroup" aria-label={t('mode.label')} className="inline-flex p-1 bg-white/50 backdrop-blur-lg border border-white/50 rounded-full shadow-sm">
+            {options.map(option => (
+                <button
+                    key={option.value}
+                    role="radio"
+                    aria-checked={mode === option.value}
+                    onClick={() => onChange(option.value)}
+                    disabled={disabled}
+                    className={`py-2 px-5 rounded-full font-semibold transition-all duration-300 ${mode === option.value ? 'bg-primary text-white shadow' : 'text-text-muted hover:text-text-main'}`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const Loader: React.FC<{ message: string; onCancel?: () => void }> = ({ message, onCancel }) => {
+    const { t } = useI18n();
+    return (
+        <div className="fixed inset-0 bg-white/50 backdrop-blur-sm flex flex-col items-center justify-center z-50">
+            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-xl text-text-main font-semibold">{message}</p>
+            {onCancel && (
+                <button onClick={onCancel} className="mt-6 bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-6 rounded-lg shadow transition">
+                    {t('common.cancel')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const uploadErrorMessage = (error: unknown, t: Translate): string => {
+    if (!(error instanceof ImagePreprocessError)) return t('upload.readFailed');
+    return error.code === 'unsupported'
+        ? t('preprocess.unsupported', { type: error.detail ?? t('preprocess.unknownType') })
+        : t(`preprocess.${error.code}`);
+};
 
 
 // --- Main App Component ---
 export default function App() {
+    const { locale, t } = useI18n();
+    const { settings: kioskSettings, usage: kioskUsage, countGeneration, resetSession: resetKioskSession } = useKiosk();
+    const { template, styleId } = usePromptTemplates();
     const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-    const [originalImage, setOriginalImage] = useState<{ file: File, base64: string } | null>(null);
+    const [originalImage, setOriginalImage] = useState<SourceImage | null>(null);
     const [prompt, setPrompt] = useState<string>('');
-    const [result, setResult] = useState<GenerationResult | null>(null);
+    const [versionTree, setVersionTree] = useState<VersionTree | null>(null);
+    // Instruction of a failed refinement, so "retry" repeats the refinement rather than a fresh generation.
+    const [failedInstruction, setFailedInstruction] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [generationError, setGenerationError] = useState<GenerationError | null>(null);
     const [loadingMessage, setLoadingMessage] = useState<string>('');
+    const [mode, setMode] = useState<GenerationMode>('single');
+    const [providerReady, setProviderReady] = useState<boolean | null>(null);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [historyRefreshKey, setHistoryRefreshKey] = useState<number>(0);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const [pendingUpload, setPendingUpload] = useState<{ prepared: PreparedImage; previewUrl: string } | null>(null);
+    const [isAdminOpen, setIsAdminOpen] = useState<boolean>(false);
 
     const isLoading = useMemo(() => status === AppStatus.PROCESSING, [status]);
+    const result = versionTree ? currentVersion(versionTree).result : null;
+    const generationsLeft = remainingGenerations(kioskUsage.generations, kioskSettings);
+    const inactivityResetMinutes = kioskSettings.enabled ? kioskSettings.inactivityResetMinutes : 0;
+    const promptPolicyIssue = checkCareerPolicy(prompt, kioskSettings);
+
+    useEffect(() => {
+        let cancelled = false;
+        getProvider().isConfigured().then(ready => {
+            if (!cancelled) setProviderReady(ready);
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    // History is best-effort: a storage failure must never block generation.
+    const recordGeneration = useCallback(async (version: SessionGeneration) => {
+        if (!sessionId) return;
+        try {
+            await addGeneration(sessionId, version);
+            setHistoryRefreshKey(key => key + 1);
+        } catch (e) {
+            console.warn('Failed to save generation to history:', e);
+        }
+    }, [sessionId]);
+
+    const handleComparisonResult = useCallback((career: string, generated: GenerationResult) => {
+        countGeneration();
+        recordGeneration(createVersion(career, generated));
+    }, [recordGeneration, countGeneration]);
+
+    // Shared devices keep history private and leave out batch mode, which has no per-student cap.
+    useEffect(() => {
+        if (!kioskSettings.enabled) return;
+        setIsHistoryOpen(false);
+        setMode(current => current === 'batch' ? 'single' : current);
+    }, [kioskSettings.enabled]);
+
+    /** Explains why a kiosk policy stops a generation; null when it may run. */
+    const kioskBlockMessage = useCallback((issue: CareerPolicyIssue | null): string | null => {
+        if (issue) return careerPolicyMessage(issue, t);
+        // A generation still running is counted only when it succeeds, so it holds a slot of the cap until then.
+        const inFlight = generationAbortRef.current ? 1 : 0;
+        if (generationsLeft - inFlight <= 0) return t('kiosk.limitReached', { max: kioskSettings.maxGenerationsPerSession });
+        return null;
+    }, [generationsLeft, kioskSettings, t]);
 
     const handleImageUpload = useCallback(async (file: File) => {
         setStatus(AppStatus.PROCESSING);
-        setLoadingMessage('이미지 준비 중...');
+        setLoadingMessage(t('upload.preparing'));
         setError(null);
+        setGenerationError(null);
         try {
-            const base64 = await toBase64(file);
-            setOriginalImage({ file, base64 });
+            const prepared = await prepareImage(file);
+            const preview = exportPreparedImage(prepared, null, { maxDimension: 1024, outputType: 'image/jpeg', targetBytes: Infinity });
+            setPendingUpload({ prepared, previewUrl: preview.base64 });
             setStatus(AppStatus.IDLE);
         } catch (e) {
-            setError("이미지 파일을 읽는데 실패했습니다.");
-            setStatus(AppStatus.ERROR);
+            // Back to IDLE so the uploader shows again and another file can be picked.
+            setError(uploadErrorMessage(e, t));
+            setStatus(AppStatus.IDLE);
         } finally {
             setLoadingMessage('');
         }
-    }, []);
+    }, [t]);
+
+    const handleCropConfirm = useCallback((crop: CropRect | null) => {
+        if (!pendingUpload) return;
+        try {
+            const { base64, mimeType } = exportPreparedImage(pendingUpload.prepared, crop);
+            const image: SourceImage = { base64, mimeType };
+            setOriginalImage(image);
+            setPendingUpload(null);
+            createSession(image, locale)
+                .then(session => {
+                    setSessionId(session.id);
+                    setHistoryRefreshKey(key => key + 1);
+                })
+                .catch(e => console.warn('Failed to save session to history:', e));
+        } catch (e) {
+            setPendingUpload(null);
+            setError(uploadErrorMessage(e, t));
+            setStatus(AppStatus.IDLE);
+        }
+    }, [pendingUpload, locale, t]);
 
     const handleGenerate = useCallback(async () => {
-        if (!originalImage) return;
+        if (!originalImage || validateCareerInput(prompt)) return;
+        const blockMessage = kioskBlockMessage(checkCareerPolicy(prompt, kioskSettings));
+        if (blockMessage) {
+            setError(blockMessage);
+            return;
+        }
 
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+        const baseMessage = prompt ? t('single.loadingCareer', { career: prompt }) : t('single.loadingAuto');
         setStatus(AppStatus.PROCESSING);
-        setLoadingMessage(prompt ? `"${prompt}"(으)로 변신 중...` : '당신의 잠재력을 분석 중입니다...');
+        setLoadingMessage(baseMessage);
         setError(null);
-        setResult(null);
+        setGenerationError(null);
+        setFailedInstruction(null);
 
         try {
-            const apiResult = await generateImageAndAnalysis(originalImage.base64, originalImage.file.type, prompt);
-            setResult(apiResult);
+            const apiResult = await generateImageAndAnalysis(originalImage.base64, originalImage.mimeType, prompt, {
+                signal: controller.signal,
+                locale,
+                template,
+                style: styleId,
+                onRetry: (attempt) => setLoadingMessage(t('single.loadingRetry', { message: baseMessage, attempt })),
+            });
+            // Generating from the original photo starts a new root in the version tree.
+            const version = createVersion(prompt, apiResult);
+            setVersionTree(tree => addVersion(tree, version));
+            countGeneration();
             setStatus(AppStatus.SUCCESS);
+            recordGeneration(version);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "알 수 없는 오류가 발생했습니다.";
-            setError(errorMessage);
+            const generationFailure = toGenerationError(e);
+            if (generationFailure.kind === 'cancelled') {
+                // Cancelling keeps whatever was on screen before, including an earlier result.
+                setStatus(result ? AppStatus.SUCCESS : AppStatus.IDLE);
+                return;
+            }
+            setGenerationError(generationFailure);
             setStatus(AppStatus.ERROR);
         } finally {
+            if (generationAbortRef.current === controller) generationAbortRef.current = null;
+            setLoadingMessage('');
+        }
+    }, [originalImage, prompt, result, recordGeneration, countGeneration, kioskBlockMessage, kioskSettings, template, styleId, locale, t]);
+
+    const handleRefine = useCallback(async (instruction: string) => {
+        if (!versionTree) return;
+        const blockMessage = kioskBlockMessage(checkInstructionPolicy(instruction, kioskSettings));
+        if (blockMessage) {
+            setError(blockMessage);
+            return;
+        }
+
+        const base = currentVersion(versionTree);
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+        const baseMessage = t('result.refining', { instruction });
+        setStatus(AppStatus.PROCESSING);
+        setLoadingMessage(baseMessage);
+        setError(null);
+        setGenerationError(null);
+        setFailedInstruction(null);
+
+        try {
+            const apiResult = await refineImage(base.result.image, mimeTypeOfDataUrl(base.result.image), base.result.title, instruction, {
+                signal: controller.signal,
+                locale,
+                onRetry: (attempt) => setLoadingMessage(t('single.loadingRetry', { message: baseMessage, attempt })),
+            });
+            // An edit keeps the look it started from, so it records the parent's template and style.
+            const version = createVersion(base.prompt, { ...apiResult, templateId: base.result.templateId, styleId: base.result.styleId }, base.id, instruction);
+            setVersionTree(tree => addVersion(tree, version));
+            countGeneration();
+            recordGeneration(version);
+        } catch (e) {
+            const generationFailure = toGenerationError(e);
+            // A failed refinement leaves the versions on screen; the notice below offers a retry.
+            if (generationFailure.kind !== 'cancelled') {
+                setGenerationError(generationFailure);
+                setFailedInstruction(instruction);
+            }
+        } finally {
+            setStatus(AppStatus.SUCCESS);
+            if (generationAbortRef.current === controller) generationAbortRef.current = null;
             setLoadingMessage('');
         }
-    }, [originalImage, prompt]);
+    }, [versionTree, recordGeneration, countGeneration, kioskBlockMessage, kioskSettings, locale, t]);
+
+    const handleMarkFinal = useCallback((id: string | null) => {
+        setVersionTree(tree => tree && markFinalVersion(tree, id));
+        if (sessionId) {
+            setFinalGeneration(sessionId, id)
+                .then(() => setHistoryRefreshKey(key => key + 1))
+                .catch(e => console.warn('Failed to save final pick to history:', e));
+        }
+    }, [sessionId]);
+
+    const handleChatChange = useCallback((id: string, chat: ChatMessage[]) => {
+        setVersionTree(tree => tree && setVersionChat(tree, id, chat));
+        if (sessionId) {
+            saveGenerationChat(sessionId, id, chat)
+                .then(() => setHistoryRefreshKey(key => key + 1))
+                .catch(e => console.warn('Failed to save chat to history:', e));
+        }
+    }, [sessionId]);
+
+    const handleCancelGeneration = useCallback(() => {
+        generationAbortRef.current?.abort();
+    }, []);
     
+    const handleUseMockProvider = useCallback(async () => {
+        setProvider('mock');
+        setProviderReady(await getProvider().isConfigured());
+        setError(null);
+        setGenerationError(null);
+    }, []);
+
     const handleResetAll = useCallback(() => {
         setStatus(AppStatus.IDLE);
         setOriginalImage(null);
         setPrompt('');
-        setResult(null);
+        setVersionTree(null);
+        setFailedInstruction(null);
+        setError(null);
+        setGenerationError(null);
+        setSessionId(null);
+        setPendingUpload(null);
+    }, []);
+
+    // Back to a clean upload screen for the next student; leaving comparison mode also aborts its generations.
+    const handleInactivityReset = useCallback(() => {
+        handleResetAll();
+        resetKioskSession();
+        setMode('single');
+        setIsHistoryOpen(false);
+        setIsAdminOpen(false);
+    }, [handleResetAll, resetKioskSession]);
+
+    // Paused while a generation runs, since waiting for the result is not inactivity.
+    useEffect(() => {
+        if (inactivityResetMinutes <= 0 || isLoading) return;
+        let timer = 0;
+        const restart = () => {
+            window.clearTimeout(timer);
+            timer = window.setTimeout(handleInactivityReset, inactivityResetMinutes * 60_000);
+        };
+        restart();
+        ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, restart, { passive: true }));
+        return () => {
+            window.clearTimeout(timer);
+            ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, restart));
+        };
+    }, [inactivityResetMinutes, isLoading, handleInactivityReset]);
+
+    const handleOpenSession = useCallback((session: StoredSession) => {
+        const tree = versionTreeFromGenerations(session.generations, session.finalGenerationId);
+        setOriginalImage(session.originalImage);
+        setSessionId(session.id);
+        setMode('single');
         setError(null);
+        setGenerationError(null);
+        setFailedInstruction(null);
+        setPrompt(tree ? currentVersion(tree).prompt : '');
+        setVersionTree(tree);
+        setStatus(tree ? AppStatus.SUCCESS : AppStatus.IDLE);
     }, []);
+
+    const handleCurrentSessionDeleted = useCallback(() => setSessionId(null), []);
     
     return (
         <div className="min-h-screen w-full font-sans flex flex-col items-center p-4 sm:p-6 lg:p-8">
-            {isLoading && <Loader message={loadingMessage} />}
-            <Header />
+            {isLoading && <Loader message={loadingMessage} onCancel={generationAbortRef.current ? handleCancelGeneration : undefined} />}
+            <Header onOpenHistory={kioskSettings.enabled ? undefined : () => setIsHistoryOpen(true)} onOpenAdmin={() => setIsAdminOpen(true)} />
+            {isAdminOpen && <KioskAdminPanel onClose={() => setIsAdminOpen(false)} />}
+            <HistoryPanel
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                currentSessionId={sessionId}
+                onOpenSession={handleOpenSession}
+                onCurrentSessionDeleted={handleCurrentSessionDeleted}
+                refreshKey={historyRefreshKey}
+            />
+            {providerReady === false && <ProviderNotice onUseMock={handleUseMockProvider} />}
             <main className="w-full flex-grow flex flex-col items-center justify-center mt-8">
-                {status === AppStatus.IDLE && !originalImage && (
-                    <ImageUploader onImageUpload={handleImageUpload} appStatus={status} />
+                {pendingUpload && !originalImage && (
+                    <ImageCropper
+                        prepared={pendingUpload.prepared}
+                        previewUrl={pendingUpload.previewUrl}
+                        onConfirm={handleCropConfirm}
+                        onCancel={() => setPendingUpload(null)}
+                    />
+                )}
+
+                {status === AppStatus.IDLE && !originalImage && !pendingUpload && mode !== 'batch' && (
+                    <div className="w-full flex flex-col items-center gap-4">
+                        <ImageUploader onImageUpload={handleImageUpload} disabled={isLoading} />
+                        {!kioskSettings.enabled && (
+                            <button onClick={() => setMode('batch')} className="text-text-muted hover:text-text-main transition underline">
+                                {t('upload.batchLink')}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {mode === 'batch' && !originalImage && (
+                    <BatchMode disabled={providerReady !== true} onExit={() => setMode('single')} />
+                )}
+
+                {originalImage && generationsLeft !== Infinity && (
+                    <p role="status" className={`mb-4 text-sm font-medium ${generationsLeft > 0 ? 'text-text-muted' : 'text-red-600'}`}>
+                        {generationsLeft > 0
+                            ? t('kiosk.remaining', { count: generationsLeft, max: kioskSettings.maxGenerationsPerSession })
+                            : t('kiosk.limitReached', { max: kioskSettings.maxGenerationsPerSession })}
+                    </p>
                 )}
 
                 {status !== AppStatus.SUCCESS && originalImage && (
+                    <div className="mb-6">
+                        <ModeToggle mode={mode} onChange={setMode} disabled={isLoading} />
+                    </div>
+                )}
+
+                {mode === 'compare' && originalImage && (
+                    <ComparisonMode originalImage={originalImage} disabled={providerReady !== true} generationsLeft={generationsLeft} onReset={handleResetAll} onResult={handleComparisonResult} />
+                )}
+
+                {mode === 'single' && status !== AppStatus.SUCCESS && originalImage && (
                     <div className="w-full max-w-2xl flex flex-col items-center gap-6">
                         <div className="w-full max-w-lg p-2 bg-black/10 rounded-2xl shadow-xl border-2 border-primary/20">
-                            <img src={originalImage.base64} alt="업로드된 이미지 미리보기" className="w-full h-full max-h-[40vh] object-contain rounded-xl" />
+                            <img src={originalImage.base64} alt={t('common.uploadedPreviewAlt')} className="w-full h-full max-h-[40vh] object-contain rounded-xl" />
                         </div>
                         <div className="w-full p-6 bg-white/40 backdrop-blur-lg border border-white/50 rounded-xl shadow-md">
-                             <label htmlFor="prompt-input" className="block text-lg font-medium mb-2 text-primary">원하는 직업을 입력하세요 (선택 사항)</label>
-                            <div className="flex flex-col sm:flex-row gap-2">
-                                <input
+                             <label htmlFor="prompt-input" className="block text-lg font-medium mb-2 text-primary">{t('single.promptLabel')}</label>
+                            <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+                                <CareerInput
                                     id="prompt-input"
-                                    type="text"
                                     value={prompt}
-                                    onChange={(e) => setPrompt(e.target.value)}
-                                    placeholder="예: 우주비행사, 셰프, 개발자..."
-                                    className="flex-grow bg-white/80 border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-primary focus:outline-none transition text-text-main placeholder:text-text-muted"
+                                    onChange={setPrompt}
+                                    onSubmit={providerReady ? handleGenerate : undefined}
+                                    placeholder={t('common.careerPlaceholder')}
+                                    inputClassName="px-4 py-3"
                                     disabled={isLoading}
                                 />
-                                <button onClick={handleGenerate} disabled={isLoading} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 text-lg">
-                                    {prompt ? "비전 생성하기" : "분석 및 생성"}
+                                <button onClick={handleGenerate} disabled={isLoading || !providerReady || !!validateCareerInput(prompt) || !!promptPolicyIssue || generationsLeft <= 0} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 text-lg">
+                                    {prompt ? t('single.generateCareer') : t('single.generateAuto')}
                                 </button>
                             </div>
+                            <div className="mt-3">
+                                <CareerSurprisePicker onPick={setPrompt} exclude={[prompt]} disabled={isLoading} />
+                            </div>
+                            <div className="mt-3">
+                                <PromptStylePicker career={prompt} disabled={isLoading} />
+                            </div>
+                            {promptPolicyIssue === 'careerRequired' && <p className="mt-2 text-sm text-text-muted">{careerPolicyMessage(promptPolicyIssue, t)}</p>}
                         </div>
                          <button onClick={handleResetAll} className="text-text-muted hover:text-text-main transition underline">
-                            또는 다른 이미지 업로드
+                            {t('upload.otherImage')}
                          </button>
                     </div>
                 )}
                 
-                {status === AppStatus.SUCCESS && result && originalImage && (
-                    <ResultDisplay 
-                        originalImage={originalImage.base64}
-                        result={result}
-                        prompt={prompt}
-                        onPromptChange={setPrompt}
-                        onRegenerate={handleGenerate}
-                        onReset={handleResetAll}
-                        isLoading={isLoading}
-                    />
+                {mode === 'single' && status === AppStatus.SUCCESS && versionTree && result && originalImage && (
+                    <>
+                        <ResultDisplay 
+                            originalImage={originalImage.base64}
+                            result={result}
+                            downloadResult={finalVersion(versionTree).result}
+                            prompt={prompt}
+                            onPromptChange={setPrompt}
+                            onRegenerate={handleGenerate}
+                            onRefine={handleRefine}
+                            onReset={handleResetAll}
+                            isLoading={isLoading || !providerReady || generationsLeft <= 0}
+                            versionId={versionTree.currentId}
+                            chat={currentVersion(versionTree).chat ?? []}
+                            onChatChange={(chat) => handleChatChange(versionTree.currentId, chat)}
+                            isChatDisabled={isLoading || !providerReady}
+                        />
+                        <VersionTreePanel
+                            tree={versionTree}
+                            disabled={isLoading}
+                            onSelect={(id) => setVersionTree(tree => tree && selectVersion(tree, id))}
+                            onUndo={() => setVersionTree(tree => tree && undoVersion(tree))}
+                            onRedo={() => setVersionTree(tree => tree && redoVersion(tree))}
+                            onMarkFinal={handleMarkFinal}
+                        />
+                    </>
                 )}
                 
-                {(status === AppStatus.ERROR || error) && (
+                {generationError && (
+                    <GenerationErrorNotice error={generationError} onRetry={failedInstruction ? () => handleRefine(failedInstruction) : handleGenerate} />
+                )}
+
+                {!generationError && (status === AppStatus.ERROR || error) && (
                    <div className="mt-6 w-full max-w-2xl bg-red-100 border border-red-400 text-red-700 p-4 rounded-lg">
-                        <p className="font-semibold">오류가 발생했습니다</p>
+                        <p className="font-semibold">{t('common.errorTitle')}</p>
                         <p className="text-sm">{error}</p>
                    </div>
                 )}
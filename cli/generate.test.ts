@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { setProvider } from '../services/geminiService';
+import { MockProvider } from '../services/mockProvider';
+import { MANIFEST_JSON_FILE, runBatchGeneration, type BatchRunOptions, type CliManifestRow } from './generate';
+
+// A 1×1 PNG: enough to pass the file type check before the mock provider gets it.
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==', 'base64');
+
+describe('runBatchGeneration', () => {
+    let root: string;
+    let sourceDir: string;
+    let outDir: string;
+
+    before(async () => {
+        setProvider(new MockProvider(0));
+        root = await mkdtemp(path.join(tmpdir(), 'career-vision-cli-'));
+        sourceDir = path.join(root, 'photos');
+        await mkdir(sourceDir);
+        await writeFile(path.join(sourceDir, 'photo1.png'), PNG);
+        await writeFile(path.join(sourceDir, 'photo2.png'), PNG);
+    });
+
+    after(async () => {
+        setProvider('mock');
+        await rm(root, { recursive: true, force: true });
+    });
+
+    let run = 0;
+    beforeEach(() => {
+        outDir = path.join(root, `out-${++run}`);
+    });
+
+    const generate = (generation: BatchRunOptions['generation'] = { locale: 'en' }) =>
+        runBatchGeneration({ sourceDir, outDir, career: 'Chef', concurrency: 2, generation });
+
+    const readRows = async (): Promise<CliManifestRow[]> =>
+        JSON.parse(await readFile(path.join(outDir, MANIFEST_JSON_FILE), 'utf8')).items;
+
+    it('records the locale, template and style of each photo', async () => {
+        const summary = await generate({ locale: 'en', style: 'anime' });
+        assert.deepEqual({ done: summary.done, resumed: summary.resumed }, { done: 2, resumed: 0 });
+        for (const row of await readRows()) {
+            assert.equal(row.status, 'done');
+            assert.equal(row.locale, 'en');
+            assert.equal(row.templateId, 'standard');
+            assert.equal(row.styleId, 'anime');
+        }
+    });
+
+    it('skips photos already done with the same settings', async () => {
+        await generate();
+        const summary = await generate();
+        assert.deepEqual({ done: summary.done, resumed: summary.resumed, total: summary.total }, { done: 0, resumed: 2, total: 2 });
+    });
+
+    it('redoes every photo when the locale or style changes', async () => {
+        await generate({ locale: 'en' });
+        assert.equal((await generate({ locale: 'ko' })).done, 2);
+        assert.ok((await readRows()).every(row => row.locale === 'ko'));
+        assert.equal((await generate({ locale: 'ko', style: 'watercolor' })).done, 2);
+        assert.equal((await generate({ locale: 'ko', style: 'watercolor' })).resumed, 2);
+    });
+
+    it('matches each row on its own', async () => {
+        await generate();
+        const rows = await readRows();
+        // As if photo2 had been generated by an earlier run in Korean.
+        rows[1].locale = 'ko';
+        await writeFile(path.join(outDir, MANIFEST_JSON_FILE), JSON.stringify({ createdAt: '', updatedAt: '', sharedCareer: 'Chef', items: rows }));
+        const summary = await generate();
+        assert.deepEqual({ done: summary.done, resumed: summary.resumed }, { done: 1, resumed: 1 });
+    });
+
+    it('redoes a done photo whose image file is gone', async () => {
+        await generate();
+        await unlink(path.join(outDir, (await readRows())[0].outputFile!));
+        const summary = await generate();
+        assert.deepEqual({ done: summary.done, resumed: summary.resumed }, { done: 1, resumed: 1 });
+    });
+});
@@ -0,0 +1,250 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { batchOutputFileName, manifestToCsv, type BatchManifestRow } from '../services/batchExport';
+import { createLimiter } from '../services/concurrency';
+import { generateImageAndAnalysis, type GenerationOptions } from '../services/geminiService';
+import { toGenerationError } from '../services/generationErrors';
+import { DEFAULT_LOCALE, type Locale } from '../services/i18n';
+import { bytesToDataUrl, dataUrlToBytes, sniffImageMimeType } from '../services/imageFiles';
+import { promptProvenance } from '../services/promptTemplates';
+import { TaskQueue } from '../services/taskQueue';
+
+/**
+ * Bulk generation for the CLI: every photo in a directory goes through the
+ * shared service layer, and the results land in an output directory laid out
+ * like the in-app batch ZIP (`images/` plus `manifest.json` and
+ * `manifest.csv`). The manifest is rewritten after every photo, which is what
+ * makes an interrupted run resumable.
+ */
+
+/**
+ * Photos are sent as they are, since there is no canvas here to downscale
+ * them. Base64 adds a third, so this keeps requests under the API's 10 MB body
+ * limit.
+ */
+export const MAX_SOURCE_BYTES = 7 * 1024 * 1024;
+
+export const MANIFEST_JSON_FILE = 'manifest.json';
+export const MANIFEST_CSV_FILE = 'manifest.csv';
+
+const SOURCE_FILE_PATTERN = /\.(png|jpe?g|webp)$/i;
+
+/** A manifest row plus the analysis language, which the in-app export leaves to the app's locale. */
+export interface CliManifestRow extends BatchManifestRow {
+    locale: Locale;
+}
+
+export interface BatchRunOptions {
+    sourceDir: string;
+    outDir: string;
+    /** Career for every photo; empty lets the model choose one per photo. */
+    career: string;
+    concurrency: number;
+    /** Minimum gap between two request starts. */
+    intervalMs?: number;
+    /** Regenerates photos the manifest already lists as done. */
+    force?: boolean;
+    generation?: Omit<GenerationOptions, 'signal'>;
+    /** Aborting stops the run; finished photos stay in the manifest for the next one. */
+    signal?: AbortSignal;
+    /** Called once per photo that finished, failed or was skipped in this run. */
+    onProgress?: (row: CliManifestRow, settled: number, total: number) => void;
+}
+
+export interface BatchRunSummary {
+    total: number;
+    /** Photos that were already done in an earlier run. */
+    resumed: number;
+    done: number;
+    failed: number;
+    /** Unreadable or oversized files, plus photos not reached before an interrupt. */
+    skipped: number;
+    interrupted: boolean;
+}
+
+interface BatchManifestFile {
+    createdAt: string;
+    updatedAt: string;
+    sharedCareer: string;
+    items: CliManifestRow[];
+}
+
+/** What a row must have been generated with to count as done for this run. */
+type RequestedRun = Pick<CliManifestRow, 'requestedCareer' | 'locale' | 'templateId' | 'styleId'>;
+
+type ResumableRow = CliManifestRow & { status: 'done'; outputFile: string };
+
+/** Image files directly inside `dir`, in natural name order so `photo2` comes before `photo10`. */
+export const listSourceImages = async (dir: string): Promise<string[]> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries
+        .filter(entry => entry.isFile() && SOURCE_FILE_PATTERN.test(entry.name))
+        .map(entry => entry.name)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+const isMissingFile = (e: unknown): boolean => (e as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+const readManifest = async (outDir: string): Promise<BatchManifestFile | null> => {
+    const file = path.join(outDir, MANIFEST_JSON_FILE);
+    let raw: string;
+    try {
+        raw = await readFile(file, 'utf8');
+    } catch (e) {
+        if (isMissingFile(e)) return null;
+        throw e;
+    }
+    try {
+        const manifest = JSON.parse(raw) as BatchManifestFile;
+        if (Array.isArray(manifest?.items)) return manifest;
+    } catch {
+        // Reported below.
+    }
+    throw new Error(`${file} is not a batch manifest; move it away or pass --force to start over.`);
+};
+
+const fileExists = (file: string): Promise<boolean> =>
+    stat(file).then(stats => stats.isFile(), () => false);
+
+const pendingRow = (index: number, sourceFile: string, requested: RequestedRun): CliManifestRow => ({
+    index: index + 1,
+    sourceFile,
+    outputFile: null,
+    ...requested,
+    status: 'skipped',
+    title: '',
+    description: '',
+    keySkills: [],
+    error: '',
+});
+
+/**
+ * A done row from an earlier run can be kept if it was generated with the same
+ * career, language, template and style. Rows written before the language was
+ * recorded never match, so those photos are generated again.
+ */
+const isResumable = (row: CliManifestRow | undefined, requested: RequestedRun): row is ResumableRow =>
+    !!row && row.status === 'done' && !!row.outputFile
+    && row.requestedCareer === requested.requestedCareer
+    && row.locale === requested.locale
+    && row.templateId === requested.templateId
+    && row.styleId === requested.styleId;
+
+/** Written to a temporary file first, so an interrupt never leaves a half-written manifest behind. */
+const writeFileAtomic = async (file: string, data: string): Promise<void> => {
+    const temporary = `${file}.tmp`;
+    await writeFile(temporary, data, 'utf8');
+    await rename(temporary, file);
+};
+
+export const runBatchGeneration = async (options: BatchRunOptions): Promise<BatchRunSummary> => {
+    const { sourceDir, outDir, career, concurrency, intervalMs, force, generation, signal, onProgress } = options;
+    const sourceFiles = await listSourceImages(sourceDir);
+    const previous = force ? null : await readManifest(outDir);
+    const previousRows = new Map(previous?.items.map(row => [row.sourceFile, row]));
+    await mkdir(path.join(outDir, 'images'), { recursive: true });
+
+    // Resolved the way providers record them, so an omitted template or style matches the default it stands for.
+    const provenance = promptProvenance(generation?.template, generation?.style);
+    const requested: RequestedRun = {
+        requestedCareer: career,
+        locale: generation?.locale ?? DEFAULT_LOCALE,
+        templateId: provenance.templateId ?? '',
+        styleId: provenance.styleId ?? '',
+    };
+
+    const rows: CliManifestRow[] = [];
+    const todo: number[] = [];
+    for (const [index, sourceFile] of sourceFiles.entries()) {
+        const earlier = previousRows.get(sourceFile);
+        if (isResumable(earlier, requested) && await fileExists(path.join(outDir, earlier.outputFile))) {
+            rows.push({ ...earlier, index: index + 1 });
+        } else {
+            rows.push(pendingRow(index, sourceFile, requested));
+            todo.push(index);
+        }
+    }
+    const resumed = rows.length - todo.length;
+
+    const createdAt = previous?.createdAt ?? new Date().toISOString();
+    // Each save writes the whole manifest, so saves must not interleave.
+    const serialize = createLimiter(1);
+    const saveManifest = () => serialize(async () => {
+        const manifest: BatchManifestFile = { createdAt, updatedAt: new Date().toISOString(), sharedCareer: career, items: rows };
+        await writeFileAtomic(path.join(outDir, MANIFEST_JSON_FILE), JSON.stringify(manifest, null, 2));
+        await writeFileAtomic(path.join(outDir, MANIFEST_CSV_FILE), manifestToCsv(rows));
+    });
+    await saveManifest();
+
+    let settled = resumed;
+    const settle = async (index: number, row: CliManifestRow) => {
+        rows[index] = row;
+        const position = ++settled;
+        await saveManifest();
+        onProgress?.(row, position, rows.length);
+    };
+
+    const processPhoto = async (index: number) => {
+        const row = rows[index];
+        let bytes: Uint8Array;
+        try {
+            bytes = await readFile(path.join(sourceDir, row.sourceFile));
+        } catch (e) {
+            await settle(index, { ...row, status: 'failed', error: `Could not read the file: ${e instanceof Error ? e.message : String(e)}` });
+            return;
+        }
+        if (bytes.length > MAX_SOURCE_BYTES) {
+            await settle(index, { ...row, error: `File is larger than ${MAX_SOURCE_BYTES / 1024 / 1024} MB.` });
+            return;
+        }
+        const mimeType = sniffImageMimeType(bytes);
+        if (!mimeType) {
+            await settle(index, { ...row, error: 'Not a PNG, JPEG or WebP image.' });
+            return;
+        }
+
+        try {
+            const result = await generateImageAndAnalysis(bytesToDataUrl(bytes, mimeType), mimeType, career, { ...generation, signal });
+            const outputFile = batchOutputFileName(index, row.sourceFile, result);
+            await writeFile(path.join(outDir, outputFile), dataUrlToBytes(result.image));
+            await settle(index, {
+                ...row,
+                outputFile,
+                status: 'done',
+                title: result.title,
+                description: result.description,
+                keySkills: result.keySkills,
+                templateId: result.templateId ?? row.templateId,
+                styleId: result.styleId ?? row.styleId,
+            });
+        } catch (e) {
+            const failure = toGenerationError(e);
+            // An interrupted photo stays pending, so the next run picks it up.
+            if (failure.kind === 'cancelled') return;
+            await settle(index, { ...row, status: 'failed', error: failure.message });
+        }
+    };
+
+    const queue = new TaskQueue({ concurrency, intervalMs });
+    const stop = () => queue.cancel();
+    signal?.addEventListener('abort', stop, { once: true });
+    try {
+        if (!signal?.aborted) {
+            todo.forEach(index => queue.add(() => processPhoto(index)));
+        }
+        await queue.onIdle();
+    } finally {
+        signal?.removeEventListener('abort', stop);
+    }
+    await saveManifest();
+
+    const count = (status: BatchManifestRow['status']) => rows.filter(row => row.status === status).length;
+    return {
+        total: rows.length,
+        resumed,
+        done: count('done') - resumed,
+        failed: count('failed'),
+        skipped: count('skipped'),
+        interrupted: !!signal?.aborted,
+    };
+};
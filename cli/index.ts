@@ -0,0 +1,198 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { type CareerVisionProvider } from '../services/careerVisionProvider';
+import { GeminiProvider } from '../services/geminiProvider';
+import { setProvider } from '../services/geminiService';
+import { DEFAULT_LOCALE, isLocale, SUPPORTED_LOCALES } from '../services/i18n';
+import { MockProvider } from '../services/mockProvider';
+import { validateCareerInput } from '../services/promptInput';
+import { BUILT_IN_TEMPLATES, findBuiltInTemplate, isStyleId, STYLE_IDS, type StyleId } from '../services/promptTemplates';
+import { RemoteProvider } from '../services/remoteProvider';
+import { PROMPT_ISSUE_MESSAGES } from '../server/http';
+import { DEFAULT_API_PORT, loadLocalEnv } from '../server/index';
+import { MANIFEST_JSON_FILE, runBatchGeneration } from './generate';
+
+const CLI_PROVIDER_IDS = ['gemini', 'remote', 'mock'] as const;
+type CliProviderId = typeof CLI_PROVIDER_IDS[number];
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_API_URL = `http://localhost:${DEFAULT_API_PORT}/api`;
+
+const USAGE = `Usage: npm run career-vision -- generate <dir> --out <dir> [options]
+
+Generates a career image and analysis for every PNG, JPEG and WebP photo in <dir>.
+Running the same command again resumes: photos already done are skipped.
+
+Options:
+  --out <dir>          Output directory for images/, ${MANIFEST_JSON_FILE} and manifest.csv (required)
+  --career <name>      Career for every photo; omit to let the model choose
+  --locale <id>        Language of the analysis: ${SUPPORTED_LOCALES.join(', ')} (default: ${DEFAULT_LOCALE})
+  --style <id>         Style preset: ${STYLE_IDS.join(', ')}
+  --template <id>      Built-in prompt template: ${BUILT_IN_TEMPLATES.map(template => template.id).join(', ')}
+  --concurrency <n>    Photos generated at the same time (default: ${DEFAULT_CONCURRENCY})
+  --interval <ms>      Minimum gap between two request starts (default: 0)
+  --retries <n>        Extra attempts for retryable failures (default: ${DEFAULT_RETRIES})
+  --timeout <s>        Time limit per attempt in seconds (default: GENERATION_TIMEOUT_MS or 90)
+  --provider <id>      gemini (GEMINI_API_KEY), remote (a running API server) or mock (default: gemini)
+  --api-url <url>      API base URL for --provider remote (default: ${DEFAULT_API_URL})
+  --force              Regenerate every photo, ignoring an existing manifest
+  -h, --help           Show this help`;
+
+/** Bad arguments; reported with the usage text and exit code 2. */
+class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+const parseCount = (name: string, value: string | undefined, fallback: number, min: number): number => {
+    if (value === undefined) return fallback;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+        throw new CliUsageError(`--${name} must be a whole number of at least ${min}.`);
+    }
+    return count;
+};
+
+const isCliProviderId = (value: unknown): value is CliProviderId =>
+    typeof value === 'string' && (CLI_PROVIDER_IDS as readonly string[]).includes(value);
+
+const createProvider = (id: CliProviderId, apiUrl: string): CareerVisionProvider => {
+    switch (id) {
+        case 'gemini':
+            return new GeminiProvider(process.env.GEMINI_API_KEY, { baseUrl: process.env.GEMINI_BASE_URL || undefined });
+        case 'remote':
+            return new RemoteProvider(apiUrl.replace(/\/+$/, ''));
+        case 'mock':
+            return new MockProvider();
+    }
+};
+
+const NOT_CONFIGURED_MESSAGES: Record<CliProviderId, (apiUrl: string) => string> = {
+    gemini: () => 'GEMINI_API_KEY is not set. Set it in the environment or .env.local, or use --provider mock.',
+    remote: apiUrl => `No configured API server answered at ${apiUrl}/health.`,
+    mock: () => 'The mock provider is not available.',
+};
+
+const runGenerate = async (args: string[]): Promise<number> => {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            out: { type: 'string' },
+            career: { type: 'string', default: '' },
+            locale: { type: 'string', default: DEFAULT_LOCALE },
+            style: { type: 'string' },
+            template: { type: 'string' },
+            concurrency: { type: 'string' },
+            interval: { type: 'string' },
+            retries: { type: 'string' },
+            timeout: { type: 'string' },
+            provider: { type: 'string', default: process.env.CAREER_VISION_PROVIDER === 'mock' ? 'mock' : 'gemini' },
+            'api-url': { type: 'string', default: DEFAULT_API_URL },
+            force: { type: 'boolean', default: false },
+        },
+    });
+
+    const [sourceDir, ...extra] = positionals;
+    if (!sourceDir || extra.length) throw new CliUsageError('Pass exactly one source directory.');
+    if (!values.out) throw new CliUsageError('--out is required.');
+    if (path.resolve(values.out) === path.resolve(sourceDir)) throw new CliUsageError('--out must differ from the source directory.');
+
+    const career = values.career.trim();
+    const careerIssue = validateCareerInput(career);
+    if (careerIssue) throw new CliUsageError(`--career ${PROMPT_ISSUE_MESSAGES[careerIssue]}.`);
+    if (!isLocale(values.locale)) throw new CliUsageError(`--locale must be one of: ${SUPPORTED_LOCALES.join(', ')}.`);
+    let style: StyleId | undefined;
+    if (values.style !== undefined) {
+        if (!isStyleId(values.style)) throw new CliUsageError(`--style must be one of: ${STYLE_IDS.join(', ')}.`);
+        style = values.style;
+    }
+    const template = values.template !== undefined ? findBuiltInTemplate(values.template) : undefined;
+    if (values.template !== undefined && !template) {
+        throw new CliUsageError(`--template must be one of: ${BUILT_IN_TEMPLATES.map(builtIn => builtIn.id).join(', ')}.`);
+    }
+    if (!isCliProviderId(values.provider)) throw new CliUsageError(`--provider must be one of: ${CLI_PROVIDER_IDS.join(', ')}.`);
+
+    const concurrency = parseCount('concurrency', values.concurrency, DEFAULT_CONCURRENCY, 1);
+    const intervalMs = parseCount('interval', values.interval, 0, 0);
+    const retries = parseCount('retries', values.retries, DEFAULT_RETRIES, 0);
+    const timeoutMs = parseCount('timeout', values.timeout, 0, 1) * 1000 || Number(process.env.GENERATION_TIMEOUT_MS) || undefined;
+
+    const apiUrl = values['api-url'];
+    const provider = createProvider(values.provider, apiUrl);
+    if (!(await provider.isConfigured())) {
+        console.error(NOT_CONFIGURED_MESSAGES[values.provider](apiUrl));
+        return 1;
+    }
+    setProvider(provider);
+
+    // The first Ctrl+C lets running requests be cancelled and the manifest saved; a second one quits at once.
+    const controller = new AbortController();
+    const onInterrupt = () => {
+        if (controller.signal.aborted) process.exit(130);
+        console.error('Stopping. Run the same command again to resume; press Ctrl+C again to quit now.');
+        controller.abort();
+    };
+    process.on('SIGINT', onInterrupt);
+    process.on('SIGTERM', onInterrupt);
+
+    try {
+        const summary = await runBatchGeneration({
+            sourceDir,
+            outDir: values.out,
+            career,
+            concurrency,
+            intervalMs,
+            force: values.force,
+            generation: { locale: values.locale, template, style, retries, ...(timeoutMs ? { timeoutMs } : {}) },
+            signal: controller.signal,
+            onProgress: (row, settled, total) => {
+                const detail = row.status === 'done' ? `${row.title} -> ${row.outputFile}` : `${row.status}: ${row.error}`;
+                console.log(`[${settled}/${total}] ${row.sourceFile}: ${detail}`);
+            },
+        });
+
+        if (summary.total === 0) {
+            console.warn(`No PNG, JPEG or WebP files found in ${sourceDir}.`);
+        }
+        console.log(`Done ${summary.done}, failed ${summary.failed}, skipped ${summary.skipped}, already done ${summary.resumed} of ${summary.total}. Manifest: ${path.join(values.out, MANIFEST_JSON_FILE)}`);
+        if (summary.interrupted) return 130;
+        return summary.failed > 0 ? 1 : 0;
+    } finally {
+        process.off('SIGINT', onInterrupt);
+        process.off('SIGTERM', onInterrupt);
+    }
+};
+
+/** Runs the CLI and returns its exit code. */
+export const main = async (argv: string[]): Promise<number> => {
+    const [command, ...args] = argv;
+    if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+        console.log(USAGE);
+        return command ? 0 : 2;
+    }
+    try {
+        if (command !== 'generate') throw new CliUsageError(`Unknown command '${command}'.`);
+        return await runGenerate(args);
+    } catch (e) {
+        // parseArgs reports unknown options and missing values as TypeErrors with an ERR_PARSE_ARGS_* code.
+        const isParseError = String((e as NodeJS.ErrnoException)?.code ?? '').startsWith('ERR_PARSE_ARGS');
+        if (e instanceof CliUsageError || isParseError) {
+            console.error(`${(e as Error).message}\n\n${USAGE}`);
+            return 2;
+        }
+        console.error(e instanceof Error ? e.message : e);
+        return 1;
+    }
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    loadLocalEnv();
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
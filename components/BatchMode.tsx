@@ -0,0 +1,341 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { generateImageAndAnalysis } from '../services/geminiService';
+import { createBatchZip } from '../services/batchExport';
+import { createLimiter } from '../services/concurrency';
+import { downloadBlob } from '../services/download';
+import type { PosterContent } from '../services/poster';
+import { filesFromDataTransfer, isSupportedImage } from '../services/imageFiles';
+import { preprocessImage } from '../services/imagePreprocess';
+import { TaskQueue, type TaskQueueState } from '../services/taskQueue';
+import type { BatchItem, BatchItemStatus } from '../types';
+import { DownloadIcon, RedoIcon, TrashIcon, UploadIcon } from './icons';
+import { generationErrorMessage } from './GenerationErrorNotice';
+import { PosterExportDialog } from './PosterExportDialog';
+import { toGenerationError } from '../services/generationErrors';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales';
+import { CareerInput, promptIssueMessage } from './CareerInput';
+import { PromptStylePicker } from './PromptTemplateControls';
+import { usePromptTemplates } from './PromptTemplateProvider';
+import { MAX_CAREER_LENGTH, validateCareerInput } from '../services/promptInput';
+
+/** Parallel requests in batch mode; kept low so a class does not trip the API rate limit. */
+export const BATCH_CONCURRENCY = 2;
+export const BATCH_INTERVAL_MS = 1500;
+
+// Each photo is decoded onto canvases of up to 4096 px, so a dropped class folder is prepared one photo at a time.
+const preparePhoto = createLimiter(1);
+
+const STATUS_LABELS: Record<BatchItemStatus, MessageKey> = {
+    pending: 'batch.status.pending',
+    queued: 'batch.status.queued',
+    processing: 'batch.status.processing',
+    done: 'batch.status.done',
+    failed: 'batch.status.failed',
+    cancelled: 'batch.status.cancelled',
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+    pending: 'bg-gray-100 text-text-muted',
+    queued: 'bg-indigo-100 text-indigo-700',
+    processing: 'bg-primary/20 text-primary-focus',
+    done: 'bg-green-100 text-green-700',
+    failed: 'bg-red-100 text-red-700',
+    cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+let itemSequence = 0;
+
+interface BatchRowProps {
+    item: BatchItem;
+    sharedCareer: string;
+    locked: boolean;
+    onCareerChange: (id: string, career: string) => void;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+const BatchRow: React.FC<BatchRowProps> = ({ item, sharedCareer, locked, onCareerChange, onRetry, onRemove }) => {
+    const { t } = useI18n();
+    const editable = !locked && (item.status === 'pending' || item.status === 'failed' || item.status === 'cancelled');
+    const careerIssue = validateCareerInput(item.career);
+    return (
+        <li className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-white/70 border border-gray-200 rounded-xl">
+            <div className="flex items-center gap-3 sm:w-64 shrink-0">
+                <img src={item.result?.image ?? item.image.base64} alt="" className="w-14 h-14 object-cover rounded-lg bg-black/10" />
+                <div className="min-w-0">
+                    <p className="text-sm font-semibold text-text-main truncate" title={item.fileName}>{item.fileName}</p>
+                    <span className={`inline-block mt-1 text-xs font-semibold py-0.5 px-2 rounded-full ${STATUS_STYLES[item.status]}`}>{t(STATUS_LABELS[item.status])}</span>
+                </div>
+            </div>
+            <div className="flex-grow min-w-0">
+                {item.result ? (
+                    <>
+                        <p className="text-sm font-semibold text-text-main">{item.result.title}</p>
+                        <p className="text-sm text-text-muted line-clamp-1">{item.result.description}</p>
+                    </>
+                ) : (
+                    <input
+                        type="text"
+                        value={item.career}
+                        onChange={(e) => onCareerChange(item.id, e.target.value)}
+                        placeholder={sharedCareer || t('batch.rowCareerPlaceholder')}
+                        aria-label={t('batch.rowCareerLabel', { file: item.fileName })}
+                        disabled={!editable}
+                        aria-invalid={!!careerIssue}
+                        className={`w-full bg-white/80 border rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:outline-none disabled:opacity-60 ${careerIssue ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'}`}
+                    />
+                )}
+                {!item.result && careerIssue && <p className="mt-1 text-xs text-red-700">{promptIssueMessage(careerIssue, MAX_CAREER_LENGTH, t)}</p>}
+                {item.error && <p className="mt-1 text-xs text-red-700">{item.error}</p>}
+            </div>
+            <div className="flex gap-2 shrink-0">
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <button onClick={() => onRetry(item.id)} aria-label={t('common.retry')} className="text-primary hover:text-primary-focus"><RedoIcon className="w-5 h-5" /></button>
+                )}
+                {item.status !== 'queued' && item.status !== 'processing' && (
+                    <button onClick={() => onRemove(item.id)} aria-label={t('batch.remove')} className="text-text-muted hover:text-red-500"><TrashIcon className="w-5 h-5" /></button>
+                )}
+            </div>
+        </li>
+    );
+};
+
+/** Processes a whole folder of photos through a throttled queue and exports the results as a ZIP. */
+export const BatchMode: React.FC<{ disabled: boolean; onExit: () => void }> = ({ disabled, onExit }) => {
+    const { locale, t } = useI18n();
+    const { template, styleId } = usePromptTemplates();
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [sharedCareer, setSharedCareer] = useState('');
+    const [queueState, setQueueState] = useState<TaskQueueState>('idle');
+    const [rejectedFiles, setRejectedFiles] = useState<string[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    const [dropFailed, setDropFailed] = useState(false);
+    const [posterContents, setPosterContents] = useState<PosterContent[] | null>(null);
+    const queueRef = useRef<TaskQueue | null>(null);
+    if (!queueRef.current) {
+        queueRef.current = new TaskQueue({ concurrency: BATCH_CONCURRENCY, intervalMs: BATCH_INTERVAL_MS, onStateChange: setQueueState });
+    }
+
+    // Aborted by the cancel button and on unmount; replaced with a fresh controller after each cancel.
+    const abortRef = useRef(new AbortController());
+
+    useEffect(() => {
+        abortRef.current = new AbortController();
+        return () => {
+            queueRef.current?.cancel();
+            abortRef.current.abort();
+        };
+    }, []);
+
+    const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+        setItems(current => current.map(item => item.id === id ? { ...item, ...patch } : item));
+    }, []);
+
+    const addFiles = useCallback(async (files: File[]) => {
+        const supported = files.filter(isSupportedImage);
+        setRejectedFiles(files.filter(file => !isSupportedImage(file)).map(file => file.name));
+        // Each photo shows up in the list as soon as it is ready.
+        await Promise.all(supported.map(file => preparePhoto(async () => {
+            try {
+                const { base64, mimeType } = await preprocessImage(file);
+                const item: BatchItem = {
+                    id: `batch-${++itemSequence}`,
+                    fileName: file.webkitRelativePath || file.name,
+                    image: { base64, mimeType },
+                    career: '',
+                    status: 'pending',
+                };
+                setItems(current => [...current, item]);
+            } catch {
+                setRejectedFiles(current => [...current, file.name]);
+            }
+        })));
+    }, []);
+
+    const enqueue = useCallback((targets: BatchItem[]) => {
+        const queue = queueRef.current!;
+        for (const item of targets) {
+            const career = item.career.trim() || sharedCareer.trim();
+            updateItem(item.id, { status: 'queued', error: undefined });
+            queue.add(async () => {
+                const signal = abortRef.current.signal;
+                updateItem(item.id, { status: 'processing' });
+                try {
+                    const result = await generateImageAndAnalysis(item.image.base64, item.image.mimeType, career, { signal, locale, template, style: styleId });
+                    updateItem(item.id, { status: 'done', result });
+                } catch (e) {
+                    if (toGenerationError(e).kind === 'cancelled') {
+                        updateItem(item.id, { status: 'cancelled' });
+                        return;
+                    }
+                    updateItem(item.id, { status: 'failed', error: generationErrorMessage(e, t) });
+                }
+            });
+        }
+    }, [sharedCareer, updateItem, template, styleId, locale, t]);
+
+    const handleStart = () => enqueue(items.filter(item => item.status === 'pending' || item.status === 'cancelled'));
+    const handleRetryFailed = () => enqueue(items.filter(item => item.status === 'failed'));
+    const handleRetry = (id: string) => {
+        const item = items.find(i => i.id === id);
+        if (item) enqueue([item]);
+    };
+
+    const handleCancel = () => {
+        queueRef.current!.cancel();
+        abortRef.current.abort();
+        abortRef.current = new AbortController();
+        setItems(current => current.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+    };
+
+    const handleExport = () => {
+        const stamp = new Date().toISOString().slice(0, 10);
+        downloadBlob(createBatchZip(items, sharedCareer.trim()), `career_vision_batch_${stamp}.zip`);
+    };
+
+    const handlePosterExport = () => {
+        const date = new Date();
+        setPosterContents(items.flatMap(item => item.result
+            ? [{ originalImage: item.image.base64, result: item.result, date, caption: item.fileName.replace(/\.[^.]+$/, '') }]
+            : []));
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        setDropFailed(false);
+        let files: File[];
+        try {
+            files = await filesFromDataTransfer(e.dataTransfer);
+        } catch (err) {
+            // Reading a dropped folder can fail part-way, e.g. when it is moved or the browser denies access.
+            console.warn('Failed to read the dropped files:', err);
+            setDropFailed(true);
+            return;
+        }
+        addFiles(files);
+    };
+
+    const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) addFiles(Array.from(e.target.files));
+        e.target.value = '';
+    };
+
+    const isBusy = queueState !== 'idle';
+    const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] ?? 0) + 1 }), {} as Partial<Record<BatchItemStatus, number>>);
+    const startable = (counts.pending ?? 0) + (counts.cancelled ?? 0);
+    const finished = (counts.done ?? 0) + (counts.failed ?? 0);
+    const hasInvalidCareer = !!validateCareerInput(sharedCareer) || items.some(item => !item.result && !!validateCareerInput(item.career));
+    const rejectedFileList = rejectedFiles.length > 5
+        ? t('batch.rejectedMore', { files: rejectedFiles.slice(0, 5).join(', ') })
+        : rejectedFiles.join(', ');
+
+    return (
+        <div className="w-full max-w-4xl mx-auto flex flex-col gap-6">
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-2xl backdrop-blur-lg transition-all duration-300 ${isDragging ? 'border-primary bg-primary/10' : 'border-white/70 bg-white/40'}`}
+            >
+                <UploadIcon className="w-12 h-12 text-primary" />
+                <h2 className="mt-3 text-xl font-semibold text-text-main">{t('batch.title')}</h2>
+                <p className="mt-1 text-sm text-text-muted">{t('batch.dropHint')}</p>
+                <div className="mt-4 flex gap-2">
+                    <label className="bg-primary hover:bg-primary-focus text-white font-semibold py-2 px-4 rounded-lg cursor-pointer transition">
+                        {t('batch.pickFiles')}
+                        <input type="file" multiple accept="image/png, image/jpeg, image/webp" onChange={handleFileInput} className="hidden" />
+                    </label>
+                    <label className="bg-white hover:bg-gray-100 text-text-main font-semibold py-2 px-4 rounded-lg cursor-pointer transition border border-gray-300">
+                        {t('batch.pickFolder')}
+                        <input type="file" multiple ref={(input) => input?.setAttribute('webkitdirectory', '')} onChange={handleFileInput} className="hidden" />
+                    </label>
+                </div>
+                {rejectedFiles.length > 0 && (
+                    <p className="mt-3 text-xs text-red-700">{t('batch.rejected', { count: rejectedFiles.length, files: rejectedFileList })}</p>
+                )}
+                {dropFailed && <p role="alert" className="mt-3 text-xs text-red-700">{t('batch.dropFailed')}</p>}
+            </div>
+
+            {items.length > 0 && (
+                <div className="p-6 bg-white/40 backdrop-blur-lg border border-white/50 rounded-xl shadow-md flex flex-col gap-4">
+                    <div className="flex flex-col sm:flex-row gap-2 sm:items-start">
+                        <label htmlFor="batch-career" className="font-medium text-primary shrink-0 sm:py-2">{t('batch.sharedCareer')}</label>
+                        <CareerInput
+                            id="batch-career"
+                            value={sharedCareer}
+                            onChange={setSharedCareer}
+                            placeholder={t('batch.sharedCareerPlaceholder')}
+                            inputClassName="px-4 py-2"
+                            disabled={isBusy}
+                        />
+                    </div>
+                    <PromptStylePicker career={sharedCareer} disabled={isBusy} />
+                    <div className="flex flex-wrap gap-2 items-center">
+                        {!isBusy && (
+                            <button onClick={handleStart} disabled={disabled || startable === 0 || hasInvalidCareer} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition">
+                                {t('batch.start', { count: startable })}
+                            </button>
+                        )}
+                        {queueState === 'running' && (
+                            <button onClick={() => queueRef.current!.pause()} className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900 font-semibold py-2 px-4 rounded-lg transition">{t('batch.pause')}</button>
+                        )}
+                        {queueState === 'paused' && (
+                            <button onClick={() => queueRef.current!.resume()} className="bg-primary hover:bg-primary-focus text-white font-semibold py-2 px-4 rounded-lg transition">{t('batch.resume')}</button>
+                        )}
+                        {isBusy && (
+                            <button onClick={handleCancel} className="bg-red-100 hover:bg-red-200 text-red-700 font-semibold py-2 px-4 rounded-lg transition">{t('common.cancel')}</button>
+                        )}
+                        {(counts.failed ?? 0) > 0 && !isBusy && (
+                            <button onClick={handleRetryFailed} disabled={disabled || hasInvalidCareer} className="bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center gap-1 transition">
+                                <RedoIcon className="w-4 h-4" />
+                                {t('batch.retryFailed', { count: counts.failed ?? 0 })}
+                            </button>
+                        )}
+                        <button onClick={handleExport} disabled={(counts.done ?? 0) === 0} className="ml-auto bg-accent hover:bg-pink-500 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition">
+                            <DownloadIcon className="w-5 h-5" />
+                            {t('batch.exportZip')}
+                        </button>
+                        <button onClick={handlePosterExport} disabled={(counts.done ?? 0) === 0} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition">
+                            <DownloadIcon className="w-5 h-5" />
+                            {t('batch.exportPosters')}
+                        </button>
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-xs text-text-muted mb-1">
+                            <span>{t('batch.progress', { finished, total: items.length })}</span>
+                            <span>{t('batch.summary', { done: counts.done ?? 0, failed: counts.failed ?? 0 })}</span>
+                        </div>
+                        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary transition-all" style={{ width: `${(finished / items.length) * 100}%` }}></div>
+                        </div>
+                    </div>
+                    <ul className="flex flex-col gap-2">
+                        {items.map(item => (
+                            <BatchRow
+                                key={item.id}
+                                item={item}
+                                sharedCareer={sharedCareer}
+                                locked={isBusy}
+                                onCareerChange={(id, career) => updateItem(id, { career })}
+                                onRetry={handleRetry}
+                                onRemove={(id) => setItems(current => current.filter(i => i.id !== id))}
+                            />
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <button onClick={onExit} disabled={isBusy} className="text-text-muted hover:text-text-main disabled:opacity-50 transition underline self-center">
+                {t('batch.exit')}
+            </button>
+            {posterContents && (
+                <PosterExportDialog
+                    contents={posterContents}
+                    title={t('batch.posterTitle', { date: new Date().toISOString().slice(0, 10) })}
+                    onClose={() => setPosterContents(null)}
+                />
+            )}
+        </div>
+    );
+};
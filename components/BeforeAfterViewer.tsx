@@ -0,0 +1,370 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GenerationResult } from '../types';
+import { createMorphAnimation, isWebmExportSupported, MorphExportError, type MorphExportErrorCode, type MorphFormat } from '../services/morphAnimation';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, ResetIcon } from './icons';
+import { useI18n, type Translate } from './I18nProvider';
+
+type ViewerMode = 'split' | 'onion' | 'side';
+
+const VIEWER_MODES: ViewerMode[] = ['split', 'onion', 'side'];
+
+interface ViewTransform {
+    scale: number;
+    /** Pan offset in CSS pixels from the pane centre. */
+    x: number;
+    y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.5;
+const WHEEL_ZOOM_SPEED = 0.002;
+const DIVIDER_KEY_STEP = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps the image covering the pane, so panning never reveals empty space beyond its edges. */
+const clampTransform = ({ scale, x, y }: ViewTransform, width: number, height: number): ViewTransform => {
+    const nextScale = clamp(scale, MIN_SCALE, MAX_SCALE);
+    const maxX = (nextScale - 1) * width / 2;
+    const maxY = (nextScale - 1) * height / 2;
+    return { scale: nextScale, x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+};
+
+/** Zooms around a point given relative to the pane centre, keeping that point under the cursor. */
+const zoomAt = (current: ViewTransform, factor: number, pointX: number, pointY: number): ViewTransform => {
+    const scale = clamp(current.scale * factor, MIN_SCALE, MAX_SCALE);
+    const ratio = scale / current.scale;
+    return { scale, x: pointX - (pointX - current.x) * ratio, y: pointY - (pointY - current.y) * ratio };
+};
+
+/** Zooms around the pane centre; the pan shrinks with the zoom so it stays in bounds without knowing the pane size. */
+const zoomCentered = (current: ViewTransform, factor: number): ViewTransform => {
+    const scale = clamp(current.scale * factor, MIN_SCALE, MAX_SCALE);
+    const ratio = current.scale > 1 ? Math.min(1, (scale - 1) / (current.scale - 1)) : 0;
+    return { scale, x: current.x * ratio, y: current.y * ratio };
+};
+
+const transformStyle = ({ scale, x, y }: ViewTransform) => ({ transform: `translate(${x}px, ${y}px) scale(${scale})` });
+
+type SetTransform = (update: (current: ViewTransform) => ViewTransform) => void;
+
+interface ZoomPaneProps {
+    transform: ViewTransform;
+    setTransform: SetTransform;
+    className?: string;
+    children: React.ReactNode;
+}
+
+/** Wheel zoom and drag-to-pan surface. Every pane shares one transform, so zoom and pan stay in sync. */
+const ZoomPane: React.FC<ZoomPaneProps> = ({ transform, setTransform, className = '', children }) => {
+    const paneRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: ViewTransform } | null>(null);
+
+    // React registers wheel listeners as passive, which would let the page scroll while zooming.
+    useEffect(() => {
+        const pane = paneRef.current;
+        if (!pane) return;
+        const onWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            const rect = pane.getBoundingClientRect();
+            const pointX = event.clientX - rect.left - rect.width / 2;
+            const pointY = event.clientY - rect.top - rect.height / 2;
+            setTransform(current => clampTransform(zoomAt(current, Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), pointX, pointY), rect.width, rect.height));
+        };
+        pane.addEventListener('wheel', onWheel, { passive: false });
+        return () => pane.removeEventListener('wheel', onWheel);
+    }, [setTransform]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (transform.scale <= 1 || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin: transform };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const { origin } = drag;
+        setTransform(() => clampTransform(
+            { scale: origin.scale, x: origin.x + e.clientX - drag.startX, y: origin.y + e.clientY - drag.startY },
+            rect.width,
+            rect.height,
+        ));
+    };
+
+    const endDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+    };
+
+    const isZoomed = transform.scale > 1;
+    return (
+        <div
+            ref={paneRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onDoubleClick={() => setTransform(() => IDENTITY)}
+            // Leave vertical swipes to the page until there is something to pan.
+            style={{ touchAction: isZoomed ? 'none' : 'pan-y' }}
+            className={`relative aspect-square w-full rounded-2xl overflow-hidden shadow-lg bg-black/10 select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''} ${className}`}
+        >
+            {children}
+        </div>
+    );
+};
+
+const ZoomedImage: React.FC<{ src: string; alt: string; transform: ViewTransform; style?: Record<string, string | number> }> = ({ src, alt, transform, style }) => (
+    <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        style={{ ...transformStyle(transform), ...style }}
+        className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+    />
+);
+
+const ImageLabel: React.FC<{ children: React.ReactNode; className: string }> = ({ children, className }) => (
+    <div className={`absolute top-2 text-xs font-bold py-1 px-3 rounded-full pointer-events-none ${className}`}>{children}</div>
+);
+
+interface SplitDividerProps {
+    /** Share of the pane, 0–100, that shows the original photo. */
+    position: number;
+    onChange: (position: number) => void;
+}
+
+const SplitDivider: React.FC<SplitDividerProps> = ({ position, onChange }) => {
+    const { t } = useI18n();
+
+    const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+        const pane = e.currentTarget.parentElement;
+        if (!pane) return;
+        const rect = pane.getBoundingClientRect();
+        onChange(clamp((e.clientX - rect.left) / rect.width * 100, 0, 100));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const targets: Record<string, number> = {
+            ArrowLeft: position - DIVIDER_KEY_STEP,
+            ArrowRight: position + DIVIDER_KEY_STEP,
+            Home: 0,
+            End: 100,
+        };
+        const next = targets[e.key];
+        if (next === undefined) return;
+        e.preventDefault();
+        onChange(clamp(next, 0, 100));
+    };
+
+    return (
+        <div
+            role="slider"
+            tabIndex={0}
+            aria-label={t('viewer.divider')}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(position)}
+            onKeyDown={handleKeyDown}
+            // Stop the pane underneath from starting a pan.
+            onPointerDown={(e) => {
+                e.stopPropagation();
+                e.currentTarget.setPointerCapture(e.pointerId);
+                moveTo(e);
+            }}
+            onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e); }}
+            style={{ left: `${position}%`, touchAction: 'none' }}
+            className="absolute inset-y-0 w-8 -translate-x-1/2 cursor-ew-resize flex justify-center focus:outline-none group"
+        >
+            <div className="w-0.5 h-full bg-white shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg border-2 border-primary flex items-center justify-center text-primary text-xs font-bold group-focus-visible:ring-2 group-focus-visible:ring-primary">
+                ⇔
+            </div>
+        </div>
+    );
+};
+
+const morphErrorMessage = (code: MorphExportErrorCode, t: Translate): string => t(`viewer.export.error.${code}`);
+
+const morphFileName = (title: string, format: MorphFormat): string =>
+    `${title.replace(/[\\/:*?"<>|\s]+/g, '_')}_career_vision_morph.${format}`;
+
+/** Saves the original → career cross-fade as a GIF or WebM clip, encoded in the browser. */
+const MorphExportBar: React.FC<{ originalImage: string; result: GenerationResult }> = ({ originalImage, result }) => {
+    const { t } = useI18n();
+    const [exporting, setExporting] = useState<MorphFormat | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const canRecordWebm = isWebmExportSupported();
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleExport = async (format: MorphFormat) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setExporting(format);
+        setProgress(0);
+        setError(null);
+        try {
+            const blob = await createMorphAnimation(format, originalImage, result.image, { signal: controller.signal, onProgress: setProgress });
+            downloadBlob(blob, morphFileName(result.title, format));
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            console.warn('Morph animation export failed:', e);
+            setError(morphErrorMessage(e instanceof MorphExportError ? e.code : 'encode', t));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setExporting(null);
+            }
+        }
+    };
+
+    const buttonClass = 'bg-white/70 hover:bg-white border border-accent text-accent disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300';
+    return (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <span className="text-sm font-semibold text-text-main">{t('viewer.export.title')}</span>
+            {exporting ? (
+                <div className="flex items-center gap-3 flex-grow">
+                    <div className="flex-grow h-2 rounded-full bg-gray-200 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)}>
+                        <div className="h-full bg-accent transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                    </div>
+                    <span className="text-sm text-text-muted whitespace-nowrap">{t('viewer.export.progress', { percent: Math.round(progress * 100) })}</span>
+                    <button onClick={() => controllerRef.current?.abort()} className="text-sm font-semibold text-text-muted hover:text-text-main">
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => handleExport('gif')} className={buttonClass}>
+                        <DownloadIcon className="w-5 h-5" />
+                        {t('viewer.export.gif')}
+                    </button>
+                    <button
+                        onClick={() => handleExport('webm')}
+                        disabled={!canRecordWebm}
+                        title={canRecordWebm ? undefined : t('viewer.export.error.unsupported')}
+                        className={buttonClass}
+                    >
+                        <DownloadIcon className="w-5 h-5" />
+                        {t('viewer.export.webm')}
+                    </button>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+interface BeforeAfterViewerProps {
+    originalImage: string;
+    result: GenerationResult;
+}
+
+/**
+ * Compares the original photo with a generated image: a draggable split, an
+ * onion-skin overlay or two panes side by side, all sharing one zoom and pan.
+ */
+export const BeforeAfterViewer: React.FC<BeforeAfterViewerProps> = ({ originalImage, result }) => {
+    const { t } = useI18n();
+    const [mode, setMode] = useState<ViewerMode>('split');
+    const [split, setSplit] = useState(50);
+    const [opacity, setOpacity] = useState(50);
+    const [transform, setTransform] = useState<ViewTransform>(IDENTITY);
+
+    // A new result starts unzoomed; the chosen mode and slider positions carry over.
+    useEffect(() => {
+        setTransform(IDENTITY);
+    }, [originalImage, result.image]);
+
+    const originalLabel = <ImageLabel className="left-2 bg-black/50 text-white">{t('common.original')}</ImageLabel>;
+    const generatedLabel = (position: string) => <ImageLabel className={`${position} bg-primary text-white`}>{t('result.generated')}</ImageLabel>;
+    const zoomButtonClass = 'w-9 h-9 rounded-lg bg-white/70 hover:bg-white border border-gray-300 text-text-main font-bold disabled:opacity-40 disabled:cursor-not-allowed transition';
+
+    return (
+        <div className="bg-white/40 backdrop-blur-lg border border-white/50 p-4 rounded-xl shadow-md">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div role="radiogroup" aria-label={t('viewer.mode')} className="flex gap-1 bg-white/60 p-1 rounded-lg">
+                    {VIEWER_MODES.map(option => (
+                        <button
+                            key={option}
+                            role="radio"
+                            aria-checked={mode === option}
+                            onClick={() => setMode(option)}
+                            className={`py-1.5 px-3 rounded-md text-sm font-semibold transition ${mode === option ? 'bg-primary text-white shadow' : 'text-text-muted hover:text-text-main'}`}
+                        >
+                            {t(`viewer.mode.${option}`)}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setTransform(current => zoomCentered(current, 1 / ZOOM_STEP))} disabled={transform.scale <= MIN_SCALE} aria-label={t('viewer.zoomOut')} title={t('viewer.zoomOut')} className={zoomButtonClass}>−</button>
+                    <span className="w-12 text-center text-sm text-text-muted tabular-nums">{t('viewer.zoomLevel', { percent: Math.round(transform.scale * 100) })}</span>
+                    <button onClick={() => setTransform(current => zoomCentered(current, ZOOM_STEP))} disabled={transform.scale >= MAX_SCALE} aria-label={t('viewer.zoomIn')} title={t('viewer.zoomIn')} className={zoomButtonClass}>+</button>
+                    <button onClick={() => setTransform(() => IDENTITY)} disabled={transform.scale <= MIN_SCALE} aria-label={t('viewer.zoomReset')} title={t('viewer.zoomReset')} className={`${zoomButtonClass} flex items-center justify-center`}>
+                        <ResetIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+
+            {mode === 'side' ? (
+                <div className="grid grid-cols-2 gap-4">
+                    <ZoomPane transform={transform} setTransform={setTransform} className="border border-primary/20">
+                        <ZoomedImage src={originalImage} alt={t('common.originalAlt')} transform={transform} />
+                        {originalLabel}
+                    </ZoomPane>
+                    <ZoomPane transform={transform} setTransform={setTransform} className="border-2 border-primary">
+                        <ZoomedImage src={result.image} alt={result.title} transform={transform} />
+                        {generatedLabel('left-2')}
+                    </ZoomPane>
+                </div>
+            ) : (
+                <div className="max-w-2xl mx-auto">
+                    <ZoomPane transform={transform} setTransform={setTransform} className="border-2 border-primary">
+                        {mode === 'split' ? (
+                            <>
+                                <ZoomedImage src={result.image} alt={result.title} transform={transform} />
+                                {/* Clipped in pane coordinates, so the divider stays put while the images zoom. */}
+                                <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+                                    <ZoomedImage src={originalImage} alt={t('common.originalAlt')} transform={transform} />
+                                </div>
+                                {originalLabel}
+                                {generatedLabel('right-2')}
+                                <SplitDivider position={split} onChange={setSplit} />
+                            </>
+                        ) : (
+                            <>
+                                <ZoomedImage src={originalImage} alt={t('common.originalAlt')} transform={transform} />
+                                <ZoomedImage src={result.image} alt={result.title} transform={transform} style={{ opacity: opacity / 100 }} />
+                                {originalLabel}
+                                {generatedLabel('right-2')}
+                            </>
+                        )}
+                    </ZoomPane>
+                    {mode === 'onion' && (
+                        <label className="mt-3 flex items-center gap-3 text-sm text-text-muted">
+                            <span className="whitespace-nowrap">{t('viewer.opacity')}</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={opacity}
+                                onChange={(e) => setOpacity(Number(e.target.value))}
+                                className="flex-grow accent-primary"
+                            />
+                            <span className="w-10 text-right tabular-nums">{opacity}%</span>
+                        </label>
+                    )}
+                </div>
+            )}
+            <p className="mt-2 text-xs text-text-muted text-center">{t('viewer.zoomHint')}</p>
+
+            <MorphExportBar originalImage={originalImage} result={result} />
+        </div>
+    );
+};
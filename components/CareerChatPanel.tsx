@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMessage, ChatRole, GenerationResult } from '../types';
+import { streamCareerChat } from '../services/geminiService';
+import { CHAT_STARTER_IDS, MAX_CHAT_MESSAGE_LENGTH } from '../services/careerChat';
+import { toGenerationError, type GenerationError } from '../services/generationErrors';
+import { createId } from '../services/ids';
+import { MAX_CHAT_QUESTION_LENGTH, validateChatQuestion } from '../services/promptInput';
+import { checkInstructionPolicy, remainingChatQuestions } from '../services/kioskSettings';
+import { careerPolicyMessage, promptIssueMessage } from './CareerInput';
+import { GenerationErrorNotice } from './GenerationErrorNotice';
+import { useKiosk } from './KioskProvider';
+import { useI18n } from './I18nProvider';
+import { SparklesIcon } from './icons';
+
+const createMessage = (role: ChatRole, text: string): ChatMessage => ({ id: createId(), role, text, createdAt: Date.now() });
+
+const ChatBubble: React.FC<{ role: ChatRole; text: string; pending?: boolean }> = ({ role, text, pending }) => {
+    const { t } = useI18n();
+    const isUser = role === 'user';
+    return (
+        <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            <span className="text-xs text-text-muted mb-1">{isUser ? t('chat.you') : t('chat.counsellor')}</span>
+            <p className={`max-w-[85%] whitespace-pre-wrap break-words py-2 px-4 rounded-2xl ${isUser ? 'bg-primary text-white rounded-br-sm' : 'bg-white/80 text-text-main rounded-bl-sm'} ${pending ? 'animate-pulse' : ''}`}>
+                {text}
+            </p>
+        </div>
+    );
+};
+
+interface CareerChatPanelProps {
+    result: GenerationResult;
+    /** Transcript of this result, oldest first. */
+    messages: ChatMessage[];
+    /** Called with the whole transcript after each question and each finished answer. */
+    onMessagesChange: (messages: ChatMessage[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Follow-up questions about one result, answered by a streaming career
+ * counsellor that knows the career and the analysis shown above. Mount one
+ * per result (keyed by its id); unmounting stops an answer in progress.
+ */
+export const CareerChatPanel: React.FC<CareerChatPanelProps> = ({ result, messages, onMessagesChange, disabled }) => {
+    const { locale, t } = useI18n();
+    const { settings: kioskSettings, usage: kioskUsage, countChatQuestion } = useKiosk();
+    const [question, setQuestion] = useState('');
+    const [streamingText, setStreamingText] = useState<string | null>(null);
+    const [error, setError] = useState<GenerationError | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const logRef = useRef<HTMLDivElement>(null);
+    const mountedRef = useRef(true);
+
+    const isStreaming = streamingText !== null;
+    const questionsLeft = remainingChatQuestions(kioskUsage.chatQuestions, kioskSettings);
+    // Retrying a failed answer is still allowed at the cap, since that question was already counted.
+    const isInputDisabled = disabled || questionsLeft <= 0;
+    const questionIssue = validateChatQuestion(question);
+    const policyIssue = !questionIssue ? checkInstructionPolicy(question, kioskSettings) : null;
+
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+            abortRef.current?.abort();
+        };
+    }, []);
+
+    useEffect(() => {
+        const log = logRef.current;
+        if (log) log.scrollTop = log.scrollHeight;
+    }, [messages, streamingText, error]);
+
+    /** Answers the last message of `transcript`, which must be the user's question. */
+    const answer = async (transcript: ChatMessage[]) => {
+        const last = transcript[transcript.length - 1];
+        if (!last || last.role !== 'user') return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setStreamingText('');
+        setError(null);
+
+        let text = '';
+        try {
+            for await (const piece of streamCareerChat(result, transcript.slice(0, -1), last.text, { signal: controller.signal, locale })) {
+                text += piece;
+                setStreamingText(text);
+            }
+        } catch (e) {
+            const failure = toGenerationError(e);
+            // Stopping keeps what was written so far; any other failure drops the partial answer and offers a retry.
+            if (failure.kind !== 'cancelled') {
+                setError(failure);
+                text = '';
+            }
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+        }
+        // Another result was opened meanwhile; this transcript is no longer on screen.
+        if (!mountedRef.current) return;
+        setStreamingText(null);
+        if (text.trim()) {
+            onMessagesChange([...transcript, createMessage('model', text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH))]);
+        }
+    };
+
+    const ask = (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed || isStreaming || isInputDisabled || validateChatQuestion(trimmed) || checkInstructionPolicy(trimmed, kioskSettings)) return;
+        const transcript = [...messages, createMessage('user', trimmed)];
+        countChatQuestion();
+        onMessagesChange(transcript);
+        setQuestion('');
+        answer(transcript);
+    };
+
+    const canRetry = !isStreaming && messages.length > 0 && messages[messages.length - 1].role === 'user';
+
+    return (
+        <section className="bg-white/40 backdrop-blur-lg border border-white/50 p-6 rounded-xl shadow-md">
+            <h3 className="text-lg font-semibold text-primary">{t('chat.title', { career: result.title })}</h3>
+            <p className="mt-1 text-sm text-text-muted">{t('chat.subtitle')}</p>
+
+            {(messages.length > 0 || isStreaming) && (
+                <div ref={logRef} aria-live="polite" className="mt-4 max-h-96 overflow-y-auto flex flex-col gap-3 pr-1">
+                    {messages.map(message => <ChatBubble key={message.id} role={message.role} text={message.text} />)}
+                    {isStreaming && <ChatBubble role="model" text={streamingText || t('chat.writing')} pending={!streamingText} />}
+                </div>
+            )}
+
+            {messages.length === 0 && !isStreaming && (
+                <div className="mt-4">
+                    <p className="text-sm font-medium text-text-main mb-2">{t('chat.starters')}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {CHAT_STARTER_IDS.map(id => (
+                            <button
+                                key={id}
+                                onClick={() => ask(t(`chat.starter.${id}`))}
+                                disabled={isInputDisabled}
+                                className="bg-primary/10 hover:bg-primary/20 disabled:opacity-50 disabled:cursor-not-allowed text-primary-focus text-sm font-medium py-1.5 px-3 rounded-full transition"
+                            >
+                                {t(`chat.starter.${id}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {error && <GenerationErrorNotice error={error} onRetry={canRetry ? () => answer(messages) : undefined} />}
+
+            <form className="mt-4 flex gap-2" onSubmit={(e) => { e.preventDefault(); ask(question); }}>
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder={t('chat.placeholder')}
+                    aria-label={t('chat.placeholder')}
+                    aria-invalid={!!(questionIssue || policyIssue)}
+                    disabled={isInputDisabled}
+                    className={`flex-grow bg-white/80 border rounded-lg px-4 py-2 focus:ring-2 focus:outline-none transition text-text-main placeholder:text-text-muted ${questionIssue || policyIssue ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'}`}
+                />
+                {isStreaming ? (
+                    <button type="button" onClick={() => abortRef.current?.abort()} className="bg-gray-200 hover:bg-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg transition">
+                        {t('chat.stop')}
+                    </button>
+                ) : (
+                    <button type="submit" disabled={isInputDisabled || !question.trim() || !!questionIssue || !!policyIssue} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all duration-300">
+                        <SparklesIcon className="w-5 h-5" />
+                        <span>{t('chat.send')}</span>
+                    </button>
+                )}
+            </form>
+            {questionIssue && <p className="mt-1 text-sm text-red-600">{promptIssueMessage(questionIssue, MAX_CHAT_QUESTION_LENGTH, t)}</p>}
+            {policyIssue && <p className="mt-1 text-sm text-red-600">{careerPolicyMessage(policyIssue, t)}</p>}
+            {questionsLeft !== Infinity && (
+                <p role="status" className={`mt-1 text-sm ${questionsLeft > 0 ? 'text-text-muted' : 'text-red-600'}`}>
+                    {questionsLeft > 0
+                        ? t('kiosk.chatRemaining', { count: questionsLeft, max: kioskSettings.maxChatQuestionsPerSession })
+                        : t('kiosk.chatLimitReached', { max: kioskSettings.maxChatQuestionsPerSession })}
+                </p>
+            )}
+        </section>
+    );
+};
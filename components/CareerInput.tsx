@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { CAREER_CATEGORIES, careerName, closestCareer, findCareer, pickRandomCareers, searchCareers, type CareerCategory } from '../services/careerCatalog';
+import { checkCareerPolicy, type CareerPolicyIssue } from '../services/kioskSettings';
+import { MAX_CAREER_LENGTH, validateCareerInput, type PromptInputIssue } from '../services/promptInput';
+import { SparklesIcon } from './icons';
+import { useI18n, type Translate } from './I18nProvider';
+import { useKiosk } from './KioskProvider';
+
+export const categoryLabel = (category: CareerCategory, t: Translate): string => t(`career.category.${category}`);
+
+export const promptIssueMessage = (issue: PromptInputIssue, maxLength: number, t: Translate): string =>
+    t(`promptInput.${issue}`, { max: maxLength });
+
+export const careerPolicyMessage = (issue: CareerPolicyIssue, t: Translate): string => t(`kiosk.violation.${issue}`);
+
+interface CareerInputProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+    /** Enter without an open suggestion list. */
+    onSubmit?: () => void;
+    placeholder?: string;
+    disabled?: boolean;
+    /** Classes for the text field itself, so each form keeps its own sizing. */
+    inputClassName?: string;
+}
+
+/** Career text field with catalog autocomplete, typo hints and inline validation, including kiosk restrictions. */
+export const CareerInput: React.FC<CareerInputProps> = ({ id, value, onChange, onSubmit, placeholder, disabled, inputClassName = '' }) => {
+    const { locale, t } = useI18n();
+    const { settings, allowedCareerIds } = useKiosk();
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const listId = `${id}-suggestions`;
+    const messageId = `${id}-message`;
+
+    const suggestions = useMemo(() => searchCareers(value, locale, { allowedIds: allowedCareerIds }), [value, locale, allowedCareerIds]);
+    const inputIssue = validateCareerInput(value);
+    // An empty field is left to the form; the inline message only covers what was typed.
+    const policyIssue = !inputIssue && value.trim() ? checkCareerPolicy(value, settings) : null;
+    const issue = inputIssue ?? policyIssue;
+    const correction = !issue || policyIssue === 'notAllowed' ? closestCareer(value, allowedCareerIds) : undefined;
+    const exactMatch = findCareer(value);
+    // Nothing left to suggest once the field holds exactly the only match.
+    const showList = isOpen && suggestions.length > 0 && !(suggestions.length === 1 && exactMatch === suggestions[0] && careerName(exactMatch, locale) === value.trim());
+
+    const choose = (name: string) => {
+        onChange(name);
+        setIsOpen(false);
+        setActiveIndex(-1);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            if (!showList) {
+                setIsOpen(true);
+                return;
+            }
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            if (showList && activeIndex >= 0) {
+                e.preventDefault();
+                choose(careerName(suggestions[activeIndex], locale));
+            } else if (!issue) {
+                setIsOpen(false);
+                onSubmit?.();
+            }
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+            setActiveIndex(-1);
+        }
+    };
+
+    return (
+        <div className="relative flex-grow">
+            <input
+                id={id}
+                type="text"
+                role="combobox"
+                autoComplete="off"
+                aria-autocomplete="list"
+                aria-expanded={showList}
+                aria-controls={listId}
+                aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+                aria-invalid={!!issue}
+                aria-describedby={issue || correction ? messageId : undefined}
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setIsOpen(true);
+                    setActiveIndex(-1);
+                }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                disabled={disabled}
+                className={`w-full bg-white/80 border rounded-lg focus:ring-2 focus:outline-none transition text-text-main placeholder:text-text-muted ${issue ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'} ${inputClassName}`}
+            />
+            {showList && (
+                <ul id={listId} role="listbox" aria-label={t('careerInput.suggestions')} className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+                    {suggestions.map((entry, i) => (
+                        <li
+                            key={entry.id}
+                            id={`${listId}-${i}`}
+                            role="option"
+                            aria-selected={i === activeIndex}
+                            // Keep focus in the input so the list does not close before the click lands.
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => choose(careerName(entry, locale))}
+                            className={`flex justify-between gap-2 px-4 py-2 cursor-pointer ${i === activeIndex ? 'bg-primary/10' : 'hover:bg-gray-50'}`}
+                        >
+                            <span className="text-text-main">{careerName(entry, locale)}</span>
+                            <span className="text-xs text-text-muted self-center">{categoryLabel(entry.category, t)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {inputIssue && <p id={messageId} className="mt-1 text-sm text-red-600">{promptIssueMessage(inputIssue, MAX_CAREER_LENGTH, t)}</p>}
+            {policyIssue && <p id={correction ? undefined : messageId} className="mt-1 text-sm text-red-600">{careerPolicyMessage(policyIssue, t)}</p>}
+            {correction && (
+                <button id={messageId} type="button" onClick={() => choose(careerName(correction, locale))} disabled={disabled} className="mt-1 text-sm text-primary hover:text-primary-focus underline">
+                    {t('careerInput.didYouMean', { career: careerName(correction, locale) })}
+                </button>
+            )}
+        </div>
+    );
+};
+
+interface CareerSurprisePickerProps {
+    onPick: (career: string) => void;
+    /** Careers to avoid, e.g. the ones already in a comparison list. */
+    exclude?: readonly string[];
+    disabled?: boolean;
+}
+
+/** "Surprise me" with an optional field filter; picks a random catalog career. */
+export const CareerSurprisePicker: React.FC<CareerSurprisePickerProps> = ({ onPick, exclude, disabled }) => {
+    const { locale, t } = useI18n();
+    const { settings, allowedCareerIds } = useKiosk();
+    const [category, setCategory] = useState<CareerCategory | ''>('');
+
+    const handlePick = () => {
+        const [entry] = pickRandomCareers(1, {
+            category: category || undefined,
+            exclude,
+            allowedIds: allowedCareerIds,
+            accept: candidate => !checkCareerPolicy(careerName(candidate, locale), settings),
+        });
+        if (entry) onPick(careerName(entry, locale));
+    };
+
+    return (
+        <div className="flex gap-2 items-center">
+            <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as CareerCategory | '')}
+                aria-label={t('careerInput.surpriseCategory')}
+                disabled={disabled}
+                className="bg-white/80 border border-gray-300 rounded-lg px-3 py-2 text-sm text-text-main focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+                <option value="">{t('careerInput.anyCategory')}</option>
+                {CAREER_CATEGORIES.map(option => <option key={option} value={option}>{categoryLabel(option, t)}</option>)}
+            </select>
+            <button type="button" onClick={handlePick} disabled={disabled} className="bg-white/70 hover:bg-white border border-primary/40 text-primary font-semibold py-2 px-3 rounded-lg flex items-center gap-1 text-sm transition disabled:opacity-50 disabled:cursor-not-allowed">
+                <SparklesIcon className="w-4 h-4" />
+                {t('careerInput.surprise')}
+            </button>
+        </div>
+    );
+};
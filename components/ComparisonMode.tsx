@@ -0,0 +1,270 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { generateImageAndAnalysis } from '../services/geminiService';
+import { createLimiter } from '../services/concurrency';
+import type { ComparisonTile, GenerationResult, SourceImage } from '../types';
+import { RedoIcon, ResetIcon, SparklesIcon, StarIcon, XMarkIcon } from './icons';
+import { generationErrorMessage } from './GenerationErrorNotice';
+import { useI18n } from './I18nProvider';
+import { CareerInput } from './CareerInput';
+import { useKiosk } from './KioskProvider';
+import { GenerationStyleBadge, PromptStylePicker } from './PromptTemplateControls';
+import { usePromptTemplates } from './PromptTemplateProvider';
+import { careerName, pickRandomCareers } from '../services/careerCatalog';
+import { checkCareerPolicy } from '../services/kioskSettings';
+import { validateCareerInput } from '../services/promptInput';
+
+export const MIN_COMPARISON_CAREERS = 3;
+export const MAX_COMPARISON_CAREERS = 6;
+/** How many generations run at once; the rest wait their turn. */
+export const COMPARISON_CONCURRENCY = 2;
+
+let tileSequence = 0;
+const createTile = (career: string): ComparisonTile => ({
+    id: `tile-${++tileSequence}`,
+    career,
+    status: 'queued',
+    favourite: false,
+});
+
+interface CareerListEditorProps {
+    careers: string[];
+    onChange: (careers: string[]) => void;
+    onStart: () => void;
+    disabled: boolean;
+    /** Kiosk cap on generations left in this kiosk session; Infinity when uncapped. */
+    generationsLeft: number;
+}
+const CareerListEditor: React.FC<CareerListEditorProps> = ({ careers, onChange, onStart, disabled, generationsLeft }) => {
+    const { locale, t } = useI18n();
+    const { settings, allowedCareerIds } = useKiosk();
+    const [draft, setDraft] = useState('');
+    const isFull = careers.length >= MAX_COMPARISON_CAREERS;
+    const isOverLimit = careers.length > generationsLeft;
+
+    const addCareer = () => {
+        const career = draft.trim();
+        if (!career || isFull || careers.includes(career) || validateCareerInput(career) || checkCareerPolicy(career, settings)) return;
+        onChange([...careers, career]);
+        setDraft('');
+    };
+
+    const handleSuggest = () => {
+        const missing = Math.max(MIN_COMPARISON_CAREERS + 1 - careers.length, 1);
+        const picked = pickRandomCareers(Math.min(missing, MAX_COMPARISON_CAREERS - careers.length), {
+            exclude: careers,
+            allowedIds: allowedCareerIds,
+            // Suggestions must pass the same kiosk checks as typed careers, blocklist included.
+            accept: entry => !checkCareerPolicy(careerName(entry, locale), settings),
+        });
+        onChange([...careers, ...picked.map(entry => careerName(entry, locale))]);
+    };
+
+    return (
+        <div className="w-full p-6 bg-white/40 backdrop-blur-lg border border-white/50 rounded-xl shadow-md">
+            <label htmlFor="compare-input" className="block text-lg font-medium mb-2 text-primary">
+                {t('compare.listLabel', { min: MIN_COMPARISON_CAREERS, max: MAX_COMPARISON_CAREERS })}
+            </label>
+            <ul className="flex flex-wrap gap-2 mb-3">
+                {careers.map(career => (
+                    <li key={career} className="flex items-center gap-1 bg-primary/10 text-primary-focus text-sm font-medium py-1 pl-3 pr-2 rounded-full">
+                        {career}
+                        <button onClick={() => onChange(careers.filter(c => c !== career))} aria-label={t('compare.remove', { career })} className="hover:text-red-500">
+                            <XMarkIcon className="w-4 h-4" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+                <CareerInput
+                    id="compare-input"
+                    value={draft}
+                    onChange={setDraft}
+                    onSubmit={addCareer}
+                    placeholder={isFull ? t('compare.full') : t('compare.inputPlaceholder')}
+                    inputClassName="px-4 py-3"
+                    disabled={isFull}
+                />
+                <button onClick={handleSuggest} disabled={isFull} className="bg-accent hover:bg-pink-500 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-all duration-300">
+                    <SparklesIcon className="w-5 h-5" />
+                    {t('compare.suggest')}
+                </button>
+            </div>
+            <div className="mt-4">
+                <PromptStylePicker career={draft || careers[0] || ''} disabled={disabled} />
+            </div>
+            <button
+                onClick={onStart}
+                disabled={disabled || careers.length < MIN_COMPARISON_CAREERS || isOverLimit}
+                className="mt-4 w-full bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 text-lg"
+            >
+                {t('compare.generateAll', { count: careers.length })}
+            </button>
+            {isOverLimit && <p className="mt-2 text-sm text-red-600">{t('kiosk.compareOverLimit', { count: generationsLeft })}</p>}
+        </div>
+    );
+};
+
+interface ComparisonTileCardProps {
+    tile: ComparisonTile;
+    /** False when the kiosk cap has no generation left for a retry. */
+    canRetry: boolean;
+    onRetry: (id: string) => void;
+    onToggleFavourite: (id: string) => void;
+}
+const ComparisonTileCard: React.FC<ComparisonTileCardProps> = ({ tile, canRetry, onRetry, onToggleFavourite }) => {
+    const { t } = useI18n();
+    return (
+        <div className={`flex flex-col bg-white/40 backdrop-blur-lg border rounded-xl shadow-md overflow-hidden ${tile.favourite ? 'border-accent border-2' : 'border-white/50'}`}>
+            <div className="relative aspect-square w-full bg-black/10 flex items-center justify-center">
+                {tile.status === 'success' && tile.result && (
+                    <img src={tile.result.image} alt={tile.result.title} className="w-full h-full object-contain" />
+                )}
+                {(tile.status === 'queued' || tile.status === 'loading') && (
+                    <div className="flex flex-col items-center gap-2 text-text-muted">
+                        <div className={`w-10 h-10 border-4 border-primary border-t-transparent rounded-full ${tile.status === 'loading' ? 'animate-spin' : 'opacity-40'}`}></div>
+                        <span className="text-sm">{tile.status === 'loading' ? t('compare.loading') : t('compare.waiting')}</span>
+                    </div>
+                )}
+                {tile.status === 'error' && (
+                    <div className="flex flex-col items-center gap-2 p-4 text-center">
+                        <p className="text-sm text-red-700">{tile.error}</p>
+                        <button onClick={() => onRetry(tile.id)} disabled={!canRetry} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white text-sm font-semibold py-1 px-3 rounded-lg flex items-center gap-1 transition">
+                            <RedoIcon className="w-4 h-4" />
+                            {t('common.retry')}
+                        </button>
+                    </div>
+                )}
+                {tile.status === 'success' && (
+                    <button
+                        onClick={() => onToggleFavourite(tile.id)}
+                        aria-label={tile.favourite ? t('compare.unfavourite') : t('compare.favourite')}
+                        aria-pressed={tile.favourite}
+                        className="absolute top-2 right-2 bg-white/80 rounded-full p-1 text-accent hover:scale-110 transition"
+                    >
+                        <StarIcon className="w-6 h-6" filled={tile.favourite} />
+                    </button>
+                )}
+            </div>
+            <div className="p-4">
+                <h3 className="text-lg font-bold text-text-main">{tile.result?.title ?? tile.career}</h3>
+                {tile.result && <GenerationStyleBadge result={tile.result} />}
+                {tile.result && <p className="mt-1 text-sm text-text-muted line-clamp-3">{tile.result.description}</p>}
+            </div>
+        </div>
+    );
+};
+
+interface ComparisonModeProps {
+    originalImage: SourceImage;
+    disabled: boolean;
+    /** Kiosk cap on generations left in this kiosk session; Infinity when uncapped. */
+    generationsLeft?: number;
+    onReset: () => void;
+    onResult?: (career: string, result: GenerationResult) => void;
+}
+
+/** Generates several careers from one photo and shows them side by side. */
+export const ComparisonMode: React.FC<ComparisonModeProps> = ({ originalImage, disabled, generationsLeft = Infinity, onReset, onResult }) => {
+    const { locale, t } = useI18n();
+    const { template, styleId } = usePromptTemplates();
+    const [careers, setCareers] = useState<string[]>([]);
+    const [tiles, setTiles] = useState<ComparisonTile[]>([]);
+    const [favouritesOnly, setFavouritesOnly] = useState(false);
+    const limiterRef = useRef(createLimiter(COMPARISON_CONCURRENCY));
+    const abortRef = useRef(new AbortController());
+
+    // Leaving comparison mode stops any generations still in flight. The controller is
+    // created in the effect so StrictMode's mount/unmount/mount cycle leaves a live one.
+    useEffect(() => {
+        abortRef.current = new AbortController();
+        return () => abortRef.current.abort();
+    }, []);
+
+    const updateTile = useCallback((id: string, patch: Partial<ComparisonTile>) => {
+        setTiles(current => current.map(tile => tile.id === id ? { ...tile, ...patch } : tile));
+    }, []);
+
+    const runTile = useCallback((tile: ComparisonTile) => {
+        updateTile(tile.id, { status: 'queued', error: undefined });
+        limiterRef.current(async () => {
+            updateTile(tile.id, { status: 'loading' });
+            try {
+                const result = await generateImageAndAnalysis(originalImage.base64, originalImage.mimeType, tile.career, { signal: abortRef.current.signal, locale, template, style: styleId });
+                updateTile(tile.id, { status: 'success', result });
+                onResult?.(tile.career, result);
+            } catch (e) {
+                updateTile(tile.id, { status: 'error', error: generationErrorMessage(e, t) });
+            }
+        });
+    }, [originalImage, updateTile, onResult, template, styleId, locale, t]);
+
+    const handleStart = useCallback(() => {
+        if (careers.length > generationsLeft) return;
+        const newTiles = careers.map(createTile);
+        setTiles(newTiles);
+        newTiles.forEach(runTile);
+    }, [careers, generationsLeft, runTile]);
+
+    // Queued and running tiles are only counted once they succeed, so they hold a slot of the kiosk cap until then.
+    const inFlight = tiles.filter(tile => tile.status === 'queued' || tile.status === 'loading').length;
+    const canRetry = generationsLeft - inFlight > 0;
+
+    const handleRetry = useCallback((id: string) => {
+        const tile = tiles.find(t => t.id === id);
+        if (tile && tile.status === 'error' && canRetry) runTile(tile);
+    }, [tiles, canRetry, runTile]);
+
+    const handleToggleFavourite = useCallback((id: string) => {
+        setTiles(current => current.map(tile => tile.id === id ? { ...tile, favourite: !tile.favourite } : tile));
+    }, []);
+
+    const isRunning = inFlight > 0;
+    const favouriteCount = tiles.filter(tile => tile.favourite).length;
+    const visibleTiles = useMemo(
+        () => favouritesOnly ? tiles.filter(tile => tile.favourite) : tiles,
+        [tiles, favouritesOnly],
+    );
+
+    if (tiles.length === 0) {
+        return (
+            <div className="w-full max-w-2xl flex flex-col items-center gap-6">
+                <div className="w-full max-w-lg p-2 bg-black/10 rounded-2xl shadow-xl border-2 border-primary/20">
+                    <img src={originalImage.base64} alt={t('common.uploadedPreviewAlt')} className="w-full h-full max-h-[40vh] object-contain rounded-xl" />
+                </div>
+                <CareerListEditor careers={careers} onChange={setCareers} onStart={handleStart} disabled={disabled} generationsLeft={generationsLeft} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-4 gap-8 items-start">
+            <div className="flex flex-col gap-4 lg:sticky lg:top-4">
+                <div className="relative aspect-square w-full rounded-2xl overflow-hidden shadow-lg border border-primary/20 bg-black/10">
+                    <img src={originalImage.base64} alt={t('common.originalAlt')} className="w-full h-full object-contain"/>
+                    <div className="absolute top-2 left-2 bg-black/50 text-white text-xs font-bold py-1 px-3 rounded-full">{t('common.original')}</div>
+                </div>
+                <button
+                    onClick={() => setFavouritesOnly(value => !value)}
+                    disabled={favouriteCount === 0 && !favouritesOnly}
+                    className="w-full bg-white/60 hover:bg-white/80 disabled:opacity-50 disabled:cursor-not-allowed text-text-main font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition"
+                >
+                    <StarIcon className="w-5 h-5 text-accent" filled={favouritesOnly} />
+                    {favouritesOnly ? t('compare.showAll') : t('compare.favouritesOnly', { count: favouriteCount })}
+                </button>
+                <button onClick={() => setTiles([])} disabled={isRunning} className="w-full bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                    <RedoIcon className="w-5 h-5" />
+                    {t('compare.editList')}
+                </button>
+                <button onClick={onReset} className="w-full bg-gray-200 hover:bg-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                    <ResetIcon className="w-5 h-5"/>
+                    {t('common.uploadNewImage')}
+                </button>
+            </div>
+            <div className="lg:col-span-3 grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+                {visibleTiles.map(tile => (
+                    <ComparisonTileCard key={tile.id} tile={tile} canRetry={canRetry} onRetry={handleRetry} onToggleFavourite={handleToggleFavourite} />
+                ))}
+            </div>
+        </div>
+    );
+};
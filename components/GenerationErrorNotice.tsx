@@ -0,0 +1,54 @@
+import React from 'react';
+import { toGenerationError, type GenerationErrorKind } from '../services/generationErrors';
+import { RedoIcon } from './icons';
+import { useI18n, type Translate } from './I18nProvider';
+
+interface ErrorCopy {
+    title: string;
+    message: string;
+    /** Whether trying the same request again can help. */
+    canRetry: boolean;
+}
+
+const RETRYABLE: Record<GenerationErrorKind, boolean> = {
+    blocked: false,
+    safety: false,
+    incomplete: true,
+    format: true,
+    network: true,
+    timeout: true,
+    quota: true,
+    cancelled: true,
+    unknown: true,
+};
+
+/** Localized copy for any error thrown by the generation service. */
+export const describeGenerationError = (error: unknown, t: Translate): ErrorCopy => {
+    const { kind } = toGenerationError(error);
+    return { title: t(`error.${kind}.title`), message: t(`error.${kind}.message`), canRetry: RETRYABLE[kind] };
+};
+
+/** One-line message for compact places such as gallery tiles and batch rows. */
+export const generationErrorMessage = (error: unknown, t: Translate): string => {
+    const { title, message } = describeGenerationError(error, t);
+    return `${title}. ${message}`;
+};
+
+export const GenerationErrorNotice: React.FC<{ error: unknown; onRetry?: () => void }> = ({ error, onRetry }) => {
+    const { t } = useI18n();
+    const { title, message, canRetry } = describeGenerationError(error, t);
+    return (
+        <div role="alert" className="mt-6 w-full max-w-2xl bg-red-100 border border-red-400 text-red-700 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-grow">
+                <p className="font-semibold">{title}</p>
+                <p className="text-sm">{message}</p>
+            </div>
+            {canRetry && onRetry && (
+                <button onClick={onRetry} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                    <RedoIcon className="w-5 h-5" />
+                    {t('common.retry')}
+                </button>
+            )}
+        </div>
+    );
+};
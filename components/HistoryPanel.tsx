@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    clearSessions,
+    deleteSession,
+    getStorageUsage,
+    listSessions,
+    loadSession,
+    renameSession,
+    type StorageUsage,
+} from '../services/historyStore';
+import type { SessionSummary, StoredSession } from '../types';
+import { PencilIcon, TrashIcon, XMarkIcon } from './icons';
+import { useI18n } from './I18nProvider';
+import type { Locale } from '../services/i18n';
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const formatDate = (timestamp: number, locale: Locale): string => new Date(timestamp).toLocaleString(locale);
+
+const StorageIndicator: React.FC<{ usage: StorageUsage | null }> = ({ usage }) => {
+    const { t } = useI18n();
+    if (!usage) {
+        return <p className="text-xs text-text-muted">{t('history.storageUnavailable')}</p>;
+    }
+    const ratio = Math.min(usage.usage / usage.quota, 1);
+    return (
+        <div>
+            <div className="flex justify-between text-xs text-text-muted mb-1">
+                <span>{t('history.storage')}</span>
+                <span>{formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden" role="progressbar" aria-valuenow={Math.round(ratio * 100)} aria-valuemin={0} aria-valuemax={100}>
+                <div className={`h-full ${ratio > 0.8 ? 'bg-red-400' : 'bg-primary'}`} style={{ width: `${ratio * 100}%` }}></div>
+            </div>
+        </div>
+    );
+};
+
+const SessionCompareView: React.FC<{ sessions: StoredSession[]; onClose: () => void }> = ({ sessions, onClose }) => {
+    const { t } = useI18n();
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-6xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-bold text-text-main">{t('history.compareTitle')}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {sessions.map(session => (
+                        <div key={session.id} className="flex flex-col gap-3">
+                            <h3 className="text-lg font-semibold text-primary">{session.name}</h3>
+                            <img src={session.originalImage.base64} alt={t('common.originalAlt')} className="w-full max-h-64 object-contain rounded-xl bg-black/10" />
+                            <div className="grid grid-cols-2 gap-3">
+                                {session.generations.map(generation => (
+                                    <figure key={generation.id} className="bg-gray-50 rounded-xl overflow-hidden">
+                                        <img src={generation.result.image} alt={generation.result.title} className="w-full aspect-square object-contain bg-black/10" />
+                                        <figcaption className="p-2 text-sm font-semibold text-text-main">{generation.result.title}</figcaption>
+                                    </figure>
+                                ))}
+                                {session.generations.length === 0 && <p className="text-sm text-text-muted">{t('history.noGenerations')}</p>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface SessionRowProps {
+    session: SessionSummary;
+    isCurrent: boolean;
+    selected: boolean;
+    onToggleSelect: (id: string) => void;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}
+const SessionRow: React.FC<SessionRowProps> = ({ session, isCurrent, selected, onToggleSelect, onOpen, onRename, onDelete }) => {
+    const { locale, t } = useI18n();
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(session.name);
+
+    const commitRename = () => {
+        setIsEditing(false);
+        if (name.trim() && name !== session.name) onRename(session.id, name);
+        else setName(session.name);
+    };
+
+    return (
+        <li className={`flex gap-3 p-3 rounded-xl border ${isCurrent ? 'border-primary bg-primary/5' : 'border-gray-200 bg-white/70'}`}>
+            <input type="checkbox" checked={selected} onChange={() => onToggleSelect(session.id)} aria-label={t('history.select', { name: session.name })} className="self-center accent-primary" />
+            <button onClick={() => onOpen(session.id)} className="shrink-0" aria-label={t('history.open', { name: session.name })}>
+                <img src={session.thumbnail} alt="" className="w-16 h-16 object-cover rounded-lg bg-black/10" />
+            </button>
+            <div className="flex-grow min-w-0">
+                {isEditing ? (
+                    <input
+                        autoFocus
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') { setName(session.name); setIsEditing(false); } }}
+                        className="w-full bg-white border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-primary focus:outline-none"
+                    />
+                ) : (
+                    <button onClick={() => onOpen(session.id)} className="block w-full text-left font-semibold text-text-main truncate hover:text-primary">{session.name}</button>
+                )}
+                <p className="text-xs text-text-muted truncate">
+                    {session.lastTitle ? `${session.lastTitle} · ` : ''}{t('history.generationCount', { count: session.generationCount })} · {formatBytes(session.approxBytes)}
+                </p>
+                <p className="text-xs text-text-muted">{formatDate(session.updatedAt, locale)}</p>
+            </div>
+            <div className="flex flex-col gap-1">
+                <button onClick={() => setIsEditing(true)} aria-label={t('history.rename')} className="text-text-muted hover:text-primary"><PencilIcon className="w-5 h-5" /></button>
+                <button onClick={() => onDelete(session.id)} aria-label={t('history.delete')} className="text-text-muted hover:text-red-500"><TrashIcon className="w-5 h-5" /></button>
+            </div>
+        </li>
+    );
+};
+
+interface HistoryPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    currentSessionId: string | null;
+    onOpenSession: (session: StoredSession) => void;
+    /** Called after the current session was deleted, so the app can drop its reference. */
+    onCurrentSessionDeleted: () => void;
+    /** Bumped by the app whenever it saves, so the list reloads. */
+    refreshKey: number;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, currentSessionId, onOpenSession, onCurrentSessionDeleted, refreshKey }) => {
+    const { t } = useI18n();
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [comparing, setComparing] = useState<StoredSession[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            const [list, storage] = await Promise.all([listSessions(), getStorageUsage()]);
+            setSessions(list);
+            setUsage(storage);
+            setSelectedIds(ids => ids.filter(id => list.some(s => s.id === id)));
+            setError(null);
+        } catch (e) {
+            console.error('Failed to load history:', e);
+            setError(t('history.loadFailed'));
+        }
+    }, [t]);
+
+    useEffect(() => {
+        if (isOpen) reload();
+    }, [isOpen, refreshKey, reload]);
+
+    // Storage can fail at any step (quota, a blocked database, an aborted transaction); report it instead of leaving the click silent.
+    const reportActionFailure = useCallback((action: string, e: unknown) => {
+        console.warn(`Failed to ${action}:`, e);
+        setError(t('history.actionFailed'));
+    }, [t]);
+
+    const handleOpen = useCallback(async (id: string) => {
+        try {
+            const session = await loadSession(id);
+            if (session) {
+                onOpenSession(session);
+                onClose();
+            }
+        } catch (e) {
+            reportActionFailure('open session', e);
+        }
+    }, [onOpenSession, onClose, reportActionFailure]);
+
+    const handleRename = useCallback(async (id: string, name: string) => {
+        try {
+            await renameSession(id, name);
+            reload();
+        } catch (e) {
+            reportActionFailure('rename session', e);
+        }
+    }, [reload, reportActionFailure]);
+
+    const handleDelete = useCallback(async (ids: string[]) => {
+        try {
+            await Promise.all(ids.map(deleteSession));
+            if (currentSessionId && ids.includes(currentSessionId)) onCurrentSessionDeleted();
+            reload();
+        } catch (e) {
+            reportActionFailure('delete sessions', e);
+        }
+    }, [currentSessionId, onCurrentSessionDeleted, reload, reportActionFailure]);
+
+    const handleClearAll = useCallback(async () => {
+        if (!window.confirm(t('history.confirmClear'))) return;
+        try {
+            await clearSessions();
+            if (currentSessionId) onCurrentSessionDeleted();
+            reload();
+        } catch (e) {
+            reportActionFailure('clear history', e);
+        }
+    }, [currentSessionId, onCurrentSessionDeleted, reload, reportActionFailure, t]);
+
+    const handleCompare = useCallback(async () => {
+        try {
+            const loaded = await Promise.all(selectedIds.map(loadSession));
+            setComparing(loaded.filter((s): s is StoredSession => s !== null));
+        } catch (e) {
+            reportActionFailure('load sessions for comparison', e);
+        }
+    }, [selectedIds, reportActionFailure]);
+
+    const toggleSelect = useCallback((id: string) => {
+        setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+    }, []);
+
+    if (!isOpen) return null;
+
+    return (
+        <>
+            <div className="fixed inset-0 z-40 bg-black/20" onClick={onClose}></div>
+            <aside className="fixed top-0 right-0 z-40 h-full w-full max-w-md bg-white/90 backdrop-blur-lg shadow-2xl flex flex-col" aria-label={t('history.title')}>
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <h2 className="text-xl font-bold text-text-main">{t('history.title')}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-4 border-b border-gray-200 flex flex-col gap-3">
+                    <StorageIndicator usage={usage} />
+                    <div className="flex gap-2">
+                        <button onClick={handleCompare} disabled={selectedIds.length !== 2} className="flex-1 bg-primary hover:bg-primary-focus disabled:bg-gray-300 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 px-3 rounded-lg transition">
+                            {t('history.compareSelected', { count: selectedIds.length })}
+                        </button>
+                        <button onClick={() => handleDelete(selectedIds)} disabled={selectedIds.length === 0} className="flex-1 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed text-text-main text-sm font-semibold py-2 px-3 rounded-lg transition">
+                            {t('history.deleteSelected')}
+                        </button>
+                        <button onClick={handleClearAll} disabled={sessions.length === 0} className="flex-1 bg-red-100 hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed text-red-700 text-sm font-semibold py-2 px-3 rounded-lg transition">
+                            {t('history.clearAll')}
+                        </button>
+                    </div>
+                    {error && <p className="text-sm text-red-700">{error}</p>}
+                </div>
+                <ul className="flex-grow overflow-y-auto p-4 flex flex-col gap-3">
+                    {sessions.map(session => (
+                        <SessionRow
+                            key={session.id}
+                            session={session}
+                            isCurrent={session.id === currentSessionId}
+                            selected={selectedIds.includes(session.id)}
+                            onToggleSelect={toggleSelect}
+                            onOpen={handleOpen}
+                            onRename={handleRename}
+                            onDelete={(id) => handleDelete([id])}
+                        />
+                    ))}
+                    {sessions.length === 0 && !error && (
+                        <p className="text-center text-text-muted mt-8">{t('history.empty')}</p>
+                    )}
+                </ul>
+                <p className="p-4 text-xs text-text-muted border-t border-gray-200">
+                    {t('history.footnote')}
+                </p>
+            </aside>
+            {comparing && <SessionCompareView sessions={comparing} onClose={() => setComparing(null)} />}
+        </>
+    );
+};
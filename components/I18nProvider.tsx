@@ -0,0 +1,43 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { interpolate, loadLocale, saveLocale, type Locale, type MessageParams } from '../services/i18n';
+import { MESSAGES, type MessageKey } from '../locales';
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+        document.title = `${MESSAGES[locale]['app.title']} AI`;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        saveLocale(next);
+        setLocaleState(next);
+    }, []);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale,
+        t: (key, params) => interpolate(MESSAGES[locale][key], params),
+    }), [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error('useI18n must be used inside an I18nProvider.');
+    }
+    return context;
+};
@@ -0,0 +1,123 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { centeredSquareCrop, type CropRect, type PreparedImage } from '../services/imagePreprocess';
+import { useI18n } from './I18nProvider';
+
+/** Smallest crop, as a share of the image's shorter side. */
+const MIN_CROP_RATIO = 0.3;
+
+interface ImageCropperProps {
+    prepared: PreparedImage;
+    previewUrl: string;
+    onConfirm: (crop: CropRect | null) => void;
+    onCancel: () => void;
+}
+
+/** Lets the user drag and resize a square crop before the photo is sent to the model. */
+export const ImageCropper: React.FC<ImageCropperProps> = ({ prepared, previewUrl, onConfirm, onCancel }) => {
+    const { t } = useI18n();
+    const [crop, setCrop] = useState<CropRect>(() => centeredSquareCrop(prepared));
+    const imageRef = useRef<HTMLImageElement>(null);
+    const dragRef = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+    const shortSide = Math.min(prepared.width, prepared.height);
+
+    const clamp = useCallback((next: CropRect): CropRect => ({
+        size: next.size,
+        x: Math.max(0, Math.min(next.x, prepared.width - next.size)),
+        y: Math.max(0, Math.min(next.y, prepared.height - next.size)),
+    }), [prepared]);
+
+    // Displayed pixels per source pixel.
+    const displayScale = () => (imageRef.current?.clientWidth ?? prepared.width) / prepared.width;
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const scale = displayScale();
+        setCrop(clamp({
+            size: drag.crop.size,
+            x: drag.crop.x + (e.clientX - drag.pointerX) / scale,
+            y: drag.crop.y + (e.clientY - drag.pointerY) / scale,
+        }));
+    };
+
+    const handlePointerUp = () => { dragRef.current = null; };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = shortSide * 0.02;
+        const moves: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0],
+            ArrowRight: [step, 0],
+            ArrowUp: [0, -step],
+            ArrowDown: [0, step],
+        };
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        setCrop(current => clamp({ size: current.size, x: current.x + move[0], y: current.y + move[1] }));
+    };
+
+    const handleSizeChange = (ratio: number) => {
+        const size = shortSide * ratio;
+        const centerX = crop.x + crop.size / 2;
+        const centerY = crop.y + crop.size / 2;
+        setCrop(clamp({ size, x: centerX - size / 2, y: centerY - size / 2 }));
+    };
+
+    const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+    return (
+        <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-4 p-6 bg-white/40 backdrop-blur-lg border border-white/50 rounded-2xl shadow-lg">
+            <h2 className="text-xl font-semibold text-text-main">{t('cropper.title')}</h2>
+            <p className="text-sm text-text-muted text-center">{t('cropper.hint')}</p>
+            <div className="relative select-none touch-none max-w-full">
+                <img ref={imageRef} src={previewUrl} alt={t('cropper.previewAlt')} className="block max-h-[55vh] max-w-full rounded-lg" draggable={false} />
+                <div
+                    role="slider"
+                    aria-label={t('cropper.area')}
+                    aria-valuetext={`${Math.round(crop.x)}, ${Math.round(crop.y)}`}
+                    tabIndex={0}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onKeyDown={handleKeyDown}
+                    className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] rounded-sm"
+                    style={{
+                        left: toPercent(crop.x, prepared.width),
+                        top: toPercent(crop.y, prepared.height),
+                        width: toPercent(crop.size, prepared.width),
+                        height: toPercent(crop.size, prepared.height),
+                    }}
+                ></div>
+            </div>
+            <label className="w-full flex items-center gap-3 text-sm text-text-muted">
+                {t('cropper.size')}
+                <input
+                    type="range"
+                    min={MIN_CROP_RATIO}
+                    max={1}
+                    step={0.01}
+                    value={crop.size / shortSide}
+                    onChange={(e) => handleSizeChange(Number(e.target.value))}
+                    className="flex-grow accent-primary"
+                />
+            </label>
+            <div className="w-full flex flex-col sm:flex-row gap-2">
+                <button onClick={() => onConfirm(crop)} className="flex-1 bg-primary hover:bg-primary-focus text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105">
+                    {t('cropper.useArea')}
+                </button>
+                <button onClick={() => onConfirm(null)} className="flex-1 bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-3 px-6 rounded-lg transition">
+                    {t('cropper.useWhole')}
+                </button>
+            </div>
+            <button onClick={onCancel} className="text-text-muted hover:text-text-main transition underline">
+                {t('cropper.chooseOther')}
+            </button>
+        </div>
+    );
+};
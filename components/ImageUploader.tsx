@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { imageFromClipboard, MAX_UPLOAD_BYTES, validateImageFile } from '../services/imageFiles';
+import { isCameraSupported } from '../services/camera';
+import { CameraIcon, UploadIcon } from './icons';
+import { useI18n } from './I18nProvider';
+import { WebcamCapture } from './WebcamCapture';
+
+interface ImageUploaderProps {
+    onImageUpload: (file: File) => void;
+    disabled: boolean;
+}
+
+/**
+ * Single-photo entry point: click to pick, drag and drop, paste with
+ * Ctrl+V or take a photo with the camera. Every path hands a validated
+ * file to `onImageUpload`.
+ */
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, disabled }) => {
+    const { t } = useI18n();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // dragenter/dragleave fire for every child element; count them so the highlight does not flicker.
+    const dragDepthRef = useRef(0);
+
+    const submitFile = useCallback((file: File | undefined) => {
+        if (!file) {
+            setError(t('upload.noImage'));
+            return;
+        }
+        const issue = validateImageFile(file);
+        if (issue) {
+            setError(issue === 'tooLarge'
+                ? t('upload.tooLarge', { name: file.name, max: Math.round(MAX_UPLOAD_BYTES / 1024 / 1024) })
+                : t('upload.unsupportedType', { name: file.name }));
+            return;
+        }
+        setError(null);
+        onImageUpload(file);
+    }, [onImageUpload, t]);
+
+    useEffect(() => {
+        if (disabled || isCameraOpen) return;
+        const handlePaste = (e: ClipboardEvent) => {
+            const file = imageFromClipboard(e.clipboardData);
+            if (!file) return; // Plain text pastes into other fields stay untouched.
+            e.preventDefault();
+            submitFile(file);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [disabled, isCameraOpen, submitFile]);
+
+    const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        if (disabled) return;
+        dragDepthRef.current += 1;
+        setIsDragging(true);
+    };
+
+    const handleDragLeave = () => {
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        dragDepthRef.current = 0;
+        setIsDragging(false);
+        if (disabled) return;
+        submitFile(e.dataTransfer.files[0]);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            submitFile(e.target.files[0]);
+        }
+        e.target.value = '';
+    };
+
+    const openPicker = () => {
+        if (!disabled) inputRef.current?.click();
+    };
+
+    if (isCameraOpen) {
+        return (
+            <WebcamCapture
+                onCapture={(file) => {
+                    setIsCameraOpen(false);
+                    submitFile(file);
+                }}
+                onCancel={() => setIsCameraOpen(false)}
+            />
+        );
+    }
+
+    return (
+        <div className="w-full max-w-lg mx-auto flex flex-col items-center gap-3">
+            <div
+                role="button"
+                tabIndex={disabled ? -1 : 0}
+                aria-disabled={disabled}
+                aria-describedby={error ? 'upload-error' : undefined}
+                onClick={openPicker}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        openPicker();
+                    }
+                }}
+                onDragEnter={handleDragEnter}
+                onDragOver={(e) => e.preventDefault()}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                className={`relative w-full flex flex-col items-center justify-center p-8 border-2 rounded-2xl backdrop-blur-lg shadow-lg transition-all duration-300 cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary ${isDragging ? 'border-dashed border-primary bg-primary/10 scale-105' : 'border-white/50 bg-white/40 hover:bg-white/60 hover:shadow-xl hover:scale-105'}`}
+            >
+                <UploadIcon className="w-16 h-16 text-primary" />
+                <h2 className="mt-4 text-xl font-semibold text-text-main">{isDragging ? t('upload.dropHere') : t('upload.title')}</h2>
+                <p className="mt-1 text-sm text-text-muted text-center">{t('upload.hint')}</p>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept="image/png, image/jpeg, image/webp"
+                    onChange={handleFileChange}
+                    className="hidden"
+                    disabled={disabled}
+                />
+            </div>
+            {isCameraSupported() && (
+                <button onClick={() => setIsCameraOpen(true)} disabled={disabled} className="bg-white/70 hover:bg-white border border-primary/40 text-primary font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    <CameraIcon className="w-5 h-5" />
+                    {t('upload.useCamera')}
+                </button>
+            )}
+            {error && <p id="upload-error" role="alert" className="text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,387 @@
+import React, { useRef, useState } from 'react';
+import { CAREER_CATALOG, CAREER_CATEGORIES, careerName } from '../services/careerCatalog';
+import { downloadBlob } from '../services/download';
+import {
+    exportKioskSettings,
+    hashPin,
+    importKioskSettings,
+    isValidPin,
+    KioskSettingsError,
+    MAX_CHAT_QUESTIONS_PER_SESSION,
+    MAX_GENERATIONS_PER_SESSION,
+    MAX_INACTIVITY_RESET_MINUTES,
+    MAX_PIN_LENGTH,
+    MIN_PIN_LENGTH,
+    verifyPin,
+    type KioskSettings,
+} from '../services/kioskSettings';
+import { DownloadIcon, LockIcon, UploadIcon, XMarkIcon } from './icons';
+import { categoryLabel } from './CareerInput';
+import { useI18n } from './I18nProvider';
+import { useKiosk } from './KioskProvider';
+
+const EXPORT_FILE_NAME = 'career_vision_kiosk_settings.json';
+
+const clampCount = (value: string, max: number): number =>
+    Math.min(Math.max(Math.floor(Number(value)) || 0, 0), max);
+
+const termsToText = (terms: readonly string[]): string => terms.join('\n');
+const textToTerms = (text: string): string[] => text.split('\n').map(term => term.trim()).filter(Boolean);
+
+interface PinFieldProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    autoFocus?: boolean;
+}
+const PinField: React.FC<PinFieldProps> = ({ id, label, value, onChange, autoFocus }) => (
+    <div className="flex flex-col gap-1">
+        <label htmlFor={id} className="text-sm font-medium text-text-main">{label}</label>
+        <input
+            id={id}
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={MAX_PIN_LENGTH}
+            value={value}
+            onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+            autoFocus={autoFocus}
+            className="bg-white border border-gray-300 rounded-lg px-4 py-2 tracking-widest text-text-main focus:ring-2 focus:ring-primary focus:outline-none"
+        />
+    </div>
+);
+
+/** First-time PIN setup, or PIN entry before the settings are shown. */
+const PinGate: React.FC<{ pinHash: string | null; onUnlock: (pinHash: string) => void }> = ({ pinHash, onUnlock }) => {
+    const { t } = useI18n();
+    const [pin, setPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const isSetup = pinHash === null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isSetup && !isValidPin(pin)) {
+            setError(t('kiosk.pinInvalid', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+            return;
+        }
+        if (isSetup && pin !== confirmPin) {
+            setError(t('kiosk.pinMismatch'));
+            return;
+        }
+        setIsChecking(true);
+        try {
+            if (isSetup) {
+                onUnlock(await hashPin(pin));
+            } else if (await verifyPin(pin, pinHash)) {
+                onUnlock(pinHash);
+            } else {
+                setError(t('kiosk.pinWrong'));
+                setPin('');
+            }
+        } catch (err) {
+            console.warn('PIN check failed:', err);
+            setError(t('kiosk.pinUnavailable'));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 max-w-xs mx-auto">
+            <p className="text-sm text-text-muted">{isSetup ? t('kiosk.setupHint') : t('kiosk.unlockHint')}</p>
+            <PinField id="kiosk-pin" label={isSetup ? t('kiosk.newPin') : t('kiosk.pin')} value={pin} onChange={setPin} autoFocus />
+            {isSetup && <PinField id="kiosk-pin-confirm" label={t('kiosk.confirmPin')} value={confirmPin} onChange={setConfirmPin} />}
+            {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+            <button type="submit" disabled={isChecking || !pin} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition">
+                {isSetup ? t('kiosk.setPin') : t('kiosk.unlock')}
+            </button>
+        </form>
+    );
+};
+
+interface SettingsFormProps {
+    initial: KioskSettings;
+    onSave: (settings: KioskSettings) => void;
+}
+const SettingsForm: React.FC<SettingsFormProps> = ({ initial, onSave }) => {
+    const { locale, t } = useI18n();
+    const [draft, setDraft] = useState<KioskSettings>(initial);
+    const [blockedText, setBlockedText] = useState(termsToText(initial.blockedTerms));
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    const update = (patch: Partial<KioskSettings>) => {
+        setDraft(current => ({ ...current, ...patch }));
+        setNotice(null);
+    };
+
+    const toggleCareer = (id: string, allowed: boolean) => {
+        update({ allowedCareerIds: allowed ? [...draft.allowedCareerIds, id] : draft.allowedCareerIds.filter(other => other !== id) });
+    };
+
+    const currentDraft = (): KioskSettings => ({ ...draft, blockedTerms: textToTerms(blockedText) });
+
+    const handleSave = async () => {
+        setError(null);
+        const next = currentDraft();
+        if (next.restrictCareers && next.allowedCareerIds.length === 0) {
+            setError(t('kiosk.noCareersAllowed'));
+            return;
+        }
+        if (newPin || confirmPin) {
+            if (!isValidPin(newPin)) {
+                setError(t('kiosk.pinInvalid', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+                return;
+            }
+            if (newPin !== confirmPin) {
+                setError(t('kiosk.pinMismatch'));
+                return;
+            }
+            try {
+                next.pinHash = await hashPin(newPin);
+            } catch (e) {
+                console.warn('Failed to hash the new PIN:', e);
+                setError(t('kiosk.pinUnavailable'));
+                return;
+            }
+        }
+        try {
+            onSave(next);
+        } catch (e) {
+            console.warn('Failed to save kiosk settings:', e);
+            setError(t('kiosk.saveFailed'));
+            return;
+        }
+        setDraft(next);
+        setNewPin('');
+        setConfirmPin('');
+        setNotice(t('kiosk.saved'));
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([exportKioskSettings(currentDraft())], { type: 'application/json' }), EXPORT_FILE_NAME);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const imported = importKioskSettings(await file.text());
+            // A file without a PIN must not leave this device unprotected.
+            const next = { ...imported, pinHash: imported.pinHash ?? draft.pinHash };
+            setDraft(next);
+            setBlockedText(termsToText(next.blockedTerms));
+            setNotice(t('kiosk.imported'));
+        } catch (err) {
+            console.warn('Failed to import kiosk settings:', err);
+            setError(err instanceof KioskSettingsError ? t('kiosk.importInvalid', { reason: err.message }) : t('kiosk.importFailed'));
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-5">
+            <label className="flex items-center gap-3 text-text-main font-semibold">
+                <input type="checkbox" checked={draft.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="w-5 h-5 accent-primary" />
+                {t('kiosk.enabled')}
+            </label>
+            <p className="-mt-3 text-xs text-text-muted">{t('kiosk.enabledHint')}</p>
+
+            <fieldset className="flex flex-col gap-2">
+                <label className="flex items-center gap-3 text-text-main font-medium">
+                    <input type="checkbox" checked={draft.restrictCareers} onChange={(e) => update({ restrictCareers: e.target.checked })} className="w-4 h-4 accent-primary" />
+                    {t('kiosk.restrictCareers')}
+                </label>
+                {draft.restrictCareers && (
+                    <div className="border border-gray-200 rounded-lg p-3 max-h-64 overflow-y-auto">
+                        <div className="flex gap-2 mb-2 text-sm">
+                            <button type="button" onClick={() => update({ allowedCareerIds: CAREER_CATALOG.map(entry => entry.id) })} className="text-primary hover:text-primary-focus underline">{t('kiosk.selectAll')}</button>
+                            <button type="button" onClick={() => update({ allowedCareerIds: [] })} className="text-primary hover:text-primary-focus underline">{t('kiosk.selectNone')}</button>
+                            <span className="ml-auto text-text-muted">{t('kiosk.allowedCount', { count: draft.allowedCareerIds.length, total: CAREER_CATALOG.length })}</span>
+                        </div>
+                        {CAREER_CATEGORIES.map(category => (
+                            <div key={category} className="mb-2">
+                                <p className="text-xs font-semibold text-primary mb-1">{categoryLabel(category, t)}</p>
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+                                    {CAREER_CATALOG.filter(entry => entry.category === category).map(entry => (
+                                        <label key={entry.id} className="flex items-center gap-2 text-sm text-text-main">
+                                            <input
+                                                type="checkbox"
+                                                checked={draft.allowedCareerIds.includes(entry.id)}
+                                                onChange={(e) => toggleCareer(entry.id, e.target.checked)}
+                                                className="accent-primary"
+                                            />
+                                            {careerName(entry, locale)}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </fieldset>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                    {t('kiosk.maxGenerations')}
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_GENERATIONS_PER_SESSION}
+                        value={draft.maxGenerationsPerSession}
+                        onChange={(e) => update({ maxGenerationsPerSession: clampCount(e.target.value, MAX_GENERATIONS_PER_SESSION) })}
+                        className="bg-white border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                    />
+                    <span className="text-xs font-normal text-text-muted">{t('kiosk.zeroUnlimited')}</span>
+                </label>
+                <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                    {t('kiosk.maxChatQuestions')}
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_CHAT_QUESTIONS_PER_SESSION}
+                        value={draft.maxChatQuestionsPerSession}
+                        onChange={(e) => update({ maxChatQuestionsPerSession: clampCount(e.target.value, MAX_CHAT_QUESTIONS_PER_SESSION) })}
+                        className="bg-white border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                    />
+                    <span className="text-xs font-normal text-text-muted">{t('kiosk.zeroUnlimited')}</span>
+                </label>
+                <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                    {t('kiosk.inactivityReset')}
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_INACTIVITY_RESET_MINUTES}
+                        value={draft.inactivityResetMinutes}
+                        onChange={(e) => update({ inactivityResetMinutes: clampCount(e.target.value, MAX_INACTIVITY_RESET_MINUTES) })}
+                        className="bg-white border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                    />
+                    <span className="text-xs font-normal text-text-muted">{t('kiosk.zeroOff')}</span>
+                </label>
+            </div>
+
+            <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                {t('kiosk.blockedTerms')}
+                <textarea
+                    value={blockedText}
+                    onChange={(e) => {
+                        setBlockedText(e.target.value);
+                        setNotice(null);
+                    }}
+                    rows={4}
+                    placeholder={t('kiosk.blockedTermsPlaceholder')}
+                    className="bg-white border border-gray-300 rounded-lg px-3 py-2 font-normal focus:ring-2 focus:ring-primary focus:outline-none"
+                />
+                <span className="text-xs font-normal text-text-muted">{t('kiosk.blockedTermsHint')}</span>
+            </label>
+
+            <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <legend className="mb-2 text-sm font-medium text-text-main">{t('kiosk.changePin')}</legend>
+                <PinField id="kiosk-new-pin" label={t('kiosk.newPin')} value={newPin} onChange={setNewPin} />
+                <PinField id="kiosk-new-pin-confirm" label={t('kiosk.confirmPin')} value={confirmPin} onChange={setConfirmPin} />
+            </fieldset>
+
+            {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+            {notice && <p role="status" className="text-sm text-green-700">{notice}</p>}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <button type="button" onClick={handleExport} className="bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                    <DownloadIcon className="w-5 h-5" />
+                    {t('kiosk.export')}
+                </button>
+                <button type="button" onClick={() => importRef.current?.click()} className="bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                    <UploadIcon className="w-5 h-5" />
+                    {t('kiosk.import')}
+                </button>
+                <input ref={importRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                <button type="button" onClick={handleSave} className="sm:ml-auto bg-primary hover:bg-primary-focus text-white font-semibold py-2 px-6 rounded-lg transition">
+                    {t('kiosk.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/** How much of the caps this kiosk session has used, with a way to hand the device to the next student. */
+const SessionUsage: React.FC = () => {
+    const { t } = useI18n();
+    const { settings, usage, resetSession } = useKiosk();
+    const maxGenerations = settings.maxGenerationsPerSession;
+    const maxChatQuestions = settings.maxChatQuestionsPerSession;
+    return (
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2 bg-primary/5 border border-primary/20 rounded-lg p-3">
+            <div className="text-sm text-text-main">
+                <p>
+                    {maxGenerations > 0
+                        ? t('kiosk.sessionUsage', { count: usage.generations, max: maxGenerations })
+                        : t('kiosk.sessionUsageUnlimited', { count: usage.generations })}
+                </p>
+                <p>
+                    {maxChatQuestions > 0
+                        ? t('kiosk.sessionChatUsage', { count: usage.chatQuestions, max: maxChatQuestions })
+                        : t('kiosk.sessionChatUsageUnlimited', { count: usage.chatQuestions })}
+                </p>
+            </div>
+            <button type="button" onClick={resetSession} disabled={usage.generations === 0 && usage.chatQuestions === 0} className="sm:ml-auto bg-white hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed border border-gray-300 text-text-main font-semibold py-1.5 px-3 rounded-lg text-sm transition">
+                {t('kiosk.resetSession')}
+            </button>
+        </div>
+    );
+};
+
+/**
+ * Teacher settings for shared devices. Closing the panel locks it again,
+ * so the PIN is asked for every time.
+ */
+export const KioskAdminPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { t } = useI18n();
+    const { settings, updateSettings } = useKiosk();
+    const [isUnlocked, setIsUnlocked] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleUnlock = (pinHash: string) => {
+        if (pinHash !== settings.pinHash) {
+            // First-time setup: the PIN is stored straight away so the panel is never left open without one.
+            try {
+                updateSettings({ ...settings, pinHash });
+            } catch (e) {
+                console.warn('Failed to save the kiosk PIN:', e);
+                setError(t('kiosk.saveFailed'));
+                return;
+            }
+        }
+        setIsUnlocked(true);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div role="dialog" aria-modal="true" aria-labelledby="kiosk-admin-title" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 id="kiosk-admin-title" className="text-2xl font-bold text-text-main flex items-center gap-2">
+                        <LockIcon className="w-6 h-6 text-primary" />
+                        {t('kiosk.title')}
+                    </h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                {error && <p role="alert" className="mb-3 text-sm text-red-600">{error}</p>}
+                {isUnlocked
+                    ? (
+                        <>
+                            {settings.enabled && <SessionUsage />}
+                            <SettingsForm initial={settings} onSave={updateSettings} />
+                        </>
+                    )
+                    : <PinGate pinHash={settings.pinHash} onUnlock={handleUnlock} />}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,71 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+    allowedCareerIdsFor,
+    EMPTY_KIOSK_USAGE,
+    loadKioskSettings,
+    loadKioskUsage,
+    saveKioskSettings,
+    saveKioskUsage,
+    type KioskSettings,
+    type KioskUsage,
+} from '../services/kioskSettings';
+
+interface KioskContextValue {
+    settings: KioskSettings;
+    /** Persists first, so settings that could not be saved are never applied. */
+    updateSettings: (settings: KioskSettings) => void;
+    /** Catalog ids students may pick from, or undefined when any career is fine. */
+    allowedCareerIds?: readonly string[];
+    /** Use of the current kiosk session, counted only while kiosk mode is on. */
+    usage: KioskUsage;
+    countGeneration: () => void;
+    countChatQuestion: () => void;
+    /** Starts a new kiosk session: after inactivity, or when the teacher asks for it. */
+    resetSession: () => void;
+}
+
+const KioskContext = createContext<KioskContextValue | null>(null);
+
+export const KioskProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [settings, setSettings] = useState<KioskSettings>(loadKioskSettings);
+    const [usage, setUsage] = useState<KioskUsage>(loadKioskUsage);
+
+    useEffect(() => saveKioskUsage(usage), [usage]);
+
+    const updateSettings = useCallback((next: KioskSettings) => {
+        saveKioskSettings(next);
+        // Switching kiosk mode on starts counting from zero rather than from an earlier kiosk period.
+        if (next.enabled && !settings.enabled) setUsage(EMPTY_KIOSK_USAGE);
+        setSettings(next);
+    }, [settings.enabled]);
+
+    const countGeneration = useCallback(() => {
+        if (settings.enabled) setUsage(current => ({ ...current, generations: current.generations + 1 }));
+    }, [settings.enabled]);
+
+    const countChatQuestion = useCallback(() => {
+        if (settings.enabled) setUsage(current => ({ ...current, chatQuestions: current.chatQuestions + 1 }));
+    }, [settings.enabled]);
+
+    const resetSession = useCallback(() => setUsage(EMPTY_KIOSK_USAGE), []);
+
+    const value = useMemo<KioskContextValue>(() => ({
+        settings,
+        updateSettings,
+        allowedCareerIds: allowedCareerIdsFor(settings),
+        usage,
+        countGeneration,
+        countChatQuestion,
+        resetSession,
+    }), [settings, updateSettings, usage, countGeneration, countChatQuestion, resetSession]);
+
+    return <KioskContext.Provider value={value}>{children}</KioskContext.Provider>;
+};
+
+export const useKiosk = (): KioskContextValue => {
+    const context = useContext(KioskContext);
+    if (!context) {
+        throw new Error('useKiosk must be used inside a KioskProvider.');
+    }
+    return context;
+};
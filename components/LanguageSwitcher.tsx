@@ -0,0 +1,17 @@
+import React from 'react';
+import { isLocale, LOCALE_NAMES, SUPPORTED_LOCALES } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { locale, setLocale, t } = useI18n();
+    return (
+        <select
+            value={locale}
+            onChange={(e) => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+            aria-label={t('app.language')}
+            className={`bg-white/60 hover:bg-white/80 backdrop-blur-lg text-text-main font-semibold py-2 px-3 rounded-full shadow transition focus:ring-2 focus:ring-primary focus:outline-none ${className}`}
+        >
+            {SUPPORTED_LOCALES.map(option => <option key={option} value={option}>{LOCALE_NAMES[option]}</option>)}
+        </select>
+    );
+};
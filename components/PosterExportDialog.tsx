@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPosterPdf, POSTER_TEMPLATES, posterToPngBlob, renderPoster, type PosterContent, type PosterTemplateId, type PosterText } from '../services/poster';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon, XMarkIcon } from './icons';
+import { useI18n } from './I18nProvider';
+
+const TEMPLATE_IDS = Object.keys(POSTER_TEMPLATES) as PosterTemplateId[];
+
+const posterFileName = (title: string, extension: string): string =>
+    `${title.replace(/[\\/:*?"<>|\s]+/g, '_')}_career_vision_poster.${extension}`;
+
+interface PosterExportDialogProps {
+    /** One entry for a single result; several produce a class PDF with one page each. */
+    contents: PosterContent[];
+    /** Used for file names and the PDF title. */
+    title: string;
+    onClose: () => void;
+}
+export const PosterExportDialog: React.FC<PosterExportDialogProps> = ({ contents, title, onClose }) => {
+    const { locale, t } = useI18n();
+    const [templateId, setTemplateId] = useState<PosterTemplateId>('portrait');
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isClassExport = contents.length > 1;
+    const labels = useMemo<PosterText>(() => ({
+        locale,
+        heading: t('poster.heading'),
+        beforeLabel: t('poster.before'),
+        afterLabel: t('poster.after'),
+        skillsLabel: t('poster.skills'),
+    }), [locale, t]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPreviewUrl(null);
+        setError(null);
+        renderPoster(contents[0], templateId, labels)
+            .then(canvas => {
+                if (!cancelled) setPreviewUrl(canvas.toDataURL('image/jpeg', 0.8));
+            })
+            .catch(e => {
+                console.warn('Failed to render poster preview:', e);
+                if (!cancelled) setError(t('poster.previewFailed'));
+            });
+        return () => { cancelled = true; };
+    }, [contents, templateId, labels, t]);
+
+    const runExport = async (work: () => Promise<void>) => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            await work();
+        } catch (e) {
+            console.warn('Poster export failed:', e);
+            setError(t('poster.exportFailed'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handlePng = () => runExport(async () => {
+        const canvas = await renderPoster(contents[0], templateId, labels);
+        downloadBlob(await posterToPngBlob(canvas), posterFileName(title, 'png'));
+    });
+
+    const handlePdf = () => runExport(async () => {
+        downloadBlob(await createPosterPdf(contents, templateId, labels, title), posterFileName(title, 'pdf'));
+    });
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-bold text-text-main">{isClassExport ? t('poster.classTitle', { count: contents.length }) : t('poster.title')}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div role="radiogroup" aria-label={t('poster.layout')} className="flex flex-wrap gap-2 mb-4">
+                    {TEMPLATE_IDS.map(id => (
+                        <button
+                            key={id}
+                            role="radio"
+                            aria-checked={templateId === id}
+                            onClick={() => setTemplateId(id)}
+                            disabled={isExporting}
+                            className={`py-2 px-4 rounded-full font-semibold transition ${templateId === id ? 'bg-primary text-white shadow' : 'bg-gray-100 text-text-muted hover:text-text-main'}`}
+                        >
+                            {t(`poster.template.${id}`)}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center justify-center bg-gray-100 rounded-xl p-4 min-h-[16rem]">
+                    {previewUrl
+                        ? <img src={previewUrl} alt={t('poster.previewAlt')} className="max-h-[50vh] object-contain shadow-lg rounded" />
+                        : !error && <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>}
+                </div>
+                {isClassExport && <p className="mt-2 text-xs text-text-muted">{t('poster.classHint')}</p>}
+                {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+                <div className="flex flex-col sm:flex-row gap-2 mt-4">
+                    {!isClassExport && (
+                        <button onClick={handlePng} disabled={isExporting} className="flex-1 bg-accent hover:bg-pink-500 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                            <DownloadIcon className="w-5 h-5" />
+                            {t('poster.savePng')}
+                        </button>
+                    )}
+                    <button onClick={handlePdf} disabled={isExporting} className="flex-1 bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition">
+                        <DownloadIcon className="w-5 h-5" />
+                        {isExporting ? t('poster.exporting') : t('poster.savePdf')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
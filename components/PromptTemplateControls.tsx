@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import type { GenerationResult } from '../types';
+import type { MessageKey } from '../locales';
+import { createId } from '../services/ids';
+import { resolveCareerPrompt } from '../services/promptInput';
+import {
+    buildGenerationPrompt,
+    MAX_CUSTOM_TEMPLATES,
+    MAX_TEMPLATE_LENGTH,
+    MAX_TEMPLATE_NAME_LENGTH,
+    PROMPT_VARIABLES,
+    STYLE_IDS,
+    validateTemplateBody,
+    type BuiltInTemplateId,
+    type PromptTemplate,
+    type StyleId,
+} from '../services/promptTemplates';
+import { PencilIcon, TrashIcon, XMarkIcon } from './icons';
+import { useI18n, type Translate } from './I18nProvider';
+import { usePromptTemplates } from './PromptTemplateProvider';
+
+const BUILT_IN_TEMPLATE_LABELS: Record<BuiltInTemplateId, MessageKey> = {
+    standard: 'template.standard',
+    portrait: 'template.portrait',
+    action: 'template.action',
+};
+
+export const styleLabel = (styleId: StyleId, t: Translate): string => t(`style.${styleId}`);
+
+export const templateLabel = (template: PromptTemplate, t: Translate): string =>
+    template.builtIn ? t(BUILT_IN_TEMPLATE_LABELS[template.id as BuiltInTemplateId]) : template.name;
+
+/** "Watercolor · Portrait" for a result; nothing for results from before templates were recorded. */
+export const GenerationStyleBadge: React.FC<{ result: GenerationResult }> = ({ result }) => {
+    const { t } = useI18n();
+    const { templates } = usePromptTemplates();
+    if (!result.styleId && !result.templateId) return null;
+    const template = templates.find(other => other.id === result.templateId);
+    const parts = [
+        result.styleId ? styleLabel(result.styleId, t) : null,
+        template ? templateLabel(template, t) : result.templateId ? t('template.removed') : null,
+    ].filter(Boolean);
+    return <p className="mt-1 text-xs text-text-muted">{t('template.madeWith', { details: parts.join(' · ') })}</p>;
+};
+
+interface PromptTemplateEditorProps {
+    /** Career used for the preview until the user types another one. */
+    career: string;
+    onClose: () => void;
+}
+
+/** Lists the templates, lets the user copy and edit their own and previews the exact prompt sent to the model. */
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ career, onClose }) => {
+    const { locale, t } = useI18n();
+    const { templates, template: selected, styleId, saveTemplate, deleteTemplate, selectTemplate } = usePromptTemplates();
+    const [draft, setDraft] = useState<PromptTemplate>(selected);
+    const [previewCareer, setPreviewCareer] = useState(career);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const customCount = templates.filter(template => !template.builtIn).length;
+    const isSaved = templates.some(template => template.id === draft.id);
+    const bodyIssue = validateTemplateBody(draft.body);
+
+    const preview = useMemo(() => {
+        const resolved = resolveCareerPrompt(previewCareer, locale);
+        return buildGenerationPrompt(resolved.title ? resolved : null, locale, draft, styleId);
+    }, [previewCareer, locale, draft, styleId]);
+
+    const open = (template: PromptTemplate) => {
+        setDraft(template);
+        setError(null);
+        setNotice(null);
+    };
+
+    const handleDuplicate = () => {
+        if (customCount >= MAX_CUSTOM_TEMPLATES) {
+            setError(t('template.limit', { max: MAX_CUSTOM_TEMPLATES }));
+            return;
+        }
+        open({
+            id: `custom-${createId()}`,
+            name: t('template.copyName', { name: templateLabel(draft, t) }).slice(0, MAX_TEMPLATE_NAME_LENGTH),
+            body: draft.body,
+            builtIn: false,
+        });
+    };
+
+    const handleSave = () => {
+        const name = draft.name.trim();
+        if (!name) {
+            setError(t('template.nameRequired'));
+            return;
+        }
+        if (bodyIssue) return;
+        try {
+            saveTemplate({ ...draft, name });
+        } catch (e) {
+            console.warn('Failed to save prompt template:', e);
+            setError(t('template.saveFailed'));
+            return;
+        }
+        setError(null);
+        setNotice(t('template.saved'));
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(t('template.confirmDelete', { name: draft.name }))) return;
+        deleteTemplate(draft.id);
+        open(templates[0]);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div role="dialog" aria-modal="true" aria-labelledby="template-editor-title" className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 id="template-editor-title" className="text-2xl font-bold text-text-main">{t('template.editorTitle')}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <ul className="flex flex-col gap-1" aria-label={t('template.label')}>
+                        {templates.map(template => (
+                            <li key={template.id}>
+                                <button
+                                    onClick={() => open(template)}
+                                    aria-current={template.id === draft.id}
+                                    className={`w-full text-left py-2 px-3 rounded-lg transition ${template.id === draft.id ? 'bg-primary/10 text-primary-focus font-semibold' : 'hover:bg-gray-100 text-text-main'}`}
+                                >
+                                    {templateLabel(template, t)}
+                                    {!template.builtIn && <span className="ml-2 text-xs text-text-muted">{t('template.custom')}</span>}
+                                </button>
+                            </li>
+                        ))}
+                        {!isSaved && (
+                            <li className="py-2 px-3 rounded-lg bg-primary/10 text-primary-focus font-semibold">{draft.name || t('template.untitled')}</li>
+                        )}
+                    </ul>
+                    <div className="md:col-span-2 flex flex-col gap-3">
+                        {draft.builtIn ? (
+                            <p className="text-sm text-text-muted">{t('template.builtInReadOnly')}</p>
+                        ) : (
+                            <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                                {t('template.name')}
+                                <input
+                                    type="text"
+                                    value={draft.name}
+                                    maxLength={MAX_TEMPLATE_NAME_LENGTH}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    className="bg-white border border-gray-300 rounded-lg px-3 py-2 font-normal focus:ring-2 focus:ring-primary focus:outline-none"
+                                />
+                            </label>
+                        )}
+                        <label className="flex flex-col gap-1 text-sm font-medium text-text-main">
+                            {t('template.body')}
+                            <textarea
+                                value={draft.body}
+                                onChange={(e) => {
+                                    setDraft({ ...draft, body: e.target.value });
+                                    setNotice(null);
+                                }}
+                                readOnly={draft.builtIn}
+                                rows={5}
+                                maxLength={MAX_TEMPLATE_LENGTH}
+                                aria-invalid={!!bodyIssue}
+                                className={`border rounded-lg px-3 py-2 font-mono text-sm font-normal focus:ring-2 focus:outline-none ${draft.builtIn ? 'bg-gray-50 text-text-muted' : 'bg-white'} ${bodyIssue ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-primary'}`}
+                            />
+                        </label>
+                        {bodyIssue && <p className="text-sm text-red-600">{t(`template.issue.${bodyIssue}`, { max: MAX_TEMPLATE_LENGTH })}</p>}
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-text-muted">
+                            {PROMPT_VARIABLES.map(variable => (
+                                <React.Fragment key={variable}>
+                                    <dt className="font-mono text-primary">{`{${variable}}`}</dt>
+                                    <dd>{t(`template.variable.${variable}`)}</dd>
+                                </React.Fragment>
+                            ))}
+                        </dl>
+                        {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+                        {notice && <p role="status" className="text-sm text-green-700">{notice}</p>}
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={handleDuplicate} className="bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition">
+                                <PencilIcon className="w-4 h-4" />
+                                {t('template.duplicate')}
+                            </button>
+                            {!draft.builtIn && isSaved && (
+                                <button onClick={handleDelete} className="bg-white hover:bg-red-50 border border-red-300 text-red-600 font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition">
+                                    <TrashIcon className="w-4 h-4" />
+                                    {t('template.delete')}
+                                </button>
+                            )}
+                            {!draft.builtIn && (
+                                <button onClick={handleSave} disabled={!!bodyIssue} className="bg-white hover:bg-gray-100 border border-primary text-primary font-semibold py-2 px-4 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                    {t('template.save')}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    selectTemplate(draft.id);
+                                    onClose();
+                                }}
+                                disabled={!isSaved}
+                                className="ml-auto bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg transition"
+                            >
+                                {t('template.use')}
+                            </button>
+                        </div>
+                        <div className="mt-2 border-t border-gray-200 pt-3">
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <h3 className="text-sm font-semibold text-primary">{t('template.preview')}</h3>
+                                <span className="text-xs text-text-muted">{styleLabel(styleId, t)}</span>
+                                <input
+                                    type="text"
+                                    value={previewCareer}
+                                    onChange={(e) => setPreviewCareer(e.target.value)}
+                                    placeholder={t('template.previewCareer')}
+                                    aria-label={t('template.previewCareer')}
+                                    className="ml-auto bg-white border border-gray-300 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-primary focus:outline-none"
+                                />
+                            </div>
+                            <pre className="whitespace-pre-wrap break-words bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-text-main max-h-64 overflow-y-auto">{preview}</pre>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface PromptStylePickerProps {
+    /** Career typed so far, for the editor's preview. */
+    career: string;
+    disabled?: boolean;
+}
+
+/** Style presets and the template choice shown next to each career form. */
+export const PromptStylePicker: React.FC<PromptStylePickerProps> = ({ career, disabled }) => {
+    const { t } = useI18n();
+    const { templates, template, styleId, canEditTemplates, selectTemplate, selectStyle } = usePromptTemplates();
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div role="radiogroup" aria-label={t('style.label')} className="flex flex-wrap gap-2">
+                {STYLE_IDS.map(id => (
+                    <button
+                        key={id}
+                        type="button"
+                        role="radio"
+                        aria-checked={styleId === id}
+                        onClick={() => selectStyle(id)}
+                        disabled={disabled}
+                        className={`py-1 px-3 rounded-full text-sm font-semibold transition ${styleId === id ? 'bg-primary text-white shadow' : 'bg-white/70 text-text-muted hover:text-text-main'}`}
+                    >
+                        {styleLabel(id, t)}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+                <select
+                    value={template.id}
+                    onChange={(e) => selectTemplate(e.target.value)}
+                    aria-label={t('template.label')}
+                    disabled={disabled}
+                    className="bg-white/80 border border-gray-300 rounded-lg px-3 py-2 text-sm text-text-main focus:ring-2 focus:ring-primary focus:outline-none"
+                >
+                    {templates.map(option => <option key={option.id} value={option.id}>{templateLabel(option, t)}</option>)}
+                </select>
+                {canEditTemplates && (
+                    <button type="button" onClick={() => setIsEditorOpen(true)} disabled={disabled} className="text-sm text-primary hover:text-primary-focus underline disabled:opacity-50">
+                        {t('template.edit')}
+                    </button>
+                )}
+            </div>
+            {isEditorOpen && <PromptTemplateEditor career={career} onClose={() => setIsEditorOpen(false)} />}
+        </div>
+    );
+};
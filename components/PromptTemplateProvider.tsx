@@ -0,0 +1,100 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import {
+    BUILT_IN_TEMPLATES,
+    DEFAULT_TEMPLATE,
+    loadPromptPreferences,
+    savePromptPreferences,
+    type PromptPreferences,
+    type PromptTemplate,
+    type StyleId,
+} from '../services/promptTemplates';
+import { useKiosk } from './KioskProvider';
+
+interface PromptTemplateContextValue {
+    /** Built-in templates first, then the user's own. */
+    templates: PromptTemplate[];
+    /** Template and style to send with the next generation. */
+    template: PromptTemplate;
+    styleId: StyleId;
+    /** False in kiosk mode, where only the built-in templates can be used. */
+    canEditTemplates: boolean;
+    selectTemplate: (id: string) => void;
+    selectStyle: (styleId: StyleId) => void;
+    /** Adds or replaces a custom template and selects it. Throws when it cannot be stored. */
+    saveTemplate: (template: PromptTemplate) => void;
+    deleteTemplate: (id: string) => void;
+}
+
+const PromptTemplateContext = createContext<PromptTemplateContextValue | null>(null);
+
+export const PromptTemplateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { settings } = useKiosk();
+    const [preferences, setPreferences] = useState<PromptPreferences>(loadPromptPreferences);
+
+    // Picks are best-effort like the locale; losing them only resets the selection.
+    const updatePicks = useCallback((patch: Partial<Pick<PromptPreferences, 'templateId' | 'styleId'>>) => {
+        setPreferences(current => {
+            const next = { ...current, ...patch };
+            try {
+                savePromptPreferences(next);
+            } catch (e) {
+                console.warn('Failed to save prompt template selection:', e);
+            }
+            return next;
+        });
+    }, []);
+
+    const saveTemplate = useCallback((template: PromptTemplate) => {
+        const exists = preferences.customTemplates.some(other => other.id === template.id);
+        const next: PromptPreferences = {
+            ...preferences,
+            customTemplates: exists
+                ? preferences.customTemplates.map(other => other.id === template.id ? template : other)
+                : [...preferences.customTemplates, template],
+            templateId: template.id,
+        };
+        savePromptPreferences(next);
+        setPreferences(next);
+    }, [preferences]);
+
+    const deleteTemplate = useCallback((id: string) => {
+        setPreferences(current => {
+            const next = {
+                ...current,
+                customTemplates: current.customTemplates.filter(template => template.id !== id),
+                templateId: current.templateId === id ? DEFAULT_TEMPLATE.id : current.templateId,
+            };
+            try {
+                savePromptPreferences(next);
+            } catch (e) {
+                console.warn('Failed to save prompt templates:', e);
+            }
+            return next;
+        });
+    }, []);
+
+    const value = useMemo<PromptTemplateContextValue>(() => {
+        const canEditTemplates = !settings.enabled;
+        const templates = [...BUILT_IN_TEMPLATES, ...(canEditTemplates ? preferences.customTemplates : [])];
+        return {
+            templates,
+            template: templates.find(template => template.id === preferences.templateId) ?? DEFAULT_TEMPLATE,
+            styleId: preferences.styleId,
+            canEditTemplates,
+            selectTemplate: (templateId: string) => updatePicks({ templateId }),
+            selectStyle: (styleId: StyleId) => updatePicks({ styleId }),
+            saveTemplate,
+            deleteTemplate,
+        };
+    }, [settings.enabled, preferences, updatePicks, saveTemplate, deleteTemplate]);
+
+    return <PromptTemplateContext.Provider value={value}>{children}</PromptTemplateContext.Provider>;
+};
+
+export const usePromptTemplates = (): PromptTemplateContextValue => {
+    const context = useContext(PromptTemplateContext);
+    if (!context) {
+        throw new Error('usePromptTemplates must be used inside a PromptTemplateProvider.');
+    }
+    return context;
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import type { SessionGeneration, VersionTree } from '../types';
+import { canRedo, canUndo, childrenOf } from '../services/versionTree';
+import { StarIcon, StepBackIcon, StepForwardIcon, XMarkIcon } from './icons';
+import { useI18n } from './I18nProvider';
+
+const versionLabel = (version: SessionGeneration): string => version.instruction ?? (version.prompt || version.result.title);
+
+const VersionCompareView: React.FC<{ versions: SessionGeneration[]; onClose: () => void }> = ({ versions, onClose }) => {
+    const { t } = useI18n();
+    return (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-bold text-text-main">{t('versions.compareTitle')}</h2>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {versions.map(version => (
+                        <figure key={version.id} className="flex flex-col gap-2">
+                            <img src={version.result.image} alt={version.result.title} className="w-full aspect-square object-contain rounded-xl bg-black/10" />
+                            <figcaption>
+                                <p className="text-lg font-semibold text-primary">{version.result.title}</p>
+                                <p className="text-sm text-text-muted">{versionLabel(version)}</p>
+                            </figcaption>
+                        </figure>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface VersionBranchProps {
+    tree: VersionTree;
+    parentId: string | null;
+    compareIds: string[];
+    disabled: boolean;
+    onSelect: (id: string) => void;
+    onToggleCompare: (id: string) => void;
+    onMarkFinal: (id: string | null) => void;
+}
+const VersionBranch: React.FC<VersionBranchProps> = (props) => {
+    const { tree, parentId, compareIds, disabled, onSelect, onToggleCompare, onMarkFinal } = props;
+    const { t } = useI18n();
+    const children = childrenOf(tree, parentId);
+    if (children.length === 0) return null;
+
+    return (
+        <ul className={parentId ? 'ml-6 pl-3 border-l-2 border-primary/20 space-y-2 mt-2' : 'space-y-2'}>
+            {children.map(version => {
+                const isCurrent = version.id === tree.currentId;
+                const isFinal = version.id === tree.finalId;
+                return (
+                    <li key={version.id}>
+                        <div className={`flex items-center gap-3 p-2 rounded-xl border ${isCurrent ? 'border-primary bg-primary/5' : 'border-gray-200 bg-white/70'}`}>
+                            <input
+                                type="checkbox"
+                                checked={compareIds.includes(version.id)}
+                                onChange={() => onToggleCompare(version.id)}
+                                aria-label={t('versions.selectForCompare', { title: version.result.title })}
+                                className="accent-primary"
+                            />
+                            <button onClick={() => onSelect(version.id)} disabled={disabled} className="flex items-center gap-3 flex-grow min-w-0 text-left disabled:cursor-not-allowed">
+                                <img src={version.result.image} alt="" className="w-12 h-12 object-cover rounded-lg bg-black/10 shrink-0" />
+                                <span className="min-w-0">
+                                    <span className="block font-semibold text-text-main truncate">{version.result.title}</span>
+                                    <span className="block text-xs text-text-muted truncate">{version.instruction ? t('versions.refinedWith', { instruction: version.instruction }) : t('versions.fromOriginal')}</span>
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => onMarkFinal(isFinal ? null : version.id)}
+                                aria-label={isFinal ? t('versions.unmarkFinal') : t('versions.markFinal')}
+                                aria-pressed={isFinal}
+                                className="shrink-0 text-accent hover:scale-110 transition"
+                            >
+                                <StarIcon className="w-6 h-6" filled={isFinal} />
+                            </button>
+                        </div>
+                        <VersionBranch {...props} parentId={version.id} />
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+interface VersionTreePanelProps {
+    tree: VersionTree;
+    disabled: boolean;
+    onSelect: (id: string) => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    onMarkFinal: (id: string | null) => void;
+}
+export const VersionTreePanel: React.FC<VersionTreePanelProps> = ({ tree, disabled, onSelect, onUndo, onRedo, onMarkFinal }) => {
+    const { t } = useI18n();
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [isComparing, setIsComparing] = useState(false);
+
+    // Keep at most two picks; a third replaces the oldest.
+    const toggleCompare = (id: string) => {
+        setCompareIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2));
+    };
+
+    const compareVersions = compareIds.map(id => tree.nodes[id]).filter(Boolean);
+
+    return (
+        <div className="w-full max-w-6xl mx-auto mt-8 bg-white/40 backdrop-blur-lg border border-white/50 p-4 rounded-xl shadow-md">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h3 className="text-lg font-semibold text-primary">{t('versions.title')}</h3>
+                <div className="flex gap-2">
+                    <button onClick={onUndo} disabled={disabled || !canUndo(tree)} className="bg-white/70 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed text-text-main font-semibold py-1 px-3 rounded-lg flex items-center gap-1 transition">
+                        <StepBackIcon className="w-4 h-4" />
+                        {t('versions.undo')}
+                    </button>
+                    <button onClick={onRedo} disabled={disabled || !canRedo(tree)} className="bg-white/70 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed text-text-main font-semibold py-1 px-3 rounded-lg flex items-center gap-1 transition">
+                        <StepForwardIcon className="w-4 h-4" />
+                        {t('versions.redo')}
+                    </button>
+                    <button onClick={() => setIsComparing(true)} disabled={compareVersions.length !== 2} className="bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-1 px-3 rounded-lg transition">
+                        {t('versions.compareSelected')}
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-text-muted mb-3">{t('versions.hint')}</p>
+            <VersionBranch
+                tree={tree}
+                parentId={null}
+                compareIds={compareIds}
+                disabled={disabled}
+                onSelect={onSelect}
+                onToggleCompare={toggleCompare}
+                onMarkFinal={onMarkFinal}
+            />
+            {isComparing && compareVersions.length === 2 && <VersionCompareView versions={compareVersions} onClose={() => setIsComparing(false)} />}
+        </div>
+    );
+};
@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraError, captureFrame, startCamera, stopCamera, type CameraErrorCode } from '../services/camera';
+import { RedoIcon, XMarkIcon } from './icons';
+import { useI18n, type Translate } from './I18nProvider';
+
+const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+const DEFAULT_COUNTDOWN_SECONDS = 3;
+
+const cameraErrorMessage = (code: CameraErrorCode, t: Translate): string => t(`camera.error.${code}`);
+
+interface WebcamCaptureProps {
+    onCapture: (file: File) => void;
+    onCancel: () => void;
+}
+
+/** Live camera preview with a countdown, mirror toggle and retake before the photo is used. */
+export const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onCapture, onCancel }) => {
+    const { t } = useI18n();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    // Cleared on unmount so a stream that opens after the user has left is stopped straight away.
+    const mountedRef = useRef(true);
+    const [isReady, setIsReady] = useState(false);
+    const [errorCode, setErrorCode] = useState<CameraErrorCode | null>(null);
+    const [mirror, setMirror] = useState(true);
+    const [countdownSeconds, setCountdownSeconds] = useState(DEFAULT_COUNTDOWN_SECONDS);
+    const [remaining, setRemaining] = useState<number | null>(null);
+    const [captured, setCaptured] = useState<{ file: File; url: string } | null>(null);
+
+    const openCamera = useCallback(async () => {
+        setIsReady(false);
+        setErrorCode(null);
+        stopCamera(streamRef.current);
+        try {
+            const stream = await startCamera();
+            if (!mountedRef.current) {
+                stopCamera(stream);
+                return;
+            }
+            streamRef.current = stream;
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play();
+            }
+            setIsReady(true);
+        } catch (e) {
+            console.warn('Failed to start the camera:', e);
+            setErrorCode(e instanceof CameraError ? e.code : 'unknown');
+        }
+    }, []);
+
+    useEffect(() => {
+        mountedRef.current = true;
+        openCamera();
+        return () => {
+            mountedRef.current = false;
+            stopCamera(streamRef.current);
+            streamRef.current = null;
+        };
+    }, [openCamera]);
+
+    useEffect(() => () => {
+        if (captured) URL.revokeObjectURL(captured.url);
+    }, [captured]);
+
+    const takePhoto = useCallback(async () => {
+        if (!videoRef.current) return;
+        try {
+            const file = await captureFrame(videoRef.current, mirror);
+            setCaptured({ file, url: URL.createObjectURL(file) });
+        } catch (e) {
+            console.warn('Failed to capture a frame:', e);
+            setErrorCode(e instanceof CameraError ? e.code : 'unknown');
+        }
+    }, [mirror]);
+
+    // One tick per second; the photo is taken when the count reaches zero.
+    useEffect(() => {
+        if (remaining === null) return;
+        if (remaining === 0) {
+            setRemaining(null);
+            takePhoto();
+            return;
+        }
+        const timer = setTimeout(() => setRemaining(remaining - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [remaining, takePhoto]);
+
+    const handleUse = () => {
+        if (!captured) return;
+        stopCamera(streamRef.current);
+        streamRef.current = null;
+        onCapture(captured.file);
+    };
+
+    const handleCancel = () => {
+        stopCamera(streamRef.current);
+        streamRef.current = null;
+        onCancel();
+    };
+
+    const isCountingDown = remaining !== null;
+
+    return (
+        <div className="w-full max-w-lg mx-auto flex flex-col gap-4 p-4 bg-white/40 backdrop-blur-lg border border-white/50 rounded-2xl shadow-lg">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold text-text-main">{t('camera.title')}</h2>
+                <button onClick={handleCancel} aria-label={t('common.close')} className="text-text-muted hover:text-text-main">
+                    <XMarkIcon className="w-6 h-6" />
+                </button>
+            </div>
+            <div className="relative aspect-square w-full rounded-xl overflow-hidden bg-black">
+                <video
+                    ref={videoRef}
+                    muted
+                    playsInline
+                    className={`w-full h-full object-cover ${mirror ? '-scale-x-100' : ''} ${captured ? 'hidden' : ''}`}
+                />
+                {captured && <img src={captured.url} alt={t('camera.previewAlt')} className="w-full h-full object-cover" />}
+                {!isReady && !errorCode && (
+                    <div className="absolute inset-0 flex items-center justify-center text-white">{t('camera.starting')}</div>
+                )}
+                {errorCode && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center text-white">
+                        <p>{cameraErrorMessage(errorCode, t)}</p>
+                        {errorCode !== 'unsupported' && (
+                            <button onClick={openCamera} className="bg-white/90 hover:bg-white text-text-main font-semibold py-1 px-3 rounded-lg flex items-center gap-1 transition">
+                                <RedoIcon className="w-4 h-4" />
+                                {t('common.retry')}
+                            </button>
+                        )}
+                    </div>
+                )}
+                {isCountingDown && (
+                    <div aria-live="assertive" className="absolute inset-0 flex items-center justify-center text-white text-8xl font-bold drop-shadow-lg">
+                        {remaining}
+                    </div>
+                )}
+            </div>
+            {captured ? (
+                <div className="flex gap-2">
+                    <button onClick={() => setCaptured(null)} className="flex-1 bg-white hover:bg-gray-100 border border-gray-300 text-text-main font-semibold py-2 px-4 rounded-lg transition">
+                        {t('camera.retake')}
+                    </button>
+                    <button onClick={handleUse} className="flex-1 bg-primary hover:bg-primary-focus text-white font-semibold py-2 px-4 rounded-lg transition">
+                        {t('camera.use')}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-2 items-center">
+                    <label className="flex items-center gap-2 text-sm text-text-main">
+                        <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} className="accent-primary" />
+                        {t('camera.mirror')}
+                    </label>
+                    <select
+                        value={countdownSeconds}
+                        onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+                        aria-label={t('camera.timer')}
+                        disabled={isCountingDown}
+                        className="bg-white/80 border border-gray-300 rounded-lg px-3 py-2 text-sm text-text-main focus:ring-2 focus:ring-primary focus:outline-none"
+                    >
+                        {COUNTDOWN_OPTIONS.map(seconds => (
+                            <option key={seconds} value={seconds}>{seconds === 0 ? t('camera.timerOff') : t('camera.timerSeconds', { seconds })}</option>
+                        ))}
+                    </select>
+                    {isCountingDown ? (
+                        <button onClick={() => setRemaining(null)} className="ml-auto bg-red-100 hover:bg-red-200 text-red-700 font-semibold py-2 px-4 rounded-lg transition">
+                            {t('common.cancel')}
+                        </button>
+                    ) : (
+                        <button onClick={() => setRemaining(countdownSeconds)} disabled={!isReady} className="ml-auto bg-primary hover:bg-primary-focus disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-6 rounded-lg transition">
+                            {t('camera.capture')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './components/I18nProvider';
+import { KioskProvider } from './components/KioskProvider';
+import { PromptTemplateProvider } from './components/PromptTemplateProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +14,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <KioskProvider>
+        <PromptTemplateProvider>
+          <App />
+        </PromptTemplateProvider>
+      </KioskProvider>
+    </I18nProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,340 @@
+import type { Messages } from './index';
+
+export const en: Messages = {
+    'app.title': 'Career Vision',
+    'app.subtitle': 'Upload a photo and discover your future career!',
+    'app.history': 'History',
+    'app.language': 'Language',
+    'common.close': 'Close',
+    'common.cancel': 'Cancel',
+    'common.retry': 'Try again',
+    'common.original': 'Original',
+    'common.originalAlt': 'Original image',
+    'common.uploadedPreviewAlt': 'Preview of the uploaded image',
+    'common.uploadNewImage': 'Upload a new image',
+    'common.careerPlaceholder': 'e.g. astronaut, chef, developer...',
+    'common.errorTitle': 'Something went wrong',
+
+    'provider.missingKeyTitle': 'No API key is configured',
+    'provider.missingKeyMessage': 'Set GEMINI_API_KEY in the server\'s .env.local, or try the offline demo mode.',
+    'provider.useMock': 'Use offline demo',
+
+    'upload.title': 'Upload a photo',
+    'upload.hint': 'Drag and drop a file, click to choose one, or paste with Ctrl+V',
+    'upload.dropHere': 'Drop it here',
+    'upload.noImage': 'No image file was found.',
+    'upload.unsupportedType': '{name}: only PNG, JPEG and WebP images can be used.',
+    'upload.tooLarge': '{name}: the file is too large. Please use one under {max} MB.',
+    'upload.useCamera': 'Take a photo',
+    'upload.preparing': 'Preparing image...',
+    'upload.readFailed': 'Could not read the image file.',
+    'upload.batchLink': 'Process many photos at once (class mode)',
+    'upload.otherImage': 'or upload a different image',
+
+    'camera.title': 'Take a photo',
+    'camera.starting': 'Starting the camera...',
+    'camera.previewAlt': 'Captured photo',
+    'camera.mirror': 'Mirror',
+    'camera.timer': 'Timer',
+    'camera.timerOff': 'No timer',
+    'camera.timerSeconds': '{seconds} s timer',
+    'camera.capture': 'Capture',
+    'camera.retake': 'Retake',
+    'camera.use': 'Use this photo',
+    'camera.error.unsupported': 'The camera is not available in this browser. Make sure the page is opened over HTTPS.',
+    'camera.error.denied': 'Camera access was denied. Please allow the camera in your browser settings.',
+    'camera.error.notFound': 'No camera was found.',
+    'camera.error.inUse': 'The camera could not be started. Check whether another app is using it.',
+    'camera.error.unknown': 'The camera could not be started.',
+
+    'preprocess.canvas': 'Could not create a canvas to process the image.',
+    'preprocess.unsupported': 'Unsupported image format ({type}). Please use a PNG, JPEG or WebP file.',
+    'preprocess.unknownType': 'unknown',
+    'preprocess.decode': 'Could not read the image. Please check whether the file is damaged.',
+
+    'mode.label': 'Generation mode',
+    'mode.single': 'One career',
+    'mode.compare': 'Compare careers',
+
+    'single.promptLabel': 'Enter a career (optional)',
+    'single.generateCareer': 'Create my vision',
+    'single.generateAuto': 'Analyse and create',
+    'single.loadingCareer': 'Turning you into a "{career}"...',
+    'single.loadingAuto': 'Analysing your potential...',
+    'single.loadingRetry': '{message} (retry {attempt})',
+
+    'careerInput.suggestions': 'Career suggestions',
+    'careerInput.didYouMean': 'Did you mean "{career}"?',
+    'careerInput.surprise': 'Surprise me',
+    'careerInput.surpriseCategory': 'Field',
+    'careerInput.anyCategory': 'Any field',
+    'career.category.healthcare': 'Healthcare',
+    'career.category.stem': 'Science & tech',
+    'career.category.arts': 'Arts & design',
+    'career.category.education': 'Education',
+    'career.category.publicService': 'Public service & law',
+    'career.category.business': 'Business & finance',
+    'career.category.service': 'Food, travel & services',
+    'career.category.sports': 'Sports',
+    'promptInput.tooLong': 'Please use {max} characters or fewer.',
+    'promptInput.invalidCharacters': 'Quotes, brackets, line breaks and similar symbols are not allowed.',
+    'promptInput.instructions': 'This reads like instructions to the AI. Please enter only a career or the change you want.',
+
+    'result.generated': 'AI generated',
+    'result.tryOther': 'Try another career',
+    'result.generate': 'Create',
+    'result.refineTitle': 'Refine the result',
+    'result.refinePlaceholder': 'e.g. make it night time, a bigger smile...',
+    'result.refine': 'Refine',
+    'result.refining': 'Applying "{instruction}"...',
+    'result.keySkills': 'Key skills',
+    'result.educationPath': 'Career path',
+    'result.relatedCareers': 'Related careers',
+    'result.download': 'Download image',
+    'result.downloadFinal': 'Download final pick ({title})',
+    'result.poster': 'Make a poster (PNG · PDF)',
+
+    'viewer.mode': 'Comparison view',
+    'viewer.mode.split': 'Slider',
+    'viewer.mode.onion': 'Onion skin',
+    'viewer.mode.side': 'Side by side',
+    'viewer.divider': 'Divider between the original and the AI image',
+    'viewer.opacity': 'AI image opacity',
+    'viewer.zoomIn': 'Zoom in',
+    'viewer.zoomOut': 'Zoom out',
+    'viewer.zoomReset': 'Reset zoom',
+    'viewer.zoomLevel': '{percent}%',
+    'viewer.zoomHint': 'Zoom with the wheel or the +/− buttons, then drag to pan. Both images move together.',
+    'viewer.export.title': 'Save the transformation',
+    'viewer.export.gif': 'Save GIF',
+    'viewer.export.webm': 'Save WebM video',
+    'viewer.export.progress': 'Creating... {percent}%',
+    'viewer.export.error.unsupported': 'This browser cannot record video. Try saving a GIF instead.',
+    'viewer.export.error.decode': 'An image could not be loaded, so the animation could not be made.',
+    'viewer.export.error.encode': 'The animation could not be created. Please try again.',
+
+    'chat.title': 'Ask more about "{career}"',
+    'chat.subtitle': 'Ask the AI career counsellor anything about this career. The conversation is saved to history with this result.',
+    'chat.starters': 'Try one of these to start',
+    'chat.starter.study': 'What should I study to get this job?',
+    'chat.starter.dayInLife': 'What is a typical day in this job really like?',
+    'chat.starter.skills': 'Which skills should I start building now?',
+    'chat.starter.related': 'Can you suggest similar careers?',
+    'chat.placeholder': 'e.g. Which school subjects matter most?',
+    'chat.send': 'Send',
+    'chat.stop': 'Stop',
+    'chat.you': 'You',
+    'chat.counsellor': 'AI career counsellor',
+    'chat.writing': 'Writing an answer...',
+
+    'versions.title': 'Versions',
+    'versions.undo': 'Undo',
+    'versions.redo': 'Redo',
+    'versions.compareSelected': 'Compare the two selected',
+    'versions.hint': 'Refining an earlier version starts a new branch. The starred version is the one downloaded.',
+    'versions.compareTitle': 'Compare versions',
+    'versions.selectForCompare': 'Select {title} for comparison',
+    'versions.refinedWith': 'Edit: {instruction}',
+    'versions.fromOriginal': 'Created from the original',
+    'versions.markFinal': 'Mark as final version',
+    'versions.unmarkFinal': 'Unmark final version',
+
+    'compare.listLabel': 'Enter {min} to {max} careers to compare',
+    'compare.remove': 'Remove {career}',
+    'compare.full': 'Maximum reached',
+    'compare.inputPlaceholder': 'Type a career and press Enter',
+    'compare.suggest': 'Suggest',
+    'compare.generateAll': 'Create all {count} careers',
+    'compare.loading': 'Creating...',
+    'compare.waiting': 'Waiting',
+    'compare.favourite': 'Add to favourites',
+    'compare.unfavourite': 'Remove from favourites',
+    'compare.showAll': 'Show all',
+    'compare.favouritesOnly': 'Favourites only ({count})',
+    'compare.editList': 'Edit career list',
+
+    'cropper.title': 'Choose the photo area',
+    'cropper.hint': 'Drag the square so your face is clearly visible. Photo metadata such as location is removed automatically.',
+    'cropper.previewAlt': 'Crop preview',
+    'cropper.area': 'Crop area',
+    'cropper.size': 'Size',
+    'cropper.useArea': 'Use this area',
+    'cropper.useWhole': 'Use without cropping',
+    'cropper.chooseOther': 'Choose another image',
+
+    'batch.title': 'Process class photos',
+    'batch.dropHint': 'Drop several photos or a folder here',
+    'batch.pickFiles': 'Choose photos',
+    'batch.pickFolder': 'Choose folder',
+    'batch.rejected': 'Skipped {count} unsupported files: {files}',
+    'batch.rejectedMore': '{files} and more',
+    'batch.dropFailed': 'Could not read the dropped files. Drop them again or use the file picker.',
+    'batch.sharedCareer': 'Career for everyone',
+    'batch.sharedCareerPlaceholder': 'Leave empty to let the AI choose for each photo',
+    'batch.rowCareerPlaceholder': 'AI chooses',
+    'batch.rowCareerLabel': 'Career for {file}',
+    'batch.remove': 'Remove from list',
+    'batch.start': 'Create {count} photos',
+    'batch.pause': 'Pause',
+    'batch.resume': 'Resume',
+    'batch.retryFailed': 'Retry {count} failed',
+    'batch.exportZip': 'Export ZIP',
+    'batch.exportPosters': 'Class poster PDF',
+    'batch.posterTitle': 'Career Vision class posters {date}',
+    'batch.progress': 'Progress {finished}/{total}',
+    'batch.summary': 'Done {done} · Failed {failed}',
+    'batch.exit': 'Back to one photo at a time',
+    'batch.status.pending': 'Pending',
+    'batch.status.queued': 'Queued',
+    'batch.status.processing': 'Creating',
+    'batch.status.done': 'Done',
+    'batch.status.failed': 'Failed',
+    'batch.status.cancelled': 'Cancelled',
+
+    'history.title': 'History',
+    'history.storageUnavailable': 'Storage information is not available.',
+    'history.storage': 'Storage',
+    'history.compareTitle': 'Compare sessions',
+    'history.noGenerations': 'No results yet.',
+    'history.select': 'Select {name}',
+    'history.open': 'Open {name}',
+    'history.generationCount': '{count} results',
+    'history.rename': 'Rename',
+    'history.delete': 'Delete',
+    'history.loadFailed': 'Could not load the history.',
+    'history.actionFailed': 'Could not save or load the history. Check that the browser has storage space left, then try again.',
+    'history.confirmClear': 'Delete all saved history? This cannot be undone.',
+    'history.compareSelected': 'Compare selected ({count}/2)',
+    'history.deleteSelected': 'Delete selected',
+    'history.clearAll': 'Delete all',
+    'history.empty': 'No saved history.',
+    'history.footnote': 'History is stored only in this browser. When space runs low, the oldest sessions are deleted automatically.',
+
+    'kiosk.open': 'Teacher settings',
+    'kiosk.title': 'Teacher settings (kiosk mode)',
+    'kiosk.setupHint': 'First time here? Set a PIN so students cannot change these settings.',
+    'kiosk.unlockHint': 'Enter the PIN to change the settings.',
+    'kiosk.pin': 'PIN',
+    'kiosk.newPin': 'New PIN',
+    'kiosk.confirmPin': 'Confirm PIN',
+    'kiosk.setPin': 'Set PIN',
+    'kiosk.unlock': 'Unlock',
+    'kiosk.changePin': 'Change PIN (leave empty to keep it)',
+    'kiosk.pinInvalid': 'The PIN must be {min} to {max} digits.',
+    'kiosk.pinMismatch': 'The two PINs do not match.',
+    'kiosk.pinWrong': 'That PIN is not correct.',
+    'kiosk.pinUnavailable': 'This browser cannot check the PIN. Make sure the page is opened over HTTPS.',
+    'kiosk.enabled': 'Use kiosk mode',
+    'kiosk.enabledHint': 'When on, the restrictions below apply and history and class mode are hidden.',
+    'kiosk.restrictCareers': 'Only allow selected careers',
+    'kiosk.selectAll': 'Select all',
+    'kiosk.selectNone': 'Select none',
+    'kiosk.allowedCount': '{count}/{total} allowed',
+    'kiosk.noCareersAllowed': 'Select at least one career to allow.',
+    'kiosk.maxGenerations': 'Maximum generations per session',
+    'kiosk.maxChatQuestions': 'Maximum chat questions per session',
+    'kiosk.zeroUnlimited': '0 means unlimited',
+    'kiosk.sessionUsage': 'This session has used {count} of {max} generations.',
+    'kiosk.sessionUsageUnlimited': 'This session has used {count} generations.',
+    'kiosk.sessionChatUsage': 'It has asked {count} of {max} chat questions.',
+    'kiosk.sessionChatUsageUnlimited': 'It has asked {count} chat questions.',
+    'kiosk.resetSession': 'Start a new session',
+    'kiosk.inactivityReset': 'Auto-reset after this many idle minutes',
+    'kiosk.zeroOff': '0 turns it off',
+    'kiosk.blockedTerms': 'Blocked terms',
+    'kiosk.blockedTermsPlaceholder': 'One per line',
+    'kiosk.blockedTermsHint': 'Careers and edit requests containing these are not generated. Case and spaces are ignored.',
+    'kiosk.export': 'Export settings',
+    'kiosk.import': 'Import settings',
+    'kiosk.imported': 'Settings loaded. Review them, then press Save.',
+    'kiosk.importInvalid': 'The settings file cannot be used: {reason}',
+    'kiosk.importFailed': 'Could not read the settings file.',
+    'kiosk.save': 'Save',
+    'kiosk.saved': 'Saved.',
+    'kiosk.saveFailed': 'Could not save the settings. Check the browser storage.',
+    'kiosk.remaining': '{count} more generations left in this session (of {max}).',
+    'kiosk.limitReached': 'All {max} generations for this session are used up. Ask your teacher to start a new session.',
+    'kiosk.chatRemaining': '{count} more questions left in this session (of {max}).',
+    'kiosk.chatLimitReached': 'All {max} questions for this session are used up.',
+    'kiosk.compareOverLimit': 'Only {count} generations are left. Remove some careers.',
+    'kiosk.violation.careerRequired': 'Pick a career from the list your teacher chose.',
+    'kiosk.violation.notAllowed': 'Your teacher has not allowed this career. Pick one from the suggestions.',
+    'kiosk.violation.blocked': 'This contains a word that is not allowed.',
+
+    'style.label': 'Style',
+    'style.realistic': 'Realistic',
+    'style.anime': 'Anime',
+    'style.watercolor': 'Watercolor',
+    'style.retroPoster': 'Retro poster',
+    'style.future20': 'In 20 years',
+    'template.label': 'Prompt template',
+    'template.standard': 'Standard',
+    'template.portrait': 'Portrait',
+    'template.action': 'At work',
+    'template.custom': 'Mine',
+    'template.untitled': 'Untitled template',
+    'template.removed': 'Deleted template',
+    'template.madeWith': 'Made with {details}',
+    'template.edit': 'Edit templates',
+    'template.editorTitle': 'Prompt templates',
+    'template.builtInReadOnly': 'Built-in templates cannot be changed. Make a copy and edit that instead.',
+    'template.name': 'Name',
+    'template.body': 'Image directions (English works best)',
+    'template.variable.career': 'The career. When the AI picks, this asks it to choose a fitting one.',
+    'template.variable.style': 'The selected style, e.g. watercolor',
+    'template.variable.setting': 'Scene details for catalog careers, otherwise a typical workplace',
+    'template.variable.age': 'Age framing, e.g. about 20 years older for "In 20 years"',
+    'template.issue.empty': 'Enter the image directions.',
+    'template.issue.tooLong': 'Keep it under {max} characters.',
+    'template.issue.missingCareer': 'The {career} placeholder is required.',
+    'template.issue.unknownVariable': 'Only the {career}, {style}, {setting} and {age} placeholders can be used.',
+    'template.nameRequired': 'Give the template a name.',
+    'template.copyName': 'Copy of {name}',
+    'template.limit': 'You can have up to {max} templates of your own.',
+    'template.duplicate': 'Copy as new',
+    'template.delete': 'Delete',
+    'template.confirmDelete': 'Delete the template "{name}"?',
+    'template.save': 'Save',
+    'template.saved': 'Saved.',
+    'template.saveFailed': 'Could not save the template. Check the browser storage.',
+    'template.use': 'Use this template',
+    'template.preview': 'Prompt that will be sent',
+    'template.previewCareer': 'Preview career',
+
+    'poster.title': 'Make a poster',
+    'poster.classTitle': 'Class posters ({count})',
+    'poster.layout': 'Poster layout',
+    'poster.template.portrait': 'Portrait (A4)',
+    'poster.template.landscape': 'Landscape (A4)',
+    'poster.template.square': 'Square (social)',
+    'poster.previewAlt': 'Poster preview',
+    'poster.previewFailed': 'Could not create the poster preview.',
+    'poster.exportFailed': 'Could not export the poster. Please try again.',
+    'poster.classHint': 'The preview shows the first student\'s poster. The PDF has one page per student.',
+    'poster.savePng': 'Save PNG',
+    'poster.savePdf': 'Save printable PDF',
+    'poster.exporting': 'Creating...',
+    'poster.heading': 'Career Vision AI',
+    'poster.before': 'Me now',
+    'poster.after': 'Future me',
+    'poster.skills': 'Key skills',
+
+    'error.blocked.title': 'The request was blocked',
+    'error.blocked.message': 'The photo or career was blocked by the content policy. Try a different photo or career.',
+    'error.safety.title': 'Stopped by the safety policy',
+    'error.safety.message': 'Try again with a different photo or different wording for the career.',
+    'error.incomplete.title': 'The result could not be completed',
+    'error.incomplete.message': 'The AI did not finish the image or the description. Please try again in a moment.',
+    'error.format.title': 'The analysis could not be read',
+    'error.format.message': 'The AI sent the description in a format the app cannot read. Please generate again.',
+    'error.network.title': 'Cannot reach the server',
+    'error.network.message': 'Check your internet connection and try again.',
+    'error.timeout.title': 'The request timed out',
+    'error.timeout.message': 'The request took too long. Try again or use a smaller photo.',
+    'error.quota.title': 'Usage limit reached',
+    'error.quota.message': 'Wait a moment and try again. If it keeps happening, ask an administrator to check the API usage.',
+    'error.cancelled.title': 'Generation cancelled',
+    'error.cancelled.message': 'You can create it again at any time.',
+    'error.unknown.title': 'An unknown error occurred',
+    'error.unknown.message': 'Please try again in a moment.',
+};
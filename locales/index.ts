@@ -0,0 +1,8 @@
+import type { Locale } from '../services/i18n';
+import { en } from './en';
+import { ko } from './ko';
+
+export type MessageKey = keyof typeof ko;
+export type Messages = Record<MessageKey, string>;
+
+export const MESSAGES: Record<Locale, Messages> = { ko, en };
@@ -0,0 +1,342 @@
+/**
+ * Korean UI copy. This catalog is the reference: its keys define `MessageKey`,
+ * and every other locale must provide the same keys.
+ */
+export const ko = {
+    'app.title': '커리어 비전',
+    'app.subtitle': '사진을 업로드하여 당신의 미래 직업을 확인해보세요!',
+    'app.history': '기록',
+    'app.language': '언어',
+    'common.close': '닫기',
+    'common.cancel': '취소',
+    'common.retry': '다시 시도',
+    'common.original': '원본',
+    'common.originalAlt': '원본 이미지',
+    'common.uploadedPreviewAlt': '업로드된 이미지 미리보기',
+    'common.uploadNewImage': '새 이미지 업로드',
+    'common.careerPlaceholder': '예: 우주비행사, 셰프, 개발자...',
+    'common.errorTitle': '오류가 발생했습니다',
+
+    'provider.missingKeyTitle': 'API 키가 설정되지 않았습니다',
+    'provider.missingKeyMessage': '서버의 .env.local에 GEMINI_API_KEY를 설정하거나 오프라인 데모 모드로 체험해보세요.',
+    'provider.useMock': '오프라인 데모 사용',
+
+    'upload.title': '사진 업로드',
+    'upload.hint': '파일을 끌어다 놓거나, 클릭해서 고르거나, Ctrl+V로 붙여넣으세요',
+    'upload.dropHere': '여기에 놓으세요',
+    'upload.noImage': '이미지 파일을 찾지 못했어요.',
+    'upload.unsupportedType': '{name}: PNG, JPEG, WebP 이미지만 올릴 수 있어요.',
+    'upload.tooLarge': '{name}: 파일이 너무 커요. {max}MB 이하로 올려주세요.',
+    'upload.useCamera': '카메라로 촬영',
+    'upload.preparing': '이미지 준비 중...',
+    'upload.readFailed': '이미지 파일을 읽는데 실패했습니다.',
+    'upload.batchLink': '여러 장을 한꺼번에 처리하기 (학급 모드)',
+    'upload.otherImage': '또는 다른 이미지 업로드',
+
+    'camera.title': '카메라로 촬영',
+    'camera.starting': '카메라를 켜는 중...',
+    'camera.previewAlt': '촬영한 사진',
+    'camera.mirror': '좌우 반전',
+    'camera.timer': '타이머',
+    'camera.timerOff': '바로 촬영',
+    'camera.timerSeconds': '{seconds}초 후 촬영',
+    'camera.capture': '촬영',
+    'camera.retake': '다시 찍기',
+    'camera.use': '이 사진 사용',
+    'camera.error.unsupported': '이 브라우저에서는 카메라를 사용할 수 없어요. HTTPS 주소로 접속했는지 확인해주세요.',
+    'camera.error.denied': '카메라 권한이 거부되었어요. 브라우저 설정에서 카메라를 허용해주세요.',
+    'camera.error.notFound': '사용할 수 있는 카메라가 없어요.',
+    'camera.error.inUse': '카메라를 켤 수 없어요. 다른 앱이 카메라를 사용 중인지 확인해주세요.',
+    'camera.error.unknown': '카메라를 시작하지 못했어요.',
+
+    'preprocess.canvas': '이미지를 처리할 캔버스를 만들 수 없습니다.',
+    'preprocess.unsupported': '지원하지 않는 이미지 형식입니다 ({type}). PNG, JPEG, WebP 파일을 사용해주세요.',
+    'preprocess.unknownType': '알 수 없음',
+    'preprocess.decode': '이미지를 읽을 수 없습니다. 파일이 손상되었는지 확인해주세요.',
+
+    'mode.label': '생성 모드',
+    'mode.single': '직업 하나',
+    'mode.compare': '여러 직업 비교',
+
+    'single.promptLabel': '원하는 직업을 입력하세요 (선택 사항)',
+    'single.generateCareer': '비전 생성하기',
+    'single.generateAuto': '분석 및 생성',
+    'single.loadingCareer': '"{career}"(으)로 변신 중...',
+    'single.loadingAuto': '당신의 잠재력을 분석 중입니다...',
+    'single.loadingRetry': '{message} (재시도 {attempt}회)',
+
+    'careerInput.suggestions': '직업 추천 목록',
+    'careerInput.didYouMean': '혹시 "{career}"을(를) 찾으셨나요?',
+    'careerInput.surprise': '랜덤 추천',
+    'careerInput.surpriseCategory': '추천 분야',
+    'careerInput.anyCategory': '모든 분야',
+    'career.category.healthcare': '의료·보건',
+    'career.category.stem': '과학·기술',
+    'career.category.arts': '예술·디자인',
+    'career.category.education': '교육',
+    'career.category.publicService': '공공·법률',
+    'career.category.business': '경영·금융',
+    'career.category.service': '요리·여행·서비스',
+    'career.category.sports': '스포츠',
+    'promptInput.tooLong': '{max}자 이내로 입력해주세요.',
+    'promptInput.invalidCharacters': '따옴표, 괄호 기호, 줄바꿈 같은 특수 문자는 사용할 수 없어요.',
+    'promptInput.instructions': 'AI에게 내리는 지시문처럼 보여요. 직업이나 바꾸고 싶은 점만 입력해주세요.',
+
+    'result.generated': 'AI 생성',
+    'result.tryOther': '다른 직업으로 시도해보기',
+    'result.generate': '생성하기',
+    'result.refineTitle': '결과 다듬기',
+    'result.refinePlaceholder': '예: 배경을 밤으로, 더 웃는 얼굴로...',
+    'result.refine': '수정하기',
+    'result.refining': '"{instruction}" 반영 중...',
+    'result.keySkills': '핵심 역량',
+    'result.educationPath': '진로 경로',
+    'result.relatedCareers': '관련 직업',
+    'result.download': '이미지 다운로드',
+    'result.downloadFinal': '최종 선택 다운로드 ({title})',
+    'result.poster': '포스터 만들기 (PNG · PDF)',
+
+    'viewer.mode': '비교 방식',
+    'viewer.mode.split': '슬라이더',
+    'viewer.mode.onion': '겹쳐 보기',
+    'viewer.mode.side': '나란히',
+    'viewer.divider': '원본과 AI 생성 이미지의 경계',
+    'viewer.opacity': 'AI 생성 이미지 투명도',
+    'viewer.zoomIn': '확대',
+    'viewer.zoomOut': '축소',
+    'viewer.zoomReset': '원래 크기로',
+    'viewer.zoomLevel': '{percent}%',
+    'viewer.zoomHint': '휠이나 +/− 버튼으로 확대하고, 확대한 뒤에는 끌어서 움직여요. 두 이미지가 함께 움직입니다.',
+    'viewer.export.title': '변신 애니메이션 저장',
+    'viewer.export.gif': 'GIF 저장',
+    'viewer.export.webm': 'WebM 영상 저장',
+    'viewer.export.progress': '만드는 중... {percent}%',
+    'viewer.export.error.unsupported': '이 브라우저에서는 영상을 녹화할 수 없어요. GIF로 저장해보세요.',
+    'viewer.export.error.decode': '이미지를 불러오지 못해 애니메이션을 만들 수 없어요.',
+    'viewer.export.error.encode': '애니메이션을 만들지 못했어요. 다시 시도해주세요.',
+
+    'chat.title': '"{career}"에 대해 더 물어보기',
+    'chat.subtitle': 'AI 진로 상담사에게 궁금한 점을 물어보세요. 대화는 이 결과와 함께 기록에 저장돼요.',
+    'chat.starters': '이런 질문으로 시작해보세요',
+    'chat.starter.study': '이 직업을 가지려면 무엇을 공부해야 하나요?',
+    'chat.starter.dayInLife': '이 직업의 하루는 실제로 어떤가요?',
+    'chat.starter.skills': '지금부터 어떤 역량을 키우면 좋을까요?',
+    'chat.starter.related': '비슷한 다른 직업도 알려주세요.',
+    'chat.placeholder': '예: 어떤 과목이 가장 중요해요?',
+    'chat.send': '보내기',
+    'chat.stop': '멈추기',
+    'chat.you': '나',
+    'chat.counsellor': 'AI 진로 상담사',
+    'chat.writing': '답변을 쓰는 중...',
+
+    'versions.title': '버전 기록',
+    'versions.undo': '실행 취소',
+    'versions.redo': '다시 실행',
+    'versions.compareSelected': '선택한 두 버전 비교',
+    'versions.hint': '이전 버전을 선택한 뒤 수정하면 새 갈래가 만들어집니다. 별표한 버전이 다운로드됩니다.',
+    'versions.compareTitle': '버전 비교',
+    'versions.selectForCompare': '{title} 비교 대상으로 선택',
+    'versions.refinedWith': '수정: {instruction}',
+    'versions.fromOriginal': '원본에서 생성',
+    'versions.markFinal': '최종 버전으로 선택',
+    'versions.unmarkFinal': '최종 선택 해제',
+
+    'compare.listLabel': '비교할 직업을 {min}~{max}개 입력하세요',
+    'compare.remove': '{career} 삭제',
+    'compare.full': '최대 개수에 도달했습니다',
+    'compare.inputPlaceholder': '직업 입력 후 Enter',
+    'compare.suggest': '자동 추천',
+    'compare.generateAll': '{count}개 직업 모두 생성하기',
+    'compare.loading': '생성 중...',
+    'compare.waiting': '대기 중',
+    'compare.favourite': '즐겨찾기',
+    'compare.unfavourite': '즐겨찾기 해제',
+    'compare.showAll': '전체 보기',
+    'compare.favouritesOnly': '즐겨찾기만 보기 ({count})',
+    'compare.editList': '직업 목록 수정',
+
+    'cropper.title': '사진 영역 선택',
+    'cropper.hint': '얼굴이 잘 보이도록 정사각형 영역을 끌어서 맞춰주세요. 위치 정보 등 사진의 메타데이터는 자동으로 제거됩니다.',
+    'cropper.previewAlt': '자르기 미리보기',
+    'cropper.area': '자르기 영역',
+    'cropper.size': '크기',
+    'cropper.useArea': '이 영역 사용',
+    'cropper.useWhole': '자르지 않고 사용',
+    'cropper.chooseOther': '다른 이미지 선택',
+
+    'batch.title': '학급 사진 일괄 처리',
+    'batch.dropHint': '여러 장의 사진이나 폴더를 여기에 끌어다 놓으세요',
+    'batch.pickFiles': '사진 선택',
+    'batch.pickFolder': '폴더 선택',
+    'batch.rejected': '지원하지 않는 파일 {count}개를 건너뛰었습니다: {files}',
+    'batch.rejectedMore': '{files} 외',
+    'batch.dropFailed': '끌어다 놓은 파일을 읽지 못했어요. 다시 놓거나 파일 선택 버튼을 사용해주세요.',
+    'batch.sharedCareer': '공통 직업',
+    'batch.sharedCareerPlaceholder': '비워두면 사진마다 AI가 직업을 선택합니다',
+    'batch.rowCareerPlaceholder': 'AI가 선택',
+    'batch.rowCareerLabel': '{file} 직업',
+    'batch.remove': '목록에서 제거',
+    'batch.start': '{count}장 생성 시작',
+    'batch.pause': '일시정지',
+    'batch.resume': '재개',
+    'batch.retryFailed': '실패 {count}장 다시 시도',
+    'batch.exportZip': 'ZIP 내보내기',
+    'batch.exportPosters': '학급 포스터 PDF',
+    'batch.posterTitle': '커리어 비전 학급 포스터 {date}',
+    'batch.progress': '진행률 {finished}/{total}',
+    'batch.summary': '완료 {done} · 실패 {failed}',
+    'batch.exit': '한 장씩 처리하기로 돌아가기',
+    'batch.status.pending': '대기',
+    'batch.status.queued': '순서 대기 중',
+    'batch.status.processing': '생성 중',
+    'batch.status.done': '완료',
+    'batch.status.failed': '실패',
+    'batch.status.cancelled': '취소됨',
+
+    'history.title': '기록',
+    'history.storageUnavailable': '저장 공간 정보를 확인할 수 없습니다.',
+    'history.storage': '저장 공간',
+    'history.compareTitle': '세션 비교',
+    'history.noGenerations': '생성된 결과가 없습니다.',
+    'history.select': '{name} 선택',
+    'history.open': '{name} 열기',
+    'history.generationCount': '결과 {count}개',
+    'history.rename': '이름 변경',
+    'history.delete': '삭제',
+    'history.loadFailed': '기록을 불러오지 못했습니다.',
+    'history.actionFailed': '기록을 저장하거나 불러오지 못했습니다. 저장 공간이 부족하지 않은지 확인한 뒤 다시 시도해 주세요.',
+    'history.confirmClear': '저장된 모든 기록을 삭제할까요? 이 작업은 되돌릴 수 없습니다.',
+    'history.compareSelected': '선택 비교 ({count}/2)',
+    'history.deleteSelected': '선택 삭제',
+    'history.clearAll': '전체 삭제',
+    'history.empty': '저장된 기록이 없습니다.',
+    'history.footnote': '기록은 이 브라우저에만 저장되며, 공간이 부족하면 가장 오래된 기록부터 자동으로 삭제됩니다.',
+
+    'kiosk.open': '교사 설정',
+    'kiosk.title': '교사 설정 (키오스크 모드)',
+    'kiosk.setupHint': '처음 사용하시네요. 학생이 설정을 바꾸지 못하도록 먼저 PIN을 정해주세요.',
+    'kiosk.unlockHint': '설정을 바꾸려면 PIN을 입력하세요.',
+    'kiosk.pin': 'PIN',
+    'kiosk.newPin': '새 PIN',
+    'kiosk.confirmPin': 'PIN 확인',
+    'kiosk.setPin': 'PIN 설정',
+    'kiosk.unlock': '잠금 해제',
+    'kiosk.changePin': 'PIN 변경 (바꾸지 않으려면 비워두세요)',
+    'kiosk.pinInvalid': 'PIN은 숫자 {min}~{max}자리여야 해요.',
+    'kiosk.pinMismatch': '두 PIN이 서로 달라요.',
+    'kiosk.pinWrong': 'PIN이 올바르지 않아요.',
+    'kiosk.pinUnavailable': '이 브라우저에서는 PIN을 확인할 수 없어요. HTTPS 주소로 접속했는지 확인해주세요.',
+    'kiosk.enabled': '키오스크 모드 사용',
+    'kiosk.enabledHint': '켜면 아래 제한이 적용되고, 기록과 학급 모드는 숨겨집니다.',
+    'kiosk.restrictCareers': '허용한 직업만 생성하기',
+    'kiosk.selectAll': '모두 선택',
+    'kiosk.selectNone': '모두 해제',
+    'kiosk.allowedCount': '{count}/{total}개 허용',
+    'kiosk.noCareersAllowed': '허용할 직업을 하나 이상 선택해주세요.',
+    'kiosk.maxGenerations': '세션당 최대 생성 횟수',
+    'kiosk.maxChatQuestions': '세션당 최대 질문 횟수',
+    'kiosk.zeroUnlimited': '0이면 제한 없음',
+    'kiosk.sessionUsage': '이번 세션에서 {max}번 중 {count}번 생성했어요.',
+    'kiosk.sessionUsageUnlimited': '이번 세션에서 {count}번 생성했어요.',
+    'kiosk.sessionChatUsage': '상담 질문은 {max}번 중 {count}번 했어요.',
+    'kiosk.sessionChatUsageUnlimited': '상담 질문은 {count}번 했어요.',
+    'kiosk.resetSession': '새 세션 시작',
+    'kiosk.inactivityReset': '자동 초기화 (분 동안 사용이 없으면)',
+    'kiosk.zeroOff': '0이면 사용 안 함',
+    'kiosk.blockedTerms': '금지어',
+    'kiosk.blockedTermsPlaceholder': '한 줄에 하나씩 입력',
+    'kiosk.blockedTermsHint': '직업이나 수정 요청에 포함되면 생성하지 않아요. 대소문자와 띄어쓰기는 구분하지 않습니다.',
+    'kiosk.export': '설정 내보내기',
+    'kiosk.import': '설정 가져오기',
+    'kiosk.imported': '설정을 불러왔어요. 확인한 뒤 저장을 눌러주세요.',
+    'kiosk.importInvalid': '설정 파일을 읽을 수 없어요: {reason}',
+    'kiosk.importFailed': '설정 파일을 읽지 못했어요.',
+    'kiosk.save': '저장',
+    'kiosk.saved': '저장했어요.',
+    'kiosk.saveFailed': '설정을 저장하지 못했어요. 브라우저 저장 공간을 확인해주세요.',
+    'kiosk.remaining': '이번 세션에서 {count}번 더 생성할 수 있어요 (최대 {max}번).',
+    'kiosk.limitReached': '이번 세션에서 생성할 수 있는 횟수({max}번)를 모두 사용했어요. 선생님께 새 세션을 요청해주세요.',
+    'kiosk.chatRemaining': '이번 세션에서 {count}번 더 질문할 수 있어요 (최대 {max}번).',
+    'kiosk.chatLimitReached': '이번 세션에서 할 수 있는 질문({max}번)을 모두 사용했어요.',
+    'kiosk.compareOverLimit': '남은 생성 횟수는 {count}번이에요. 직업 수를 줄여주세요.',
+    'kiosk.violation.careerRequired': '선생님이 정한 목록에서 직업을 골라주세요.',
+    'kiosk.violation.notAllowed': '선생님이 허용한 직업이 아니에요. 추천 목록에서 골라주세요.',
+    'kiosk.violation.blocked': '사용할 수 없는 단어가 들어 있어요.',
+
+    'style.label': '스타일',
+    'style.realistic': '사실적인 사진',
+    'style.anime': '애니메이션',
+    'style.watercolor': '수채화',
+    'style.retroPoster': '레트로 포스터',
+    'style.future20': '20년 후의 나',
+    'template.label': '프롬프트 템플릿',
+    'template.standard': '기본',
+    'template.portrait': '증명사진 구도',
+    'template.action': '일하는 모습',
+    'template.custom': '내 템플릿',
+    'template.untitled': '이름 없는 템플릿',
+    'template.removed': '삭제된 템플릿',
+    'template.madeWith': '{details}(으)로 생성',
+    'template.edit': '템플릿 편집',
+    'template.editorTitle': '프롬프트 템플릿',
+    'template.builtInReadOnly': '기본 템플릿은 수정할 수 없어요. 복사한 뒤 내 템플릿으로 고쳐 쓰세요.',
+    'template.name': '이름',
+    'template.body': '이미지 지시문 (영어로 쓰는 것을 권장해요)',
+    'template.variable.career': '직업. AI가 고를 때는 "어울리는 직업을 직접 골라"라는 문장이 들어가요.',
+    'template.variable.style': '선택한 스타일 (예: 수채화)',
+    'template.variable.setting': '직업 목록에 있는 장면 묘사, 없으면 일반적인 일터',
+    'template.variable.age': '나이 표현 (예: "20년 후의 나"는 20살 정도 많게)',
+    'template.issue.empty': '지시문을 입력해주세요.',
+    'template.issue.tooLong': '{max}자 이내로 입력해주세요.',
+    'template.issue.missingCareer': '{career} 자리를 꼭 넣어주세요.',
+    'template.issue.unknownVariable': '{career}, {style}, {setting}, {age} 외의 자리 표시는 쓸 수 없어요.',
+    'template.nameRequired': '템플릿 이름을 입력해주세요.',
+    'template.copyName': '{name} 사본',
+    'template.limit': '내 템플릿은 {max}개까지 만들 수 있어요.',
+    'template.duplicate': '복사해서 새로 만들기',
+    'template.delete': '삭제',
+    'template.confirmDelete': '"{name}" 템플릿을 삭제할까요?',
+    'template.save': '저장',
+    'template.saved': '저장했어요.',
+    'template.saveFailed': '템플릿을 저장하지 못했어요. 브라우저 저장 공간을 확인해주세요.',
+    'template.use': '이 템플릿 사용',
+    'template.preview': '실제로 보내는 프롬프트',
+    'template.previewCareer': '미리보기 직업',
+
+    'poster.title': '포스터 만들기',
+    'poster.classTitle': '학급 포스터 ({count}장)',
+    'poster.layout': '포스터 레이아웃',
+    'poster.template.portrait': '세로 (A4)',
+    'poster.template.landscape': '가로 (A4)',
+    'poster.template.square': '정사각형 (SNS)',
+    'poster.previewAlt': '포스터 미리보기',
+    'poster.previewFailed': '포스터 미리보기를 만들지 못했습니다.',
+    'poster.exportFailed': '포스터를 내보내지 못했습니다. 다시 시도해주세요.',
+    'poster.classHint': '미리보기는 첫 번째 학생의 포스터입니다. PDF에는 한 사람당 한 페이지씩 들어갑니다.',
+    'poster.savePng': 'PNG 저장',
+    'poster.savePdf': '인쇄용 PDF 저장',
+    'poster.exporting': '만드는 중...',
+    'poster.heading': '커리어 비전 AI',
+    'poster.before': '지금의 나',
+    'poster.after': '미래의 나',
+    'poster.skills': '핵심 역량',
+
+    'error.blocked.title': '요청이 차단되었습니다',
+    'error.blocked.message': '사진이나 입력한 직업이 정책에 의해 차단되었어요. 다른 사진이나 직업으로 시도해보세요.',
+    'error.safety.title': '안전 정책으로 생성이 중단되었습니다',
+    'error.safety.message': '다른 사진을 사용하거나 직업 표현을 바꿔서 다시 시도해주세요.',
+    'error.incomplete.title': '결과를 완성하지 못했습니다',
+    'error.incomplete.message': 'AI가 이미지나 설명을 끝까지 만들지 못했어요. 잠시 후 다시 시도해주세요.',
+    'error.format.title': '분석 결과를 읽지 못했습니다',
+    'error.format.message': 'AI가 보낸 설명의 형식이 올바르지 않았어요. 다시 생성해주세요.',
+    'error.network.title': '서버에 연결할 수 없습니다',
+    'error.network.message': '인터넷 연결을 확인한 뒤 다시 시도해주세요.',
+    'error.timeout.title': '응답 시간이 초과되었습니다',
+    'error.timeout.message': '요청이 너무 오래 걸렸어요. 다시 시도하거나 더 작은 사진을 사용해보세요.',
+    'error.quota.title': '사용량 한도에 도달했습니다',
+    'error.quota.message': '잠시 기다린 뒤 다시 시도해주세요. 계속되면 관리자에게 API 사용량 확인을 요청하세요.',
+    'error.cancelled.title': '생성을 취소했습니다',
+    'error.cancelled.message': '언제든 다시 생성할 수 있어요.',
+    'error.unknown.title': '알 수 없는 오류가 발생했습니다',
+    'error.unknown.message': '잠시 후 다시 시도해주세요.',
+};
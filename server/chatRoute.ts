@@ -0,0 +1,167 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CareerAnalysis } from '../types';
+import { toGenerationError } from '../services/generationErrors';
+import { isLocale, SUPPORTED_LOCALES } from '../services/i18n';
+import { validateChatQuestion } from '../services/promptInput';
+import {
+    MAX_CHAT_CONTEXT_FIELD_LENGTH,
+    MAX_CHAT_CONTEXT_LIST_ITEMS,
+    MAX_CHAT_HISTORY_MESSAGES,
+    MAX_CHAT_MESSAGE_LENGTH,
+    type ChatTurn,
+} from '../services/careerChat';
+import { type CareerVisionProvider, type ChatRequestBody, type ChatStreamEvent } from '../services/careerVisionProvider';
+import { HttpError, PROMPT_ISSUE_MESSAGES, readBody, sendError, STATUS_BY_ERROR_KIND } from './http';
+
+/** Chat requests carry text only, so they get a much smaller limit than uploads. */
+export const DEFAULT_CHAT_MAX_BODY_BYTES = 256 * 1024;
+
+export interface ChatRouteOptions {
+    provider: CareerVisionProvider;
+    maxBodyBytes?: number;
+}
+
+const CAREER_TEXT_FIELDS = ['title', 'description', 'confidenceNote'] as const;
+const CAREER_LIST_FIELDS = ['keySkills', 'educationPath', 'relatedCareers'] as const;
+
+const parseCareer = (value: unknown): CareerAnalysis => {
+    if (!value || typeof value !== 'object') {
+        throw new HttpError(400, "Request body must include a 'career' object.");
+    }
+    const raw = value as Record<string, unknown>;
+    for (const field of CAREER_TEXT_FIELDS) {
+        const text = raw[field];
+        if (typeof text !== 'string' || text.length > MAX_CHAT_CONTEXT_FIELD_LENGTH) {
+            throw new HttpError(400, `'career.${field}' must be a string of at most ${MAX_CHAT_CONTEXT_FIELD_LENGTH} characters.`);
+        }
+    }
+    for (const field of CAREER_LIST_FIELDS) {
+        const list = raw[field];
+        if (!Array.isArray(list) || list.length > MAX_CHAT_CONTEXT_LIST_ITEMS
+            || !list.every(item => typeof item === 'string' && item.length <= MAX_CHAT_CONTEXT_FIELD_LENGTH)) {
+            throw new HttpError(400, `'career.${field}' must be a list of at most ${MAX_CHAT_CONTEXT_LIST_ITEMS} strings.`);
+        }
+    }
+    if (!(raw.title as string).trim()) {
+        throw new HttpError(400, "'career.title' must not be empty.");
+    }
+    return {
+        title: raw.title as string,
+        description: raw.description as string,
+        keySkills: raw.keySkills as string[],
+        educationPath: raw.educationPath as string[],
+        relatedCareers: raw.relatedCareers as string[],
+        confidenceNote: raw.confidenceNote as string,
+    };
+};
+
+const parseHistory = (value: unknown): ChatTurn[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.length > MAX_CHAT_HISTORY_MESSAGES) {
+        throw new HttpError(400, `'history' must be a list of at most ${MAX_CHAT_HISTORY_MESSAGES} turns.`);
+    }
+    return value.map((turn: unknown, index) => {
+        const raw = (turn ?? {}) as Record<string, unknown>;
+        if ((raw.role !== 'user' && raw.role !== 'model') || typeof raw.text !== 'string' || raw.text.length > MAX_CHAT_MESSAGE_LENGTH) {
+            throw new HttpError(400, `'history[${index}]' must have a 'role' of 'user' or 'model' and a 'text' of at most ${MAX_CHAT_MESSAGE_LENGTH} characters.`);
+        }
+        return { role: raw.role, text: raw.text };
+    });
+};
+
+const parseRequestBody = (raw: string): ChatRequestBody => {
+    let body: Partial<ChatRequestBody>;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+    if (!body || typeof body !== 'object') {
+        throw new HttpError(400, 'Request body must be a JSON object.');
+    }
+    if (typeof body.question !== 'string' || !body.question.trim()) {
+        throw new HttpError(400, "Request body must include a non-empty 'question' string.");
+    }
+    const questionIssue = validateChatQuestion(body.question);
+    if (questionIssue) {
+        throw new HttpError(400, `'question' ${PROMPT_ISSUE_MESSAGES[questionIssue]}.`);
+    }
+    if (body.locale !== undefined && !isLocale(body.locale)) {
+        throw new HttpError(400, `'locale' must be one of: ${SUPPORTED_LOCALES.join(', ')}.`);
+    }
+    return {
+        career: parseCareer(body.career),
+        history: parseHistory(body.history),
+        question: body.question.trim(),
+        locale: body.locale,
+    };
+};
+
+const writeEvent = (res: ServerResponse, event: ChatStreamEvent): void => {
+    res.write(`${JSON.stringify(event)}\n`);
+};
+
+/**
+ * Handles `POST /api/chat`: validates the question and streams the answer as
+ * newline-delimited JSON. The status is only sent once the first piece of the
+ * answer is ready, so failures before that get a normal error response.
+ */
+export const createChatRoute = ({ provider, maxBodyBytes = DEFAULT_CHAT_MAX_BODY_BYTES }: ChatRouteOptions) =>
+    async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendError(res, 405, 'Method not allowed.');
+            return;
+        }
+        if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+            sendError(res, 415, 'Content-Type must be application/json.');
+            return;
+        }
+        if (!(await provider.isConfigured())) {
+            sendError(res, 503, 'API_KEY environment variable is not set');
+            return;
+        }
+
+        let request: ChatRequestBody;
+        try {
+            request = parseRequestBody(await readBody(req, maxBodyBytes));
+        } catch (e) {
+            if (e instanceof HttpError) {
+                sendError(res, e.status, e.message);
+                return;
+            }
+            throw e;
+        }
+
+        const controller = new AbortController();
+        const abortOnDisconnect = () => {
+            if (!res.writableEnded) controller.abort();
+        };
+        res.on('close', abortOnDisconnect);
+
+        const iterator = provider.streamChat({ ...request, signal: controller.signal })[Symbol.asyncIterator]();
+        try {
+            let step = await iterator.next();
+            res.writeHead(200, {
+                'Content-Type': 'application/x-ndjson; charset=utf-8',
+                'Cache-Control': 'no-cache',
+                // Keeps reverse proxies such as nginx from holding the stream back.
+                'X-Accel-Buffering': 'no',
+            });
+            for (; !step.done; step = await iterator.next()) {
+                writeEvent(res, { text: step.value });
+            }
+            res.end();
+        } catch (e) {
+            const error = toGenerationError(e);
+            if (error.kind === 'cancelled' && res.destroyed) return;
+            if (res.headersSent) {
+                writeEvent(res, { error: error.message, code: error.kind });
+                res.end();
+            } else {
+                sendError(res, STATUS_BY_ERROR_KIND[error.kind], error.message, error.kind);
+            }
+        } finally {
+            res.off('close', abortOnDisconnect);
+        }
+    };
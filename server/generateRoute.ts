@@ -0,0 +1,160 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { toGenerationError } from '../services/generationErrors';
+import { isLocale, SUPPORTED_LOCALES } from '../services/i18n';
+import { validateCareerInput, validateInstruction } from '../services/promptInput';
+import { findBuiltInTemplate, isStyleId, STYLE_IDS, validateTemplateBody, type PromptTemplate, type PromptTemplateIssue } from '../services/promptTemplates';
+import {
+    ALLOWED_IMAGE_MIME_TYPES,
+    type CareerVisionProvider,
+    type GenerateRequestBody,
+} from '../services/careerVisionProvider';
+import { HttpError, PROMPT_ISSUE_MESSAGES, readBody, sendError, sendJson, STATUS_BY_ERROR_KIND } from './http';
+
+export const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface GenerateRouteOptions {
+    provider: CareerVisionProvider;
+    maxBodyBytes?: number;
+    allowedMimeTypes?: readonly string[];
+}
+
+const TEMPLATE_ISSUE_MESSAGES: Record<PromptTemplateIssue, string> = {
+    empty: 'is empty',
+    tooLong: 'is too long',
+    missingCareer: "must contain the '{career}' placeholder",
+    unknownVariable: 'uses a placeholder other than {career}, {style}, {setting} and {age}',
+};
+
+const parseRequestBody = (raw: string, allowedMimeTypes: readonly string[]): GenerateRequestBody => {
+    let body: Partial<GenerateRequestBody>;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+
+    if (!body || typeof body.image !== 'string' || typeof body.mimeType !== 'string') {
+        throw new HttpError(400, "Request body must include 'image' and 'mimeType' strings.");
+    }
+    if (body.prompt !== undefined && typeof body.prompt !== 'string') {
+        throw new HttpError(400, "'prompt' must be a string.");
+    }
+    if (body.instruction !== undefined && typeof body.instruction !== 'string') {
+        throw new HttpError(400, "'instruction' must be a string.");
+    }
+    // A refinement's prompt is the earlier result's title, which the provider sanitises; only typed text is validated.
+    const typedField = body.instruction?.trim() ? 'instruction' : 'prompt';
+    const promptIssue = typedField === 'instruction' ? validateInstruction(body.instruction ?? '') : validateCareerInput(body.prompt ?? '');
+    if (promptIssue) {
+        throw new HttpError(400, `'${typedField}' ${PROMPT_ISSUE_MESSAGES[promptIssue]}.`);
+    }
+    if (body.locale !== undefined && !isLocale(body.locale)) {
+        throw new HttpError(400, `'locale' must be one of: ${SUPPORTED_LOCALES.join(', ')}.`);
+    }
+    if (body.style !== undefined && !isStyleId(body.style)) {
+        throw new HttpError(400, `'style' must be one of: ${STYLE_IDS.join(', ')}.`);
+    }
+    if (body.templateId !== undefined && typeof body.templateId !== 'string') {
+        throw new HttpError(400, "'templateId' must be a string.");
+    }
+    if (body.templateBody !== undefined) {
+        if (typeof body.templateBody !== 'string') {
+            throw new HttpError(400, "'templateBody' must be a string.");
+        }
+        const templateIssue = validateTemplateBody(body.templateBody);
+        if (templateIssue) {
+            throw new HttpError(400, `'templateBody' ${TEMPLATE_ISSUE_MESSAGES[templateIssue]}.`);
+        }
+    } else if (body.templateId !== undefined && !findBuiltInTemplate(body.templateId)) {
+        throw new HttpError(400, `Unknown template '${body.templateId}'; send 'templateBody' for a custom template.`);
+    }
+    if (!allowedMimeTypes.includes(body.mimeType)) {
+        throw new HttpError(400, `Unsupported image type '${body.mimeType}'. Allowed: ${allowedMimeTypes.join(', ')}.`);
+    }
+
+    // The data URL header must agree with the declared type, otherwise the type check above means nothing.
+    const dataUrlMatch = body.image.match(/^data:([^;,]+);base64,/);
+    if (!dataUrlMatch) {
+        throw new HttpError(400, "'image' must be a base64 data URL.");
+    }
+    if (dataUrlMatch[1] !== body.mimeType) {
+        throw new HttpError(400, `Image data is '${dataUrlMatch[1]}' but mimeType is '${body.mimeType}'.`);
+    }
+
+    return {
+        image: body.image,
+        mimeType: body.mimeType,
+        prompt: body.prompt?.trim() ?? '',
+        instruction: body.instruction?.trim() || undefined,
+        locale: body.locale,
+        templateId: body.templateId,
+        templateBody: body.templateBody,
+        style: body.style,
+    };
+};
+
+/** A custom template keeps the client's id so the result records it; built-in ones are looked up. */
+const requestTemplate = ({ templateId, templateBody }: GenerateRequestBody): Pick<PromptTemplate, 'id' | 'body'> | undefined => {
+    if (templateBody !== undefined) return { id: templateId || 'custom', body: templateBody };
+    return templateId !== undefined ? findBuiltInTemplate(templateId) : undefined;
+};
+
+/** Handles `POST /api/generate`: validates the upload, calls the provider and returns a `GenerationResult`. */
+export const createGenerateRoute = ({
+    provider,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    allowedMimeTypes = ALLOWED_IMAGE_MIME_TYPES,
+}: GenerateRouteOptions) =>
+    async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendError(res, 405, 'Method not allowed.');
+            return;
+        }
+        if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+            sendError(res, 415, 'Content-Type must be application/json.');
+            return;
+        }
+        if (!(await provider.isConfigured())) {
+            sendError(res, 503, 'API_KEY environment variable is not set');
+            return;
+        }
+
+        let request: GenerateRequestBody;
+        try {
+            request = parseRequestBody(await readBody(req, maxBodyBytes), allowedMimeTypes);
+        } catch (e) {
+            if (e instanceof HttpError) {
+                sendError(res, e.status, e.message);
+                return;
+            }
+            throw e;
+        }
+
+        // Stop paying for an upstream call nobody is waiting for.
+        const controller = new AbortController();
+        const abortOnDisconnect = () => {
+            if (!res.writableEnded) controller.abort();
+        };
+        res.on('close', abortOnDisconnect);
+
+        try {
+            const result = await provider.generate({
+                imageBase64: request.image,
+                mimeType: request.mimeType,
+                prompt: request.prompt ?? '',
+                instruction: request.instruction,
+                locale: request.locale,
+                template: requestTemplate(request),
+                style: request.style,
+                signal: controller.signal,
+            });
+            sendJson(res, 200, result);
+        } catch (e) {
+            const error = toGenerationError(e);
+            if (error.kind === 'cancelled' && res.destroyed) return;
+            sendError(res, STATUS_BY_ERROR_KIND[error.kind], error.message, error.kind);
+        } finally {
+            res.off('close', abortOnDisconnect);
+        }
+    };
@@ -0,0 +1,73 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { type GenerationErrorKind } from '../services/generationErrors';
+import { type PromptInputIssue } from '../services/promptInput';
+import { type ApiErrorBody } from '../services/careerVisionProvider';
+
+/** Helpers shared by the API routes. */
+
+export const STATUS_BY_ERROR_KIND: Record<GenerationErrorKind, number> = {
+    blocked: 422,
+    safety: 422,
+    incomplete: 502,
+    format: 502,
+    network: 502,
+    timeout: 504,
+    quota: 429,
+    cancelled: 499,
+    unknown: 500,
+};
+
+export const PROMPT_ISSUE_MESSAGES: Record<PromptInputIssue, string> = {
+    tooLong: 'is too long',
+    invalidCharacters: 'contains characters that are not allowed (quotes, brackets, line breaks and similar)',
+    instructions: 'reads like instructions to the model',
+};
+
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+};
+
+export const sendError = (res: ServerResponse, status: number, error: string, code?: ApiErrorBody['code']): void => {
+    sendJson(res, status, { error, code } satisfies ApiErrorBody);
+};
+
+// Reads the body while counting bytes so an oversized upload is rejected before it is buffered in full.
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const declaredLength = Number(req.headers['content-length']);
+        if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+            reject(new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`));
+            req.resume();
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        let rejected = false;
+        req.on('data', (chunk: Buffer) => {
+            if (rejected) return;
+            received += chunk.length;
+            if (received > maxBytes) {
+                rejected = true;
+                reject(new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (!rejected) resolve(Buffer.concat(chunks).toString('utf8'));
+        });
+        req.on('error', reject);
+    });
@@ -0,0 +1,81 @@
+import { createServer, type Server } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { type ApiHealthBody, type CareerVisionProvider } from '../services/careerVisionProvider';
+import { GeminiProvider } from '../services/geminiProvider';
+import { createChatRoute } from './chatRoute';
+import { createGenerateRoute, type GenerateRouteOptions } from './generateRoute';
+import { sendJson } from './http';
+
+export const DEFAULT_API_PORT = 8787;
+
+export type ApiServerOptions = GenerateRouteOptions;
+
+/** Builds the API server without listening, so callers can bind it to any port or inject a stub provider. */
+export const createApiServer = (options: ApiServerOptions): Server => {
+    const { provider } = options;
+    const generateRoute = createGenerateRoute(options);
+    const chatRoute = createChatRoute({ provider });
+
+    return createServer((req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+        if (pathname === '/api/health') {
+            provider.isConfigured()
+                .then(configured => sendJson(res, 200, { configured } satisfies ApiHealthBody))
+                .catch(() => sendJson(res, 200, { configured: false } satisfies ApiHealthBody));
+            return;
+        }
+        if (pathname === '/api/generate') {
+            generateRoute(req, res).catch(e => {
+                console.error('Unhandled /api/generate error:', e);
+                if (!res.headersSent) {
+                    sendJson(res, 500, { error: 'Internal server error.' });
+                } else {
+                    res.end();
+                }
+            });
+            return;
+        }
+        if (pathname === '/api/chat') {
+            chatRoute(req, res).catch(e => {
+                console.error('Unhandled /api/chat error:', e);
+                if (!res.headersSent) {
+                    sendJson(res, 500, { error: 'Internal server error.' });
+                } else {
+                    res.end();
+                }
+            });
+            return;
+        }
+        sendJson(res, 404, { error: 'Not found.' });
+    });
+};
+
+// loadEnvFile never overwrites a variable that is already set, so the more specific file goes first.
+export const loadLocalEnv = (): void => {
+    for (const file of ['.env.local', '.env']) {
+        try {
+            process.loadEnvFile(file);
+        } catch {
+            // Optional file; the environment may already carry the variables.
+        }
+    }
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    loadLocalEnv();
+    const provider: CareerVisionProvider = new GeminiProvider(process.env.GEMINI_API_KEY, {
+        baseUrl: process.env.GEMINI_BASE_URL || undefined,
+    });
+    const port = Number(process.env.API_PORT) || DEFAULT_API_PORT;
+
+    createApiServer({
+        provider,
+        maxBodyBytes: Number(process.env.API_MAX_BODY_BYTES) || undefined,
+    }).listen(port, () => {
+        console.log(`Career Vision API listening on http://localhost:${port}`);
+        if (!process.env.GEMINI_API_KEY) {
+            console.warn('GEMINI_API_KEY is not set; /api/generate will respond with 503.');
+        }
+    });
+}
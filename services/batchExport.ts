@@ -0,0 +1,81 @@
+import type { BatchItem, GenerationResult } from '../types';
+import { dataUrlToBytes, extensionForMimeType, mimeTypeOfDataUrl } from './imageFiles';
+import { createZip, type ZipEntry } from './zip';
+
+export interface BatchManifestRow {
+    index: number;
+    sourceFile: string;
+    outputFile: string | null;
+    requestedCareer: string;
+    status: 'done' | 'failed' | 'skipped';
+    title: string;
+    description: string;
+    keySkills: string[];
+    /** Prompt template and style preset the result was generated with. */
+    templateId: string;
+    styleId: string;
+    error: string;
+}
+
+const sanitizeFileName = (value: string): string =>
+    value.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'image';
+
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+/** Path of a generated image inside an export, e.g. `images/003_photo_Chef.png`; `index` is zero-based. */
+export const batchOutputFileName = (index: number, sourceFile: string, result: GenerationResult): string => {
+    const extension = extensionForMimeType(mimeTypeOfDataUrl(result.image));
+    const number = String(index + 1).padStart(3, '0');
+    return `images/${number}_${sanitizeFileName(stripExtension(sourceFile))}_${sanitizeFileName(result.title)}.${extension}`;
+};
+
+const outputFileName = (item: BatchItem, index: number): string | null =>
+    item.result ? batchOutputFileName(index, item.fileName, item.result) : null;
+
+export const buildBatchManifest = (items: BatchItem[], sharedCareer: string): BatchManifestRow[] =>
+    items.map((item, index) => ({
+        index: index + 1,
+        sourceFile: item.fileName,
+        outputFile: outputFileName(item, index),
+        requestedCareer: item.career || sharedCareer,
+        status: item.status === 'done' ? 'done' : item.status === 'failed' ? 'failed' : 'skipped',
+        title: item.result?.title ?? '',
+        description: item.result?.description ?? '',
+        keySkills: item.result?.keySkills ?? [],
+        templateId: item.result?.templateId ?? '',
+        styleId: item.result?.styleId ?? '',
+        error: item.error ?? '',
+    }));
+
+const csvCell = (value: string | number | null): string => {
+    const text = value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (rows: BatchManifestRow[]): string => {
+    const header = ['index', 'sourceFile', 'outputFile', 'requestedCareer', 'status', 'title', 'description', 'keySkills', 'templateId', 'styleId', 'error'];
+    const lines = rows.map(row => [
+        row.index, row.sourceFile, row.outputFile, row.requestedCareer, row.status,
+        row.title, row.description, row.keySkills.join('; '), row.templateId, row.styleId, row.error,
+    ].map(csvCell).join(','));
+    // The BOM makes Excel open the file as UTF-8 instead of garbling Korean text.
+    return '\uFEFF' + [header.join(','), ...lines].join('\r\n');
+};
+
+/** Packs every finished image plus `manifest.json` and `manifest.csv` into a ZIP. */
+export const createBatchZip = (items: BatchItem[], sharedCareer: string): Blob => {
+    const encoder = new TextEncoder();
+    const rows = buildBatchManifest(items, sharedCareer);
+    const entries: ZipEntry[] = [];
+
+    items.forEach((item, index) => {
+        const name = rows[index].outputFile;
+        if (item.result && name) {
+            entries.push({ name, data: dataUrlToBytes(item.result.image) });
+        }
+    });
+    entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify({ createdAt: new Date().toISOString(), sharedCareer, items: rows }, null, 2)) });
+    entries.push({ name: 'manifest.csv', data: encoder.encode(manifestToCsv(rows)) });
+
+    return new Blob([createZip(entries)], { type: 'application/zip' });
+};
@@ -0,0 +1,82 @@
+export type CameraErrorCode = 'unsupported' | 'denied' | 'notFound' | 'inUse' | 'unknown';
+
+/** The UI shows a localized message per `code`; `message` is for logs. */
+export class CameraError extends Error {
+    constructor(readonly code: CameraErrorCode, message: string, options: { cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'CameraError';
+    }
+}
+
+const CAPTURE_JPEG_QUALITY = 0.92;
+
+export const isCameraSupported = (): boolean =>
+    typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// getUserMedia reports failures as DOMExceptions whose names differ slightly between browsers.
+const toCameraError = (e: unknown): CameraError => {
+    const name = e instanceof DOMException || e instanceof Error ? e.name : '';
+    switch (name) {
+        case 'NotAllowedError':
+        case 'PermissionDeniedError':
+        case 'SecurityError':
+            return new CameraError('denied', 'Camera permission was denied.', { cause: e });
+        case 'NotFoundError':
+        case 'DevicesNotFoundError':
+        case 'OverconstrainedError':
+            return new CameraError('notFound', 'No camera is available.', { cause: e });
+        case 'NotReadableError':
+        case 'TrackStartError':
+        case 'AbortError':
+            return new CameraError('inUse', 'The camera could not be started; another app may be using it.', { cause: e });
+        default:
+            return new CameraError('unknown', `The camera could not be started: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+    }
+};
+
+/** Opens the front camera, preferring a square-ish HD stream since the photo is cropped to a square later. */
+export const startCamera = async (): Promise<MediaStream> => {
+    if (!isCameraSupported()) {
+        throw new CameraError('unsupported', 'getUserMedia is not available; it needs a secure (HTTPS) context.');
+    }
+    try {
+        return await navigator.mediaDevices.getUserMedia({
+            video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 1280 } },
+            audio: false,
+        });
+    } catch (e) {
+        throw toCameraError(e);
+    }
+};
+
+export const stopCamera = (stream: MediaStream | null): void => {
+    stream?.getTracks().forEach(track => track.stop());
+};
+
+/**
+ * Grabs the current video frame as a JPEG file. With `mirror` the saved
+ * photo matches the selfie-style preview instead of the raw sensor image.
+ */
+export const captureFrame = (video: HTMLVideoElement, mirror: boolean): Promise<File> =>
+    new Promise((resolve, reject) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx || canvas.width === 0 || canvas.height === 0) {
+            reject(new CameraError('unknown', 'The camera has not produced a frame yet.'));
+            return;
+        }
+        if (mirror) {
+            ctx.translate(canvas.width, 0);
+            ctx.scale(-1, 1);
+        }
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(blob => {
+            if (!blob) {
+                reject(new CameraError('unknown', 'Could not encode the captured frame.'));
+                return;
+            }
+            resolve(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+        }, 'image/jpeg', CAPTURE_JPEG_QUALITY);
+    });
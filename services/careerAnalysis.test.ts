@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { AnalysisFormatError, parseCareerAnalysis } from './careerAnalysis';
+import { GEMINI_TEXT_MODEL, GeminiProvider } from './geminiProvider';
+
+const ANALYSIS = {
+    title: 'Chef',
+    reason: ' Runs a busy kitchen. ',
+    keySkills: ['Creativity', ' '],
+    educationPath: ['Culinary school'],
+    relatedCareers: ['Baker'],
+    confidenceNote: 'Based on the apron.',
+};
+
+describe('parseCareerAnalysis', () => {
+    it('reads valid JSON and trims its values', () => {
+        assert.deepEqual(parseCareerAnalysis(JSON.stringify(ANALYSIS)), {
+            title: 'Chef',
+            description: 'Runs a busy kitchen.',
+            keySkills: ['Creativity'],
+            educationPath: ['Culinary school'],
+            relatedCareers: ['Baker'],
+            confidenceNote: 'Based on the apron.',
+        });
+    });
+
+    it('reads JSON inside a markdown fence with text around it', () => {
+        const text = `Here is the analysis:\n\`\`\`json\n${JSON.stringify(ANALYSIS, null, 2)}\n\`\`\`\nEnjoy!`;
+        assert.equal(parseCareerAnalysis(text).title, 'Chef');
+    });
+
+    it('prefers the requested career over the title the model returned', () => {
+        assert.equal(parseCareerAnalysis(JSON.stringify(ANALYSIS), '요리사').title, '요리사');
+    });
+
+    it('lists every missing or invalid field', () => {
+        const { reason: _reason, keySkills: _keySkills, ...partial } = ANALYSIS;
+        assert.throws(
+            () => parseCareerAnalysis(JSON.stringify({ ...partial, relatedCareers: 'Baker' })),
+            (e: unknown) => e instanceof AnalysisFormatError && /reason, keySkills, relatedCareers/.test(e.message),
+        );
+    });
+
+    it('rejects JSON that does not parse', () => {
+        assert.throws(() => parseCareerAnalysis('{ "title": "Chef", }'), AnalysisFormatError);
+    });
+
+    it('falls back to labelled lines in Korean', () => {
+        const text = [
+            '**직업명**: 셰프',
+            '이유: 주방을 이끄는 모습이에요.',
+            '핵심 역량:',
+            '- 창의력',
+            '- 협업',
+            '진로 경로: 조리 고등학교, 요리 학교',
+            '관련 직업: 제빵사',
+            '참고: 앞치마를 보고 골랐어요.',
+        ].join('\n');
+        assert.deepEqual(parseCareerAnalysis(text), {
+            title: '셰프',
+            description: '주방을 이끄는 모습이에요.',
+            keySkills: ['창의력', '협업'],
+            educationPath: ['조리 고등학교', '요리 학교'],
+            relatedCareers: ['제빵사'],
+            confidenceNote: '앞치마를 보고 골랐어요.',
+        });
+    });
+
+    it('fills missing lists in labelled text and prefers the longest label', () => {
+        const analysis = parseCareerAnalysis('Job title: Pilot\nWhy: Loves flying.\nKey skills: Focus, Calm');
+        assert.equal(analysis.title, 'Pilot');
+        assert.deepEqual(analysis.keySkills, ['Focus', 'Calm']);
+        assert.deepEqual(analysis.educationPath, []);
+        assert.equal(analysis.confidenceNote, '');
+    });
+
+    it('rejects text with neither JSON nor labels', () => {
+        assert.throws(() => parseCareerAnalysis('A lovely picture of a chef.'), AnalysisFormatError);
+    });
+});
+
+/** Answers like the Gemini REST API: the image model with `imageText`, the JSON-mode text model with `repairText`. */
+const startStubGemini = async (answers: { imageText: string; repairText: string }) => {
+    const calls: string[] = [];
+    const server = createServer(async (req: IncomingMessage, res) => {
+        for await (const _chunk of req) { /* Drain the body. */ }
+        const isRepair = req.url?.includes(`/models/${GEMINI_TEXT_MODEL}:`) ?? false;
+        calls.push(isRepair ? 'repair' : 'image');
+        const parts = isRepair
+            ? [{ text: answers.repairText }]
+            : [{ inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }, { text: answers.imageText }];
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, calls, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+describe('GeminiProvider analysis repair', () => {
+    const answers = { imageText: '', repairText: '' };
+    let stub: Awaited<ReturnType<typeof startStubGemini>>;
+    let provider: GeminiProvider;
+
+    before(async () => {
+        stub = await startStubGemini(answers);
+        provider = new GeminiProvider('test-key', { baseUrl: stub.baseUrl });
+    });
+
+    after(() => new Promise<void>(resolve => stub.server.close(() => resolve())));
+
+    const generate = () => provider.generate({ imageBase64: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png', prompt: 'Chef', locale: 'en' });
+
+    it('uses a valid analysis without a repair call', async (t) => {
+        t.mock.method(console, 'warn', () => {});
+        stub.calls.length = 0;
+        answers.imageText = JSON.stringify(ANALYSIS);
+        assert.equal((await generate()).description, 'Runs a busy kitchen.');
+        assert.deepEqual(stub.calls, ['image']);
+    });
+
+    it('repairs a malformed analysis once', async (t) => {
+        t.mock.method(console, 'warn', () => {});
+        stub.calls.length = 0;
+        answers.imageText = '{ "title": "Chef", "reason": ';
+        answers.repairText = JSON.stringify(ANALYSIS);
+        assert.equal((await generate()).title, 'Chef');
+        assert.deepEqual(stub.calls, ['image', 'repair']);
+    });
+
+    it('fails with a non-retryable AnalysisFormatError when the repair is malformed too', async (t) => {
+        t.mock.method(console, 'warn', () => {});
+        t.mock.method(console, 'error', () => {});
+        stub.calls.length = 0;
+        answers.imageText = 'Just a chef.';
+        answers.repairText = '{ "title": "Chef" }';
+        await assert.rejects(generate(), (e: unknown) => {
+            assert.ok(e instanceof AnalysisFormatError);
+            assert.equal(e.kind, 'format');
+            assert.equal(e.retryable, false);
+            assert.equal(e.rawText, 'Just a chef.');
+            return true;
+        });
+        assert.deepEqual(stub.calls, ['image', 'repair']);
+    });
+});
@@ -0,0 +1,166 @@
+import { type CareerAnalysis } from '../types';
+import { GenerationError } from './generationErrors';
+import { type Locale } from './i18n';
+
+/** Shape the model is asked to return. `reason` maps to `CareerAnalysis.description`. */
+export interface CareerAnalysisJson {
+    title: string;
+    reason: string;
+    keySkills: string[];
+    educationPath: string[];
+    relatedCareers: string[];
+    confidenceNote: string;
+}
+
+/** The example in the prompt is written in the target language, which steers the model's output language too. */
+export const CAREER_ANALYSIS_JSON_EXAMPLES: Record<Locale, string> = {
+    ko: `{
+  "title": "직업명",
+  "reason": "왜 이 직업인지, 이미지에서 무엇을 바꿨는지",
+  "keySkills": ["핵심 역량", "..."],
+  "educationPath": ["진로 단계 1", "진로 단계 2", "..."],
+  "relatedCareers": ["관련 직업", "..."],
+  "confidenceNote": "이 제안의 근거와 한계"
+}`,
+    en: `{
+  "title": "Career name",
+  "reason": "Why this career, and what you changed in the image",
+  "keySkills": ["Key skill", "..."],
+  "educationPath": ["Step 1", "Step 2", "..."],
+  "relatedCareers": ["Related career", "..."],
+  "confidenceNote": "What this suggestion is based on, and its limits"
+}`,
+};
+
+/**
+ * Labels the model sometimes uses when it ignores the JSON instruction and
+ * answers as "label: value" lines instead. Matched case-insensitively.
+ */
+export const CAREER_ANALYSIS_LABELS: Record<Locale, Record<keyof CareerAnalysisJson, string[]>> = {
+    ko: {
+        title: ['직업명', '직업'],
+        reason: ['이유', '설명'],
+        keySkills: ['핵심 역량', '필요 역량'],
+        educationPath: ['진로 경로', '진로 단계'],
+        relatedCareers: ['관련 직업'],
+        confidenceNote: ['참고', '신뢰도 메모'],
+    },
+    en: {
+        title: ['career', 'job title', 'title'],
+        reason: ['reason', 'why', 'description'],
+        keySkills: ['key skills', 'skills'],
+        educationPath: ['education path', 'career path', 'path'],
+        relatedCareers: ['related careers'],
+        confidenceNote: ['confidence note', 'note'],
+    },
+};
+
+/** Thrown when the model's analysis text is not valid JSON of the expected shape, even after a repair attempt. */
+export class AnalysisFormatError extends GenerationError {
+    constructor(message: string, readonly rawText: string) {
+        super('format', message);
+        this.name = 'AnalysisFormatError';
+    }
+}
+
+// Models often wrap JSON in a markdown fence or add a sentence around it; keep only the outermost object.
+const extractJsonObject = (text: string): string | null => {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    return start !== -1 && end > start ? text.slice(start, end + 1) : null;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const cleanList = (items: string[]): string[] => items.map(item => item.trim()).filter(Boolean);
+
+const LABEL_LOOKUP: [string, keyof CareerAnalysisJson][] = Object.values(CAREER_ANALYSIS_LABELS)
+    .flatMap(labels => (Object.entries(labels) as [keyof CareerAnalysisJson, string[]][])
+        .flatMap(([field, names]) => names.map(name => [name.toLowerCase(), field] as [string, keyof CareerAnalysisJson])))
+    // Longest first, so "key skills" wins over "skills" and "직업명" over "직업".
+    .sort((a, b) => b[0].length - a[0].length);
+
+const LIST_FIELDS: readonly (keyof CareerAnalysisJson)[] = ['keySkills', 'educationPath', 'relatedCareers'];
+
+const matchLabel = (line: string): [keyof CareerAnalysisJson, string] | null => {
+    // Tolerates markdown decoration such as "- **직업명**: ..." or "## Career:".
+    const stripped = line.replace(/^[\s#>*-]*/, '').replace(/\*\*/g, '');
+    const separator = stripped.search(/[:：]/);
+    if (separator === -1) return null;
+    const label = stripped.slice(0, separator).trim().toLowerCase();
+    const entry = LABEL_LOOKUP.find(([name]) => name === label);
+    return entry ? [entry[1], stripped.slice(separator + 1).trim()] : null;
+};
+
+const splitList = (value: string): string[] =>
+    value.split(/\n|[,、·;]/).map(item => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, ''));
+
+// Fallback for "label: value" answers in any supported locale.
+const parseLabelledAnalysis = (text: string): Partial<Record<keyof CareerAnalysisJson, unknown>> | null => {
+    const sections: Partial<Record<keyof CareerAnalysisJson, string[]>> = {};
+    let current: keyof CareerAnalysisJson | null = null;
+    for (const line of text.split(/\r?\n/)) {
+        const labelled = matchLabel(line);
+        if (labelled) {
+            current = labelled[0];
+            sections[current] = labelled[1] ? [labelled[1]] : [];
+        } else if (current && line.trim()) {
+            sections[current]!.push(line.trim());
+        }
+    }
+    if (!sections.title && !sections.reason) return null;
+
+    const data: Partial<Record<keyof CareerAnalysisJson, unknown>> = {};
+    for (const [field, lines] of Object.entries(sections) as [keyof CareerAnalysisJson, string[]][]) {
+        data[field] = LIST_FIELDS.includes(field) ? splitList(lines.join('\n')) : lines.join(' ');
+    }
+    for (const field of LIST_FIELDS) data[field] ??= [];
+    data.title ??= '';
+    data.confidenceNote ??= '';
+    return data;
+};
+
+/**
+ * Parses and validates the model's analysis. JSON is expected; "label: value"
+ * lines in any supported locale are accepted as a fallback. When the user asked
+ * for a specific career, that prompt wins over whatever title the model returned.
+ */
+export const parseCareerAnalysis = (text: string, userPrompt?: string): CareerAnalysis => {
+    let data: Partial<Record<keyof CareerAnalysisJson, unknown>>;
+    const json = extractJsonObject(text);
+    if (json) {
+        try {
+            data = JSON.parse(json);
+        } catch {
+            throw new AnalysisFormatError('The analysis JSON could not be parsed.', text);
+        }
+    } else {
+        const labelled = parseLabelledAnalysis(text);
+        if (!labelled) {
+            throw new AnalysisFormatError('The analysis contained neither a JSON object nor labelled fields.', text);
+        }
+        data = labelled;
+    }
+
+    const problems: string[] = [];
+    if (typeof data.title !== 'string' || (!data.title.trim() && !userPrompt)) problems.push('title');
+    if (typeof data.reason !== 'string' || !data.reason.trim()) problems.push('reason');
+    if (!isStringArray(data.keySkills)) problems.push('keySkills');
+    if (!isStringArray(data.educationPath)) problems.push('educationPath');
+    if (!isStringArray(data.relatedCareers)) problems.push('relatedCareers');
+    if (typeof data.confidenceNote !== 'string') problems.push('confidenceNote');
+    if (problems.length > 0) {
+        throw new AnalysisFormatError(`The analysis is missing or has invalid fields: ${problems.join(', ')}.`, text);
+    }
+
+    const valid = data as CareerAnalysisJson;
+    return {
+        title: userPrompt || valid.title.trim(),
+        description: valid.reason.trim(),
+        keySkills: cleanList(valid.keySkills),
+        educationPath: cleanList(valid.educationPath),
+        relatedCareers: cleanList(valid.relatedCareers),
+        confidenceNote: valid.confidenceNote.trim(),
+    };
+};
@@ -0,0 +1,178 @@
+import type { Locale } from './i18n';
+
+export type CareerCategory = 'healthcare' | 'stem' | 'arts' | 'education' | 'publicService' | 'business' | 'service' | 'sports';
+
+export const CAREER_CATEGORIES: readonly CareerCategory[] = [
+    'healthcare', 'stem', 'arts', 'education', 'publicService', 'business', 'service', 'sports',
+];
+
+export interface CareerEntry {
+    id: string;
+    category: CareerCategory;
+    names: Record<Locale, string>;
+    /** Other spellings and job titles in any language; matched like the names. */
+    synonyms: readonly string[];
+    /** English scene details appended to the image prompt. */
+    visualHint: string;
+}
+
+export const CAREER_CATALOG: readonly CareerEntry[] = [
+    // Healthcare
+    { id: 'doctor', category: 'healthcare', names: { ko: '의사', en: 'Doctor' }, synonyms: ['의사 선생님', '내과 의사', 'physician', 'medic'], visualHint: 'white coat, stethoscope around the neck, bright hospital corridor' },
+    { id: 'nurse', category: 'healthcare', names: { ko: '간호사', en: 'Nurse' }, synonyms: ['간호원', 'registered nurse'], visualHint: 'medical scrubs, fob watch, hospital ward with patient monitors' },
+    { id: 'dentist', category: 'healthcare', names: { ko: '치과의사', en: 'Dentist' }, synonyms: ['치과 선생님', 'dental surgeon'], visualHint: 'dental chair, overhead examination lamp, mask and gloves' },
+    { id: 'pharmacist', category: 'healthcare', names: { ko: '약사', en: 'Pharmacist' }, synonyms: ['chemist', 'druggist'], visualHint: 'white coat in front of pharmacy shelves lined with medicine' },
+    { id: 'veterinarian', category: 'healthcare', names: { ko: '수의사', en: 'Veterinarian' }, synonyms: ['동물 의사', 'vet', 'animal doctor'], visualHint: 'animal clinic with a friendly dog on the examination table' },
+    { id: 'paramedic', category: 'healthcare', names: { ko: '응급구조사', en: 'Paramedic' }, synonyms: ['구급대원', 'EMT'], visualHint: 'high-visibility uniform beside an ambulance with its lights on' },
+
+    // Science and technology
+    { id: 'software-developer', category: 'stem', names: { ko: '소프트웨어 개발자', en: 'Software developer' }, synonyms: ['개발자', '프로그래머', '코더', 'developer', 'programmer', 'coder', 'software engineer'], visualHint: 'laptop with code on the screen, dual monitors, desk lamp' },
+    { id: 'scientist', category: 'stem', names: { ko: '과학자', en: 'Scientist' }, synonyms: ['연구원', 'researcher'], visualHint: 'lab coat and safety goggles, glassware and microscope in a laboratory' },
+    { id: 'astronaut', category: 'stem', names: { ko: '우주비행사', en: 'Astronaut' }, synonyms: ['우주인', 'cosmonaut', 'spaceman'], visualHint: 'white spacesuit, helmet under one arm, Earth visible through a spacecraft window' },
+    { id: 'engineer', category: 'stem', names: { ko: '엔지니어', en: 'Engineer' }, synonyms: ['공학자', '기술자'], visualHint: 'hard hat and blueprints on an industrial site' },
+    { id: 'data-scientist', category: 'stem', names: { ko: '데이터 과학자', en: 'Data scientist' }, synonyms: ['데이터 분석가', 'data analyst'], visualHint: 'screens full of charts and graphs in a modern office' },
+    { id: 'robotics-engineer', category: 'stem', names: { ko: '로봇 공학자', en: 'Robotics engineer' }, synonyms: ['로봇 엔지니어', 'roboticist'], visualHint: 'workshop with a robotic arm and open circuit boards' },
+    { id: 'architect', category: 'stem', names: { ko: '건축가', en: 'Architect' }, synonyms: ['건축 설계사'], visualHint: 'scale model of a building, drafting table and rolled plans' },
+
+    // Arts and design
+    { id: 'painter', category: 'arts', names: { ko: '화가', en: 'Painter' }, synonyms: ['미술가', '아티스트', 'artist'], visualHint: 'easel, paint-splattered apron, palette and brushes' },
+    { id: 'musician', category: 'arts', names: { ko: '음악가', en: 'Musician' }, synonyms: ['뮤지션', '연주자', '가수', 'singer'], visualHint: 'instrument on a stage under warm spotlights' },
+    { id: 'photographer', category: 'arts', names: { ko: '사진작가', en: 'Photographer' }, synonyms: ['사진가', '포토그래퍼'], visualHint: 'professional camera and studio lights' },
+    { id: 'writer', category: 'arts', names: { ko: '작가', en: 'Writer' }, synonyms: ['소설가', '시인', 'author', 'novelist', 'poet'], visualHint: 'notebook and typewriter surrounded by bookshelves' },
+    { id: 'designer', category: 'arts', names: { ko: '디자이너', en: 'Designer' }, synonyms: ['그래픽 디자이너', '패션 디자이너', 'graphic designer', 'fashion designer'], visualHint: 'drawing tablet, colour swatches and mood boards' },
+    { id: 'actor', category: 'arts', names: { ko: '배우', en: 'Actor' }, synonyms: ['연기자', '탤런트', 'actress'], visualHint: 'theatre stage with dramatic lighting, script in hand' },
+    { id: 'animator', category: 'arts', names: { ko: '애니메이터', en: 'Animator' }, synonyms: ['웹툰 작가', '일러스트레이터', 'illustrator', 'cartoonist'], visualHint: 'storyboards pinned to the wall and a drawing tablet' },
+    { id: 'content-creator', category: 'arts', names: { ko: '크리에이터', en: 'Content creator' }, synonyms: ['유튜버', '스트리머', '인플루언서', 'youtuber', 'streamer', 'influencer'], visualHint: 'ring light, microphone and camera in a colourful home studio' },
+
+    // Education
+    { id: 'teacher', category: 'education', names: { ko: '선생님', en: 'Teacher' }, synonyms: ['교사', '교수', 'professor', 'educator'], visualHint: 'classroom with a chalkboard, holding an open book' },
+    { id: 'librarian', category: 'education', names: { ko: '사서', en: 'Librarian' }, synonyms: ['도서관 사서'], visualHint: 'tall library shelves and a stack of books' },
+    { id: 'counselor', category: 'education', names: { ko: '상담사', en: 'Counselor' }, synonyms: ['상담 교사', '심리 상담사', 'counsellor', 'therapist'], visualHint: 'calm office with armchairs and plants' },
+
+    // Public service and law
+    { id: 'firefighter', category: 'publicService', names: { ko: '소방관', en: 'Firefighter' }, synonyms: ['소방대원', 'fireman'], visualHint: 'turnout gear and helmet in front of a red fire engine' },
+    { id: 'police-officer', category: 'publicService', names: { ko: '경찰관', en: 'Police officer' }, synonyms: ['경찰', '형사', 'police', 'detective'], visualHint: 'police uniform beside a patrol car' },
+    { id: 'judge', category: 'publicService', names: { ko: '판사', en: 'Judge' }, synonyms: ['법관'], visualHint: 'black robe and gavel in a courtroom' },
+    { id: 'lawyer', category: 'publicService', names: { ko: '변호사', en: 'Lawyer' }, synonyms: ['법조인', 'attorney'], visualHint: 'dark suit, shelves of law books' },
+    { id: 'diplomat', category: 'publicService', names: { ko: '외교관', en: 'Diplomat' }, synonyms: ['ambassador'], visualHint: 'formal suit in a conference hall lined with national flags' },
+
+    // Business and finance
+    { id: 'entrepreneur', category: 'business', names: { ko: '창업가', en: 'Entrepreneur' }, synonyms: ['사업가', '기업가', 'CEO', 'founder'], visualHint: 'modern office, presenting in front of a pitch screen' },
+    { id: 'accountant', category: 'business', names: { ko: '회계사', en: 'Accountant' }, synonyms: ['세무사', 'CPA'], visualHint: 'calculator and spreadsheets on a tidy desk' },
+    { id: 'marketer', category: 'business', names: { ko: '마케터', en: 'Marketer' }, synonyms: ['광고 기획자', 'marketing manager'], visualHint: 'whiteboard covered in campaign sketches' },
+
+    // Food, travel and everyday services
+    { id: 'chef', category: 'service', names: { ko: '셰프', en: 'Chef' }, synonyms: ['요리사', '쉐프', 'cook'], visualHint: "white chef's jacket and toque in a professional kitchen" },
+    { id: 'baker', category: 'service', names: { ko: '제빵사', en: 'Baker' }, synonyms: ['파티시에', 'pastry chef', 'patissier'], visualHint: 'fresh bread and pastries, flour-dusted apron' },
+    { id: 'pilot', category: 'service', names: { ko: '파일럿', en: 'Pilot' }, synonyms: ['조종사', '비행기 조종사', 'aviator'], visualHint: "captain's uniform and hat in an airliner cockpit" },
+    { id: 'flight-attendant', category: 'service', names: { ko: '승무원', en: 'Flight attendant' }, synonyms: ['객실 승무원', '스튜어디스', 'cabin crew'], visualHint: 'airline uniform in an aircraft cabin aisle' },
+    { id: 'hairdresser', category: 'service', names: { ko: '미용사', en: 'Hairdresser' }, synonyms: ['헤어 디자이너', 'barber', 'hair stylist'], visualHint: 'salon chair, scissors and comb' },
+    { id: 'farmer', category: 'service', names: { ko: '농부', en: 'Farmer' }, synonyms: ['농업인'], visualHint: 'straw hat, green fields and a basket of vegetables' },
+
+    // Sports
+    { id: 'athlete', category: 'sports', names: { ko: '운동선수', en: 'Athlete' }, synonyms: ['스포츠 선수', 'sportsperson'], visualHint: 'sports uniform on a stadium running track' },
+    { id: 'football-player', category: 'sports', names: { ko: '축구 선수', en: 'Football player' }, synonyms: ['soccer player', 'footballer'], visualHint: 'football kit and ball on a grass pitch under stadium lights' },
+    { id: 'baseball-player', category: 'sports', names: { ko: '야구 선수', en: 'Baseball player' }, synonyms: [], visualHint: 'baseball uniform with bat and glove on a diamond' },
+    { id: 'coach', category: 'sports', names: { ko: '코치', en: 'Coach' }, synonyms: ['감독', '트레이너', 'trainer'], visualHint: 'whistle and clipboard on a training field' },
+    { id: 'esports-player', category: 'sports', names: { ko: '프로게이머', en: 'Esports player' }, synonyms: ['게이머', 'pro gamer', 'gamer'], visualHint: 'gaming headset at an RGB-lit setup on a tournament stage' },
+];
+
+// Case, width and spacing differences should not matter: "소프트웨어개발자" finds "소프트웨어 개발자".
+const normalise = (text: string): string => text.normalize('NFKC').toLowerCase().replace(/[\s\-·.]+/g, '');
+
+const searchTerms = new Map(CAREER_CATALOG.map(entry => [
+    entry.id,
+    [...Object.values(entry.names), ...entry.synonyms].map(normalise),
+]));
+
+export const careerName = (entry: CareerEntry, locale: Locale): string => entry.names[locale];
+
+/** The entry whose name or synonym matches `text` exactly, ignoring case and spacing. */
+export const findCareer = (text: string): CareerEntry | undefined => {
+    const query = normalise(text);
+    if (!query) return undefined;
+    return CAREER_CATALOG.find(entry => searchTerms.get(entry.id)!.includes(query));
+};
+
+export interface SearchCareersOptions {
+    limit?: number;
+    /** Restricts results to these catalog ids, e.g. a kiosk allow-list. */
+    allowedIds?: readonly string[];
+}
+
+const isAllowed = (entry: CareerEntry, allowedIds?: readonly string[]): boolean => !allowedIds || allowedIds.includes(entry.id);
+
+/** Exact matches first, then prefix matches, then substring matches. */
+export const searchCareers = (query: string, locale: Locale, { limit = 8, allowedIds }: SearchCareersOptions = {}): CareerEntry[] => {
+    const needle = normalise(query);
+    if (!needle) return [];
+    const ranked: { entry: CareerEntry; rank: number }[] = [];
+    for (const entry of CAREER_CATALOG) {
+        if (!isAllowed(entry, allowedIds)) continue;
+        const ranks = searchTerms.get(entry.id)!.map(term => term === needle ? 0 : term.startsWith(needle) ? 1 : term.includes(needle) ? 2 : 3);
+        const rank = Math.min(...ranks);
+        if (rank < 3) ranked.push({ entry, rank });
+    }
+    return ranked
+        .sort((a, b) => a.rank - b.rank || careerName(a.entry, locale).localeCompare(careerName(b.entry, locale), locale))
+        .slice(0, limit)
+        .map(({ entry }) => entry);
+};
+
+const editDistance = (a: string, b: string): number => {
+    const source = Array.from(a);
+    const target = Array.from(b);
+    let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= source.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= target.length; j++) {
+            const substitution = previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return previous[target.length];
+};
+
+/**
+ * A likely intended career for a misspelt entry, e.g. "astronot" or "간호서".
+ * Returns nothing when `text` already matches the catalog or nothing is close.
+ */
+export const closestCareer = (text: string, allowedIds?: readonly string[]): CareerEntry | undefined => {
+    const query = normalise(text);
+    if (Array.from(query).length < 2 || findCareer(text)) return undefined;
+    // One typo per four characters, but always allow one so short Korean words can be corrected.
+    const maxDistance = Math.max(1, Math.floor(Array.from(query).length / 4));
+    let best: { entry: CareerEntry; distance: number } | undefined;
+    for (const entry of CAREER_CATALOG) {
+        if (!isAllowed(entry, allowedIds)) continue;
+        for (const term of searchTerms.get(entry.id)!) {
+            const distance = editDistance(query, term);
+            if (distance <= maxDistance && (!best || distance < best.distance)) {
+                best = { entry, distance };
+            }
+        }
+    }
+    return best?.entry;
+};
+
+export interface PickCareersOptions {
+    category?: CareerCategory;
+    /** Careers already chosen, as catalog names or synonyms; these are not picked again. */
+    exclude?: readonly string[];
+    allowedIds?: readonly string[];
+    /** Extra filter, e.g. the kiosk blocklist applied to the name that would be shown. */
+    accept?: (entry: CareerEntry) => boolean;
+    random?: () => number;
+}
+
+/** Up to `count` distinct random careers, for "surprise me" and comparison suggestions. */
+export const pickRandomCareers = (count: number, { category, exclude = [], allowedIds, accept, random = Math.random }: PickCareersOptions = {}): CareerEntry[] => {
+    const excludedIds = new Set(exclude.map(text => findCareer(text)?.id));
+    const pool = CAREER_CATALOG.filter(entry => (!category || entry.category === category) && !excludedIds.has(entry.id) && isAllowed(entry, allowedIds) && (accept?.(entry) ?? true));
+    const picked: CareerEntry[] = [];
+    while (picked.length < count && pool.length > 0) {
+        picked.push(...pool.splice(Math.floor(random() * pool.length), 1));
+    }
+    return picked;
+};
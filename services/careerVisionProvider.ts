@@ -0,0 +1,92 @@
+import { type CareerAnalysis, type GenerationResult } from '../types';
+import { type ChatTurn } from './careerChat';
+import { type GenerationErrorKind } from './generationErrors';
+import { type Locale } from './i18n';
+import { type PromptTemplate, type StyleId } from './promptTemplates';
+
+export type ProviderId = 'gemini' | 'remote' | 'mock';
+
+export interface GenerationRequest {
+    /** Data URL of the source photo (`data:<mime>;base64,...`). */
+    imageBase64: string;
+    mimeType: string;
+    /** Career requested by the user. Empty means "let the model choose". */
+    prompt: string;
+    /**
+     * Follow-up edit for a refinement step. When set, `imageBase64` is the
+     * previously generated image rather than the original photo.
+     */
+    instruction?: string;
+    /** Language of the title and analysis. Providers default to `DEFAULT_LOCALE`. */
+    locale?: Locale;
+    /** Image directions for a generation from the original photo; refinements ignore it. Defaults to `DEFAULT_TEMPLATE`. */
+    template?: Pick<PromptTemplate, 'id' | 'body'>;
+    /** Style preset filling the template's `{style}` and `{age}`. Defaults to `DEFAULT_STYLE_ID`. */
+    style?: StyleId;
+    signal?: AbortSignal;
+}
+
+export interface ChatRequest {
+    /** Analysis of the result the conversation is about; the image is not sent. */
+    career: CareerAnalysis;
+    /** Earlier turns, oldest first, without the new question. */
+    history: ChatTurn[];
+    question: string;
+    /** Language of the answer. Providers default to `DEFAULT_LOCALE`. */
+    locale?: Locale;
+    signal?: AbortSignal;
+}
+
+export interface CareerVisionProvider {
+    readonly id: ProviderId;
+    /** False when the provider cannot run, e.g. a missing API key. Checked by the UI instead of throwing at import time. */
+    isConfigured(): Promise<boolean>;
+    generate(request: GenerationRequest): Promise<GenerationResult>;
+    /** Yields the answer in pieces as it is written. Failures are thrown as `GenerationError`s. */
+    streamChat(request: ChatRequest): AsyncIterable<string>;
+}
+
+export const PROVIDER_IDS: readonly ProviderId[] = ['gemini', 'remote', 'mock'];
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+    typeof value === 'string' && (PROVIDER_IDS as readonly string[]).includes(value);
+
+/** Wire format of `POST /api/generate`. */
+export interface GenerateRequestBody {
+    image: string;
+    mimeType: string;
+    prompt?: string;
+    instruction?: string;
+    locale?: Locale;
+    /** A built-in template id, or any id when `templateBody` carries a custom template. */
+    templateId?: string;
+    templateBody?: string;
+    style?: StyleId;
+}
+
+/** Wire format of `POST /api/chat`. */
+export interface ChatRequestBody {
+    career: CareerAnalysis;
+    history: ChatTurn[];
+    question: string;
+    locale?: Locale;
+}
+
+/**
+ * One line of the newline-delimited JSON that `POST /api/chat` streams back.
+ * A failure after the stream has started arrives as an error line, since the
+ * status code has already been sent.
+ */
+export type ChatStreamEvent = { text: string } | ApiErrorBody;
+
+export interface ApiErrorBody {
+    error: string;
+    /** Lets the client rebuild the typed `GenerationError` the server saw. */
+    code?: GenerationErrorKind;
+}
+
+export interface ApiHealthBody {
+    configured: boolean;
+}
+
+export const ALLOWED_IMAGE_MIME_TYPES: readonly string[] = ['image/png', 'image/jpeg', 'image/webp'];
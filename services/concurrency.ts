@@ -0,0 +1,48 @@
+/**
+ * Returns a scheduler that runs at most `concurrency` tasks at a time and
+ * queues the rest in call order.
+ */
+export const createLimiter = (concurrency: number) => {
+    const limit = Math.max(1, Math.floor(concurrency));
+    const queue: (() => void)[] = [];
+    let active = 0;
+
+    const next = () => {
+        if (active >= limit) return;
+        const start = queue.shift();
+        if (!start) return;
+        active++;
+        start();
+    };
+
+    return <T>(task: () => Promise<T>): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            queue.push(() => {
+                task()
+                    .then(resolve, reject)
+                    .finally(() => {
+                        active--;
+                        next();
+                    });
+            });
+            next();
+        });
+};
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
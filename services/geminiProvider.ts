@@ -0,0 +1,269 @@
+import { GoogleGenAI, Modality, GenerateContentResponse, Type, type Schema } from "@google/genai";
+import { type CareerAnalysis, type GenerationResult } from '../types';
+import { AnalysisFormatError, CAREER_ANALYSIS_JSON_EXAMPLES, parseCareerAnalysis } from './careerAnalysis';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+import { GenerationError, toGenerationError } from './generationErrors';
+import { containsPromptInstructions, MAX_INSTRUCTION_LENGTH, resolveCareerPrompt, sanitizePromptText, type CareerPrompt } from './promptInput';
+import { type CareerVisionProvider, type ChatRequest, type GenerationRequest } from './careerVisionProvider';
+import { buildGenerationPrompt, PROMPT_LANGUAGES, promptProvenance } from './promptTemplates';
+import { buildChatSystemPrompt, recentChatHistory } from './careerChat';
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+// Image models cannot use JSON mode, so a malformed analysis is repaired by a text model that can.
+const careerAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        reason: { type: Type.STRING },
+        keySkills: { type: Type.ARRAY, items: { type: Type.STRING } },
+        educationPath: { type: Type.ARRAY, items: { type: Type.STRING } },
+        relatedCareers: { type: Type.ARRAY, items: { type: Type.STRING } },
+        confidenceNote: { type: Type.STRING },
+    },
+    required: ['title', 'reason', 'keySkills', 'educationPath', 'relatedCareers', 'confidenceNote'],
+    propertyOrdering: ['title', 'reason', 'keySkills', 'educationPath', 'relatedCareers', 'confidenceNote'],
+};
+
+// Finish reasons that mean a content policy stopped the output, as opposed to the model simply giving up.
+const SAFETY_FINISH_REASONS: readonly string[] = ['BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+const buildRepairPrompt = (rawText: string, prompt: string, locale: Locale): string => `The following text was supposed to be a JSON career analysis${prompt ? ` for the career "${prompt}"` : ''}, but it is malformed or incomplete.
+Rewrite it as a single JSON object that matches the schema. Keep the original meaning and write all text in ${PROMPT_LANGUAGES[locale]}. Fill missing list fields with reasonable ${PROMPT_LANGUAGES[locale]} entries for the career.
+
+TEXT:
+${rawText}`;
+
+const buildRefinementPrompt = (career: string, instruction: string, locale: Locale): string => `You are a creative AI image editor. The provided image already shows a person as a "${career}". Your task is to apply one follow-up edit to this image and then describe the result.
+
+**FOLLOW-UP EDIT:** "${instruction}"
+
+**CRITICAL INSTRUCTIONS:**
+1.  **GENERATE IMAGE FIRST:** You MUST generate a new image by applying the follow-up edit to the provided image. Keep the person's identity, pose and everything the edit does not mention unchanged.
+2.  **GENERATE TEXT SECOND:** After generating the image, you MUST provide the analysis as a single JSON object, with no markdown and no other text, in exactly this shape:
+${CAREER_ANALYSIS_JSON_EXAMPLES[locale]}
+    Write every value in ${PROMPT_LANGUAGES[locale]}. "title" is "${career}". "reason" explains what you changed for the follow-up edit.
+
+**MANDATORY OUTPUT:** Your final response MUST contain BOTH the generated image AND the JSON analysis. Do not respond with only text.`;
+
+// `career` and `instruction` arrive sanitised, so they cannot close the quotes they are placed in.
+const buildTextPrompt = (career: CareerPrompt | null, locale: Locale, { instruction, template, style }: Pick<GenerationRequest, 'instruction' | 'template' | 'style'>): string =>
+    instruction
+        ? buildRefinementPrompt(career?.title ?? '', instruction, locale)
+        : buildGenerationPrompt(career, locale, template, style);
+
+export interface GeminiProviderOptions {
+    model?: string;
+    /** Overrides the Gemini endpoint, e.g. to point the server at a stubbed upstream. */
+    baseUrl?: string;
+}
+
+export class GeminiProvider implements CareerVisionProvider {
+    readonly id = 'gemini' as const;
+    private client: GoogleGenAI | null = null;
+    private readonly model: string;
+
+    constructor(private readonly apiKey: string | undefined, private readonly options: GeminiProviderOptions = {}) {
+        this.model = options.model ?? GEMINI_IMAGE_MODEL;
+    }
+
+    async isConfigured(): Promise<boolean> {
+        return !!this.apiKey;
+    }
+
+    // The SDK client is created on first use so that a missing key never fails at import time.
+    private getClient(): GoogleGenAI {
+        if (!this.apiKey) {
+            throw new GenerationError('unknown', "API_KEY environment variable is not set");
+        }
+        if (!this.client) {
+            this.client = new GoogleGenAI({
+                apiKey: this.apiKey,
+                httpOptions: this.options.baseUrl ? { baseUrl: this.options.baseUrl } : undefined,
+            });
+        }
+        return this.client;
+    }
+
+    /** One repair attempt: ask a JSON-mode text model to reshape the malformed analysis. */
+    private async repairAnalysis(rawText: string, prompt: string, locale: Locale, signal?: AbortSignal): Promise<CareerAnalysis> {
+        const response = await this.getClient().models.generateContent({
+            model: GEMINI_TEXT_MODEL,
+            contents: buildRepairPrompt(rawText, prompt, locale),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: careerAnalysisSchema,
+                abortSignal: signal,
+            },
+        });
+        return parseCareerAnalysis(response.text ?? '', prompt);
+    }
+
+    private async analyse(rawText: string, prompt: string, locale: Locale, signal?: AbortSignal): Promise<CareerAnalysis> {
+        try {
+            return parseCareerAnalysis(rawText, prompt);
+        } catch (e) {
+            if (!(e instanceof AnalysisFormatError)) throw e;
+            console.warn('Malformed analysis from Gemini, attempting repair.', e.message);
+        }
+        try {
+            return await this.repairAnalysis(rawText, prompt, locale, signal);
+        } catch (e) {
+            if (e instanceof AnalysisFormatError) {
+                throw new AnalysisFormatError(`The model returned an analysis that could not be read, even after a repair attempt. ${e.message}`, rawText);
+            }
+            throw e;
+        }
+    }
+
+    async generate({ imageBase64, mimeType, prompt, instruction, locale = DEFAULT_LOCALE, template, style, signal }: GenerationRequest): Promise<GenerationResult> {
+        if (containsPromptInstructions(prompt) || (instruction && containsPromptInstructions(instruction))) {
+            throw new GenerationError('blocked', 'The career or edit text reads like instructions to the model, so it was not sent.');
+        }
+        const ai = this.getClient();
+        const resolved = resolveCareerPrompt(prompt, locale);
+        const career = resolved.title ? resolved : null;
+        const safeInstruction = instruction ? sanitizePromptText(instruction, MAX_INSTRUCTION_LENGTH) || undefined : undefined;
+
+        const imagePart = {
+            inlineData: {
+                data: imageBase64.split(',')[1],
+                mimeType,
+            },
+        };
+        const textPart = { text: buildTextPrompt(career, locale, { instruction: safeInstruction, template, style }) };
+
+        try {
+            const response: GenerateContentResponse = await ai.models.generateContent({
+                model: this.model,
+                contents: { parts: [imagePart, textPart] },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+            
+            if (!response.candidates || response.candidates.length === 0) {
+                const blockReason = response.promptFeedback?.blockReason;
+                let errorMessage = "The request was blocked, likely for safety reasons. Please try a different image or prompt.";
+                if (blockReason) {
+                    errorMessage = `Request blocked: ${blockReason}. Please adjust your input.`;
+                }
+                throw new GenerationError('blocked', errorMessage, { detail: blockReason });
+            }
+
+            const candidate = response.candidates[0];
+            let generatedImage: string | null = null;
+            let analysisText: string | null = null;
+
+            if (candidate.content?.parts) {
+                for (const part of candidate.content.parts) {
+                    if (part.inlineData) {
+                        generatedImage = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                    } else if (part.text) {
+                        analysisText = (analysisText ?? '') + part.text;
+                    }
+                }
+            }
+
+            if (!generatedImage || !analysisText) {
+                const finishReason = candidate?.finishReason;
+                const safetyRatings = candidate?.safetyRatings;
+
+                console.error('Incomplete response received from Gemini.', JSON.stringify({
+                    hasImage: !!generatedImage,
+                    hasText: !!analysisText,
+                    finishReason,
+                    safetyRatings,
+                    candidate,
+                }, null, 2));
+
+                if (finishReason === 'SAFETY') {
+                    throw new GenerationError('safety', "Generation failed due to safety concerns. The model cannot process this request. Please try a different image or prompt.");
+                }
+                
+                const blockedRating = safetyRatings?.find(rating => rating.blocked);
+                if (blockedRating) {
+                     throw new GenerationError('safety', `Generation failed due to the safety policy for '${blockedRating.category}'. Please try a different image or prompt.`, { detail: blockedRating.category });
+                }
+
+                if (finishReason && finishReason !== 'STOP') {
+                    const kind = SAFETY_FINISH_REASONS.includes(finishReason) ? 'safety' : 'incomplete';
+                    throw new GenerationError(kind, `Generation stopped unexpectedly: ${finishReason}. Please try a different image or prompt.`, { detail: finishReason });
+                }
+                
+                let detailedError = "API did not return both an image and text. The model may have been unable to fulfill the request.";
+                if (generatedImage && !analysisText) {
+                    detailedError = "The API returned an image but no descriptive text. The model might have failed to generate the analysis part.";
+                } else if (!generatedImage && analysisText) {
+                    detailedError = "The API returned an analysis but no image. The model might have failed to generate the image part.";
+                }
+                
+                throw new GenerationError('incomplete', `${detailedError} Please try again with a different image or prompt.`);
+            }
+
+            const analysis = await this.analyse(analysisText, career?.title ?? '', locale, signal);
+
+            return {
+                image: generatedImage,
+                ...analysis,
+                ...(safeInstruction ? {} : promptProvenance(template, style)),
+            };
+
+        } catch (e) {
+            const error = toGenerationError(e);
+            if (error.kind !== 'cancelled') {
+                console.error("Gemini API Error:", e);
+            }
+            throw error;
+        }
+    }
+
+    async *streamChat({ career, history, question, locale = DEFAULT_LOCALE, signal }: ChatRequest): AsyncGenerator<string> {
+        if (containsPromptInstructions(question)) {
+            throw new GenerationError('blocked', 'The question reads like instructions to the model, so it was not sent.');
+        }
+        const ai = this.getClient();
+        const turns = [...recentChatHistory(history), { role: 'user', text: question.trim() }];
+
+        try {
+            const stream = await ai.models.generateContentStream({
+                model: GEMINI_TEXT_MODEL,
+                contents: turns.map(({ role, text }) => ({ role, parts: [{ text }] })),
+                config: {
+                    systemInstruction: buildChatSystemPrompt(career, locale),
+                    // A chat answer needs no reasoning pass, and skipping it gets the first words on screen sooner.
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                },
+            });
+
+            let answered = false;
+            for await (const chunk of stream) {
+                const blockReason = chunk.promptFeedback?.blockReason;
+                if (blockReason) {
+                    throw new GenerationError('blocked', `Request blocked: ${blockReason}. Please rephrase the question.`, { detail: blockReason });
+                }
+                const text = chunk.text;
+                if (text) {
+                    answered = true;
+                    yield text;
+                }
+                const finishReason = chunk.candidates?.[0]?.finishReason;
+                if (finishReason === 'SAFETY' || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+                    throw new GenerationError('safety', `The answer was stopped by the safety policy: ${finishReason}.`, { detail: finishReason });
+                }
+            }
+            if (!answered) {
+                throw new GenerationError('incomplete', 'The model returned an empty answer. Please try again.');
+            }
+        } catch (e) {
+            const error = toGenerationError(e);
+            if (error.kind !== 'cancelled') {
+                console.error("Gemini chat error:", e);
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { GenerationResult } from '../types';
+import { AnalysisFormatError } from './careerAnalysis';
+import type { CareerVisionProvider, GenerationRequest } from './careerVisionProvider';
+import { GenerationError, type GenerationErrorKind } from './generationErrors';
+import { generateImageAndAnalysis, setProvider, withRetry } from './geminiService';
+
+/** A task that fails with the given kinds in turn, then answers `'ok'`; records the signal of every attempt. */
+const scripted = (failures: GenerationErrorKind[]) => {
+    const signals: AbortSignal[] = [];
+    const run = async (signal: AbortSignal): Promise<string> => {
+        signals.push(signal);
+        const kind = failures[signals.length - 1];
+        if (kind) throw new GenerationError(kind, `Attempt ${signals.length} failed.`);
+        return 'ok';
+    };
+    return { run, signals };
+};
+
+/** Never settles on its own; rejects like fetch once its signal aborts. */
+const hang = (signal: AbortSignal): Promise<never> =>
+    new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+    });
+
+const isKind = (kind: GenerationErrorKind) => (e: unknown) => e instanceof GenerationError && e.kind === kind;
+
+describe('withRetry', () => {
+    it('returns the first successful attempt', async () => {
+        const { run, signals } = scripted([]);
+        assert.equal(await withRetry(run), 'ok');
+        assert.equal(signals.length, 1);
+    });
+
+    it('retries retryable failures with growing backoff', async () => {
+        const { run, signals } = scripted(['network', 'incomplete']);
+        const retries: [number, GenerationErrorKind][] = [];
+        const started = Date.now();
+        const result = await withRetry(run, { retries: 2, retryBaseDelayMs: 40, onRetry: (attempt, error) => retries.push([attempt, error.kind]) });
+        assert.equal(result, 'ok');
+        assert.deepEqual(retries, [[1, 'network'], [2, 'incomplete']]);
+        assert.equal(signals.length, 3);
+        // 40 ms before the first retry and 80 ms before the second, plus jitter.
+        assert.ok(Date.now() - started >= 120);
+    });
+
+    it('gives up after the configured number of retries with the last error', async () => {
+        const { run, signals } = scripted(['network', 'timeout', 'network', 'network']);
+        await assert.rejects(withRetry(run, { retries: 2, retryBaseDelayMs: 1 }), (e: unknown) =>
+            isKind('network')(e) && (e as Error).message === 'Attempt 3 failed.');
+        assert.equal(signals.length, 3);
+    });
+
+    for (const kind of ['blocked', 'safety', 'quota', 'format', 'unknown'] as const) {
+        it(`does not retry '${kind}' failures`, async () => {
+            const { run, signals } = scripted([kind]);
+            await assert.rejects(withRetry(run, { retries: 2, retryBaseDelayMs: 1 }), isKind(kind));
+            assert.equal(signals.length, 1);
+        });
+    }
+
+    it('turns other errors into GenerationErrors', async () => {
+        await assert.rejects(withRetry(async () => { throw new Error('RESOURCE_EXHAUSTED'); }, { retries: 0 }), isKind('quota'));
+    });
+
+    it('aborts an attempt that runs past its timeout and reports it as a timeout', async () => {
+        const signals: AbortSignal[] = [];
+        await assert.rejects(withRetry(signal => {
+            signals.push(signal);
+            return hang(signal);
+        }, { timeoutMs: 20, retries: 0 }), isKind('timeout'));
+        assert.equal(signals[0].aborted, true);
+    });
+
+    it('retries an attempt that timed out', async () => {
+        let attempts = 0;
+        const result = await withRetry(signal => ++attempts === 1 ? hang(signal) : Promise.resolve('ok'), { timeoutMs: 20, retries: 1, retryBaseDelayMs: 1 });
+        assert.equal(result, 'ok');
+        assert.equal(attempts, 2);
+    });
+
+    it('passes an abort on to the running attempt and does not retry it', async () => {
+        const controller = new AbortController();
+        const signals: AbortSignal[] = [];
+        const pending = withRetry(signal => {
+            signals.push(signal);
+            return hang(signal);
+        }, { signal: controller.signal, retries: 2, retryBaseDelayMs: 1 });
+        controller.abort();
+        await assert.rejects(pending, isKind('cancelled'));
+        assert.equal(signals.length, 1);
+        assert.equal(signals[0].aborted, true);
+    });
+
+    it('stops waiting for the next attempt as soon as it is aborted', async () => {
+        const controller = new AbortController();
+        const { run, signals } = scripted(['network']);
+        const started = Date.now();
+        const pending = withRetry(run, { signal: controller.signal, retries: 1, retryBaseDelayMs: 10_000, onRetry: () => controller.abort() });
+        await assert.rejects(pending, isKind('cancelled'));
+        assert.equal(signals.length, 1);
+        assert.ok(Date.now() - started < 1_000);
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+        const { run, signals } = scripted([]);
+        await assert.rejects(withRetry(run, { signal: AbortSignal.abort() }), isKind('cancelled'));
+        assert.equal(signals.length, 0);
+    });
+});
+
+describe('generateImageAndAnalysis', () => {
+    it('makes one provider call when the analysis is unreadable after the repair call', async () => {
+        const requests: GenerationRequest[] = [];
+        const provider: CareerVisionProvider = {
+            id: 'gemini',
+            isConfigured: async () => true,
+            generate: async (request): Promise<GenerationResult> => {
+                requests.push(request);
+                throw new AnalysisFormatError('The analysis is missing or has invalid fields: reason.', 'Just a chef.');
+            },
+            streamChat: async function* () { /* Not used. */ },
+        };
+        setProvider(provider);
+        try {
+            await assert.rejects(generateImageAndAnalysis('data:image/png;base64,iVBORw0KGgo=', 'image/png', 'Chef', { retries: 2, retryBaseDelayMs: 1 }), AnalysisFormatError);
+            assert.equal(requests.length, 1);
+        } finally {
+            setProvider('mock');
+        }
+    });
+});
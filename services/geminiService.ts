@@ -1,143 +1,147 @@
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import { type GenerationResult } from '../types';
-
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+import { type CareerAnalysis, type GenerationResult } from '../types';
+import { chatContextOf, recentChatHistory, type ChatTurn } from './careerChat';
+import { type CareerVisionProvider, type ProviderId } from './careerVisionProvider';
+import { type Locale } from './i18n';
+import { type PromptTemplate, type StyleId } from './promptTemplates';
+import { sleep } from './concurrency';
+import { GenerationError, toGenerationError } from './generationErrors';
+import { MockProvider } from './mockProvider';
+import { RemoteProvider } from './remoteProvider';
+
+export interface GenerationOptions {
+    signal?: AbortSignal;
+    /** Language the title and analysis come back in. */
+    locale?: Locale;
+    /** Prompt template and style preset; only used for generations from the original photo. */
+    template?: Pick<PromptTemplate, 'id' | 'body'>;
+    style?: StyleId;
+    /** Per attempt. */
+    timeoutMs?: number;
+    /** Extra attempts after the first one, for retryable failures only. */
+    retries?: number;
+    /** Backoff before retry n is `retryBaseDelayMs * 2^(n-1)` plus jitter. */
+    retryBaseDelayMs?: number;
+    onRetry?: (attempt: number, error: GenerationError) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const parseAnalysisText = (text: string, userPrompt?: string): { title: string; description: string } => {
-    if (userPrompt) {
-        const reasonMatch = text.match(/(?:Reason|이유):\s*(.*)/is);
-        const description = reasonMatch ? reasonMatch[1].trim() : text;
-        return { title: userPrompt, description };
-    }
-    
-    const titleMatch = text.match(/(?:Job Title|직업명):\s*(.*?)\n/i);
-    const reasonMatch = text.match(/(?:Reason|이유):\s*(.*)/is);
-
-    const title = titleMatch ? titleMatch[1].trim() : "분석 결과";
-    let description = reasonMatch ? reasonMatch[1].trim() : text;
+export const DEFAULT_GENERATION_OPTIONS: Required<Omit<GenerationOptions, 'signal' | 'locale' | 'template' | 'style' | 'onRetry'>> = {
+    timeoutMs: Number(process.env.GENERATION_TIMEOUT_MS) || 90_000,
+    retries: 2,
+    retryBaseDelayMs: 1_000,
+};
 
-    if (!reasonMatch && titleMatch) {
-      description = text.replace(titleMatch[0], '').trim();
+// The Gemini key lives on the server only, so in the browser 'gemini' and 'remote' both go through the proxy.
+const createProvider = (id: ProviderId): CareerVisionProvider => {
+    switch (id) {
+        case 'mock':
+            return new MockProvider();
+        case 'gemini':
+        case 'remote':
+            return new RemoteProvider();
     }
-    
-    return { title, description };
 };
 
+// CAREER_VISION_PROVIDER picks the backend; anything other than 'mock' uses the server proxy.
+const configuredProviderId: ProviderId = process.env.CAREER_VISION_PROVIDER === 'mock' ? 'mock' : 'remote';
 
-export const generateImageAndAnalysis = async (imageBase64: string, mimeType: string, prompt: string): Promise<GenerationResult> => {
-    const imagePart = {
-        inlineData: {
-            data: imageBase64.split(',')[1],
-            mimeType,
-        },
-    };
-
-    let textPrompt = '';
-    if (prompt) {
-        textPrompt = `You are a creative AI image editor. Your task is to modify the provided user image to represent a "${prompt}" and then describe your changes.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **GENERATE IMAGE FIRST:** You MUST generate a new image by editing the original to reflect the "${prompt}" career. This is your primary task. For example, for a 'developer', you could add a laptop with code.
-2.  **GENERATE TEXT SECOND:** After generating the image, you MUST provide a description in Korean using this exact format:
-    "이유: [당신이 생성한 이미지에서 '${prompt}' 직업을 표현하기 위해 무엇을 변경했는지 설명하세요.]"
+let activeProvider: CareerVisionProvider = createProvider(configuredProviderId);
 
-**MANDATORY OUTPUT:** Your final response MUST contain BOTH the generated image AND the text description. Do not respond with only text.`;
-    } else {
-        textPrompt = `You are a creative AI image editor. Your task is to choose a suitable career for the person in the provided image, modify the image to represent that career, and then describe your changes.
+export const getProvider = (): CareerVisionProvider => activeProvider;
 
-**CRITICAL INSTRUCTIONS:**
-1.  **GENERATE IMAGE FIRST:** You MUST generate a new image. First, analyze the person and choose a fitting career. Then, edit the original image to reflect that career. This is your primary task. For example, for a 'chef', you could add a kitchen background.
-2.  **GENERATE TEXT SECOND:** After generating the image, you MUST provide a description in Korean using this exact format:
-    "직업명: [당신이 선택한 직업]"
-    "이유: [왜 이 직업을 선택했고, 당신이 생성한 이미지에서 무엇을 변경했는지 설명하세요.]"
+/** Replaces the active provider, e.g. to switch to the offline mock at runtime or inject a fake in tests. */
+export const setProvider = (provider: CareerVisionProvider | ProviderId): void => {
+    activeProvider = typeof provider === 'string' ? createProvider(provider) : provider;
+};
 
-**MANDATORY OUTPUT:** Your final response MUST contain BOTH the generated image AND the text description. Do not respond with only text.`;
-    }
-    const textPart = { text: textPrompt };
+/** Runs one attempt under its own timeout, linked to the caller's signal. */
+const attemptWithTimeout = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-        
-        if (!response.candidates || response.candidates.length === 0) {
-            let errorMessage = "The request was blocked, likely for safety reasons. Please try a different image or prompt.";
-            if (response.promptFeedback?.blockReason) {
-                errorMessage = `Request blocked: ${response.promptFeedback.blockReason}. Please adjust your input.`;
-            }
-            throw new Error(errorMessage);
-        }
-
-        const candidate = response.candidates[0];
-        let generatedImage: string | null = null;
-        let analysisText: string | null = null;
-
-        if (candidate.content?.parts) {
-            for (const part of candidate.content.parts) {
-                if (part.inlineData) {
-                    generatedImage = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                } else if (part.text) {
-                    analysisText = part.text;
-                }
-            }
+        return await run(controller.signal);
+    } catch (e) {
+        if (timedOut) {
+            throw new GenerationError('timeout', `No response within ${Math.round(timeoutMs / 1000)} seconds.`, { cause: e });
         }
+        throw toGenerationError(e);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+    }
+};
 
-        if (!generatedImage || !analysisText) {
-            const finishReason = candidate?.finishReason;
-            const safetyRatings = candidate?.safetyRatings;
-
-            console.error('Incomplete response received from Gemini.', JSON.stringify({
-                hasImage: !!generatedImage,
-                hasText: !!analysisText,
-                finishReason,
-                safetyRatings,
-                candidate,
-            }, null, 2));
+/** Runs `run` with a per-attempt timeout and exponential backoff for retryable failures. */
+export const withRetry = async <T>(run: (signal: AbortSignal) => Promise<T>, options: GenerationOptions = {}): Promise<T> => {
+    const { timeoutMs, retries, retryBaseDelayMs } = { ...DEFAULT_GENERATION_OPTIONS, ...options };
+    const { signal, onRetry } = options;
 
-            if (finishReason === 'SAFETY') {
-                throw new Error("Generation failed due to safety concerns. The model cannot process this request. Please try a different image or prompt.");
-            }
-            
-            const blockedRating = safetyRatings?.find(rating => rating.blocked);
-            if (blockedRating) {
-                 throw new Error(`Generation failed due to the safety policy for '${blockedRating.category}'. Please try a different image or prompt.`);
-            }
-
-            if (finishReason && finishReason !== 'STOP') {
-                throw new Error(`Generation stopped unexpectedly: ${finishReason}. Please try a different image or prompt.`);
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw toGenerationError(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+        }
+        try {
+            return await attemptWithTimeout(run, timeoutMs, signal);
+        } catch (e) {
+            const error = toGenerationError(e);
+            if (signal?.aborted) {
+                throw new GenerationError('cancelled', 'The request was cancelled.', { cause: e });
             }
-            
-            let detailedError = "API did not return both an image and text. The model may have been unable to fulfill the request.";
-            if (generatedImage && !analysisText) {
-                detailedError = "The API returned an image but no descriptive text. The model might have failed to generate the analysis part.";
-            } else if (!generatedImage && analysisText) {
-                detailedError = "The API returned an analysis but no image. The model might have failed to generate the image part.";
+            if (!error.retryable || attempt >= retries) throw error;
+
+            onRetry?.(attempt + 1, error);
+            const backoff = retryBaseDelayMs * 2 ** attempt + Math.random() * retryBaseDelayMs / 2;
+            try {
+                await sleep(backoff, signal);
+            } catch (abortReason) {
+                throw new GenerationError('cancelled', 'The request was cancelled.', { cause: abortReason });
             }
-            
-            throw new Error(`${detailedError} Please try again with a different image or prompt.`);
         }
+    }
+};
 
-        const { title, description } = parseAnalysisText(analysisText, prompt);
-
-        return {
-            image: generatedImage,
-            title,
-            description,
-        };
-
+export const generateImageAndAnalysis = async (imageBase64: string, mimeType: string, prompt: string, options: GenerationOptions = {}): Promise<GenerationResult> =>
+    withRetry(signal => getProvider().generate({ imageBase64, mimeType, prompt, locale: options.locale, template: options.template, style: options.style, signal }), options);
+
+/**
+ * Applies a follow-up edit to an already generated image. `career` is the
+ * title of the version being refined, so the analysis stays about the same job.
+ */
+export const refineImage = async (imageBase64: string, mimeType: string, career: string, instruction: string, options: GenerationOptions = {}): Promise<GenerationResult> =>
+    withRetry(signal => getProvider().generate({ imageBase64, mimeType, prompt: career, instruction, locale: options.locale, signal }), options);
+
+/**
+ * Streams an answer to a follow-up question about a result. Retries and the
+ * timeout only cover the wait for the first piece of text; once the answer is
+ * on screen a failure is reported rather than retried, so nothing is repeated.
+ */
+export async function* streamCareerChat(career: CareerAnalysis, history: ChatTurn[], question: string, options: GenerationOptions = {}): AsyncGenerator<string> {
+    const { signal, locale } = options;
+    const request = { career: chatContextOf(career), history: recentChatHistory(history), question, locale };
+    // The attempt signal stops being linked to the caller's once the first piece arrives, so the stream listens to both.
+    const opened = await withRetry(async attemptSignal => {
+        const streamSignal = signal ? AbortSignal.any([attemptSignal, signal]) : attemptSignal;
+        const iterator = getProvider().streamChat({ ...request, signal: streamSignal })[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+    }, options);
+
+    const { iterator } = opened;
+    try {
+        for (let step = opened.first; !step.done; step = await iterator.next()) {
+            yield step.value;
+        }
     } catch (e) {
-        console.error("Gemini API Error:", e);
-        if (e instanceof Error) {
-            throw e; 
+        if (signal?.aborted) {
+            throw new GenerationError('cancelled', 'The request was cancelled.', { cause: e });
         }
-        throw new Error("An unknown error occurred during the API call.");
+        throw toGenerationError(e);
+    } finally {
+        await iterator.return?.();
     }
-};
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+/**
+ * Why a generation failed. The UI maps each kind to a localized, actionable
+ * message; `retryable` drives the automatic backoff in the service layer.
+ */
+export type GenerationErrorKind =
+    | 'blocked'     // The prompt or image was rejected before generation.
+    | 'safety'      // Generation stopped by a safety filter.
+    | 'incomplete'  // The model answered without an image or text.
+    | 'format'      // The analysis could not be read, even after the one repair attempt; not retried automatically.
+    | 'network'     // Could not reach the server or the upstream API, or it failed with a 5xx.
+    | 'timeout'     // No answer within the configured time.
+    | 'quota'       // Rate limit or quota exhausted.
+    | 'cancelled'   // The user aborted the request.
+    | 'unknown';
+
+const RETRYABLE_KINDS: readonly GenerationErrorKind[] = ['incomplete', 'network', 'timeout'];
+
+export const GENERATION_ERROR_KINDS: readonly GenerationErrorKind[] = [
+    'blocked', 'safety', 'incomplete', 'format', 'network', 'timeout', 'quota', 'cancelled', 'unknown',
+];
+
+export const isGenerationErrorKind = (value: unknown): value is GenerationErrorKind =>
+    typeof value === 'string' && (GENERATION_ERROR_KINDS as readonly string[]).includes(value);
+
+export class GenerationError extends Error {
+    /** Extra detail for logs, e.g. the block reason or safety category. Not shown to users verbatim. */
+    readonly detail?: string;
+
+    constructor(readonly kind: GenerationErrorKind, message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.detail = options.detail;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+export const isAbortError = (e: unknown): boolean =>
+    e instanceof Error && (e.name === 'AbortError' || (e instanceof GenerationError && e.kind === 'cancelled'));
+
+/** Normalises anything thrown during a generation into a GenerationError. */
+export const toGenerationError = (e: unknown): GenerationError => {
+    if (e instanceof GenerationError) return e;
+    if (isAbortError(e)) return new GenerationError('cancelled', 'The request was cancelled.', { cause: e });
+    if (e instanceof Error && e.name === 'TimeoutError') return new GenerationError('timeout', 'The request timed out.', { cause: e });
+
+    const status = typeof e === 'object' && e !== null && 'status' in e ? Number((e as { status: unknown }).status) : NaN;
+    const message = e instanceof Error ? e.message : 'An unknown error occurred during the API call.';
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return new GenerationError('quota', message, { cause: e });
+    }
+    if (status >= 500 || e instanceof TypeError) {
+        // fetch rejects with a TypeError when the network is down.
+        return new GenerationError('network', message, { cause: e });
+    }
+    return new GenerationError('unknown', message, { cause: e });
+};
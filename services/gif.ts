@@ -0,0 +1,271 @@
+/**
+ * Minimal animated GIF89a writer: one shared 256-colour palette built by
+ * median cut, LZW-compressed frames and an infinite loop. Enough for short
+ * cross-fades without pulling an encoder library into the bundle.
+ */
+
+export interface GifFrame {
+    /** RGBA pixels of `width × height`, as returned by `getImageData`. */
+    pixels: Uint8ClampedArray;
+    /** How long the frame stays on screen. GIF stores hundredths of a second. */
+    delayMs: number;
+}
+
+const PALETTE_SIZE = 256;
+const MAX_SAMPLES = 60_000;
+const MAX_CODE = 4096;
+
+const red = (color: number) => (color >>> 16) & 0xff;
+const green = (color: number) => (color >>> 8) & 0xff;
+const blue = (color: number) => color & 0xff;
+const CHANNELS = [red, green, blue];
+
+/** Packs a spread-out subset of all frames' pixels as 0xRRGGBB. */
+const samplePixels = (frames: GifFrame[]): Uint32Array => {
+    const total = frames.reduce((sum, frame) => sum + frame.pixels.length / 4, 0);
+    const step = Math.max(1, Math.floor(total / MAX_SAMPLES));
+    const samples: number[] = [];
+    for (const frame of frames) {
+        const { pixels } = frame;
+        for (let i = 0; i < pixels.length; i += step * 4) {
+            samples.push((pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]);
+        }
+    }
+    return Uint32Array.from(samples);
+};
+
+interface ColorBox {
+    start: number;
+    end: number;
+    /** Widest channel and its range, so the next split is cheap to pick. */
+    channel: number;
+    range: number;
+}
+
+const measureBox = (colors: Uint32Array, start: number, end: number): ColorBox => {
+    let channel = 0;
+    let range = -1;
+    CHANNELS.forEach((read, index) => {
+        let min = 255;
+        let max = 0;
+        for (let i = start; i < end; i++) {
+            const value = read(colors[i]);
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        if (max - min > range) {
+            range = max - min;
+            channel = index;
+        }
+    });
+    return { start, end, channel, range };
+};
+
+/** Median cut over the sampled colours. Returns up to 256 RGB triples. */
+const buildPalette = (colors: Uint32Array): Uint8Array => {
+    const boxes: ColorBox[] = colors.length ? [measureBox(colors, 0, colors.length)] : [];
+    while (boxes.length < PALETTE_SIZE) {
+        let widest = -1;
+        boxes.forEach((box, index) => {
+            if (box.end - box.start > 1 && box.range > 0 && (widest < 0 || box.range > boxes[widest].range)) widest = index;
+        });
+        if (widest < 0) break;
+        const box = boxes[widest];
+        const read = CHANNELS[box.channel];
+        colors.subarray(box.start, box.end).sort((a, b) => read(a) - read(b));
+        const middle = (box.start + box.end) >> 1;
+        boxes.splice(widest, 1, measureBox(colors, box.start, middle), measureBox(colors, middle, box.end));
+    }
+
+    const palette = new Uint8Array(PALETTE_SIZE * 3);
+    boxes.forEach((box, index) => {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        for (let i = box.start; i < box.end; i++) {
+            r += red(colors[i]);
+            g += green(colors[i]);
+            b += blue(colors[i]);
+        }
+        const count = box.end - box.start;
+        palette[index * 3] = Math.round(r / count);
+        palette[index * 3 + 1] = Math.round(g / count);
+        palette[index * 3 + 2] = Math.round(b / count);
+    });
+    return palette;
+};
+
+const nearestColor = (palette: Uint8Array, r: number, g: number, b: number): number => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < PALETTE_SIZE; i++) {
+        const dr = palette[i * 3] - r;
+        const dg = palette[i * 3 + 1] - g;
+        const db = palette[i * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = i;
+        }
+    }
+    return best;
+};
+
+/** Maps pixels to palette indices, caching lookups per 15-bit colour. */
+const createIndexer = (palette: Uint8Array) => {
+    const cache = new Int16Array(1 << 15).fill(-1);
+    return (pixels: Uint8ClampedArray): Uint8Array => {
+        const indices = new Uint8Array(pixels.length / 4);
+        for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+            const key = ((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3);
+            let index = cache[key];
+            if (index < 0) {
+                index = nearestColor(palette, pixels[p], pixels[p + 1], pixels[p + 2]);
+                cache[key] = index;
+            }
+            indices[i] = index;
+        }
+        return indices;
+    };
+};
+
+class ByteWriter {
+    private buffer = new Uint8Array(1 << 16);
+    length = 0;
+
+    byte(value: number) {
+        if (this.length === this.buffer.length) {
+            const grown = new Uint8Array(this.buffer.length * 2);
+            grown.set(this.buffer);
+            this.buffer = grown;
+        }
+        this.buffer[this.length++] = value;
+    }
+
+    uint16(value: number) {
+        this.byte(value & 0xff);
+        this.byte((value >> 8) & 0xff);
+    }
+
+    bytes(values: ArrayLike<number>) {
+        for (let i = 0; i < values.length; i++) this.byte(values[i]);
+    }
+
+    ascii(text: string) {
+        for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+    }
+
+    result(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+/** LZW-compresses palette indices into 255-byte data sub-blocks. */
+const writeImageData = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const block: number[] = [];
+    let bits = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const table = new Map<number, number>();
+
+    const flushBlock = () => {
+        out.byte(block.length);
+        out.bytes(block);
+        block.length = 0;
+    };
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bits & 0xff);
+            if (block.length === 255) flushBlock();
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    out.byte(minCodeSize);
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const next = indices[i];
+        const key = (prefix << 8) | next;
+        const known = table.get(key);
+        if (known !== undefined) {
+            prefix = known;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_CODE) {
+            emit(clearCode);
+            table.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            // The decoder widens its codes one entry later than it adds them, so widen before adding.
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = next;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) block.push(bits & 0xff);
+    if (block.length) flushBlock();
+    out.byte(0);
+};
+
+/** Shared palette for a whole animation, built from a sample of every frame's pixels. */
+export const buildGifPalette = (frames: GifFrame[]): Uint8Array => buildPalette(samplePixels(frames));
+
+/**
+ * Writes a looping GIF one frame at a time, so callers can yield between
+ * frames. Every frame must be `width × height` and is mapped onto `palette`.
+ */
+export class GifWriter {
+    private readonly out = new ByteWriter();
+    private readonly toIndices: (pixels: Uint8ClampedArray) => Uint8Array;
+
+    constructor(private readonly width: number, private readonly height: number, palette: Uint8Array) {
+        this.toIndices = createIndexer(palette);
+        const { out } = this;
+        out.ascii('GIF89a');
+        out.uint16(width);
+        out.uint16(height);
+        out.byte(0xf7); // Global colour table of 256 entries, 8 bits per channel.
+        out.byte(0);
+        out.byte(0);
+        out.bytes(palette);
+
+        // NETSCAPE2.0 application extension: loop forever.
+        out.bytes([0x21, 0xff, 0x0b]);
+        out.ascii('NETSCAPE2.0');
+        out.bytes([0x03, 0x01]);
+        out.uint16(0);
+        out.byte(0);
+    }
+
+    addFrame(frame: GifFrame) {
+        if (frame.pixels.length !== this.width * this.height * 4) throw new Error('Every GIF frame must match the canvas size.');
+        const { out } = this;
+        out.bytes([0x21, 0xf9, 0x04, 0x00]);
+        out.uint16(Math.max(2, Math.round(frame.delayMs / 10)));
+        out.bytes([0x00, 0x00]);
+
+        out.byte(0x2c);
+        out.uint16(0);
+        out.uint16(0);
+        out.uint16(this.width);
+        out.uint16(this.height);
+        out.byte(0);
+        writeImageData(out, this.toIndices(frame.pixels), 8);
+    }
+
+    finish(): Uint8Array {
+        this.out.byte(0x3b);
+        return this.out.result();
+    }
+}
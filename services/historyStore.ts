@@ -0,0 +1,270 @@
+import { createLimiter } from './concurrency';
+import { createId } from './ids';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+import type { ChatMessage, GenerationResult, SessionGeneration, SessionSummary, SourceImage, StoredSession } from '../types';
+
+const DB_NAME = 'career-vision';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+
+/** Sessions beyond this count are evicted oldest first. */
+export const MAX_SESSIONS = 50;
+/** Evict oldest sessions while the origin uses more than this share of its quota. */
+export const EVICTION_USAGE_RATIO = 0.8;
+
+const THUMBNAIL_SIZE = 160;
+
+interface SessionData {
+    id: string;
+    originalImage: SourceImage;
+    generations: SessionGeneration[];
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// addGeneration, saveGenerationChat, setFinalGeneration and renameSession are read-modify-write; comparison mode can finish several tiles at once, so writes are serialised.
+const serialize = createLimiter(1);
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+                    db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(DATA_STORE)) {
+                    db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error('Could not open the history database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('History transaction was aborted.'));
+    });
+
+const isQuotaError = (e: unknown): boolean =>
+    e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const resultBytes = (result: GenerationResult): number =>
+    result.image.length + JSON.stringify({ ...result, image: undefined }).length;
+
+const chatBytes = (chat: ChatMessage[] | undefined): number => chat ? JSON.stringify(chat).length : 0;
+
+const createThumbnail = (source: string): Promise<string> =>
+    new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => {
+            const scale = THUMBNAIL_SIZE / Math.max(image.width, image.height);
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                resolve(source);
+                return;
+            }
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        // A thumbnail is cosmetic; fall back to the original rather than failing the save.
+        image.onerror = () => resolve(source);
+        image.src = source;
+    });
+
+const writeSession = async (summary: SessionSummary, data: SessionData): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(SUMMARY_STORE).put(summary);
+    tx.objectStore(DATA_STORE).put(data);
+    await transactionDone(tx);
+};
+
+// On a quota error, make room by dropping the oldest other session and try once more.
+const writeSessionWithEviction = async (summary: SessionSummary, data: SessionData): Promise<void> => {
+    try {
+        await writeSession(summary, data);
+    } catch (e) {
+        if (!isQuotaError(e)) throw e;
+        const oldest = (await listSessions()).filter(s => s.id !== summary.id).sort((a, b) => a.createdAt - b.createdAt)[0];
+        if (!oldest) throw e;
+        await deleteSession(oldest.id);
+        await writeSession(summary, data);
+    }
+};
+
+/** Newest first. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDb();
+    const summaries = await requestResult(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE]);
+    const [summary, data] = await Promise.all([
+        requestResult(tx.objectStore(SUMMARY_STORE).get(id) as IDBRequest<SessionSummary | undefined>),
+        requestResult(tx.objectStore(DATA_STORE).get(id) as IDBRequest<SessionData | undefined>),
+    ]);
+    if (!summary || !data) return null;
+    return { ...summary, originalImage: data.originalImage, generations: data.generations };
+};
+
+/** `locale` formats the default session name, which is the creation time. */
+export const createSession = async (originalImage: SourceImage, locale: Locale = DEFAULT_LOCALE): Promise<SessionSummary> => {
+    const now = Date.now();
+    const summary: SessionSummary = {
+        id: createId(),
+        name: new Date(now).toLocaleString(locale),
+        createdAt: now,
+        updatedAt: now,
+        thumbnail: await createThumbnail(originalImage.base64),
+        generationCount: 0,
+        approxBytes: originalImage.base64.length,
+    };
+    await writeSessionWithEviction(summary, { id: summary.id, originalImage, generations: [] });
+    await evictOldSessions(summary.id);
+    return summary;
+};
+
+/** Stores a generation built with `createVersion`, keeping its id and lineage. */
+export const addGeneration = (sessionId: string, generation: SessionGeneration): Promise<SessionGeneration | null> =>
+    serialize(async () => {
+        const session = await loadSession(sessionId);
+        if (!session) return null;
+
+        const { result } = generation;
+        const { originalImage, generations, ...summary } = session;
+        await writeSessionWithEviction(
+            {
+                ...summary,
+                updatedAt: generation.createdAt,
+                generationCount: generations.length + 1,
+                lastTitle: result.title,
+                approxBytes: summary.approxBytes + resultBytes(result),
+            },
+            { id: sessionId, originalImage, generations: [...generations, generation] },
+        );
+        await evictOldSessions(sessionId);
+        return generation;
+    });
+
+/** Replaces the follow-up chat stored with one generation. */
+export const saveGenerationChat = (sessionId: string, generationId: string, chat: ChatMessage[]): Promise<void> =>
+    serialize(async () => {
+        const session = await loadSession(sessionId);
+        const generation = session?.generations.find(candidate => candidate.id === generationId);
+        if (!session || !generation) return;
+
+        const { originalImage, generations, ...summary } = session;
+        await writeSessionWithEviction(
+            {
+                ...summary,
+                updatedAt: Date.now(),
+                approxBytes: summary.approxBytes - chatBytes(generation.chat) + chatBytes(chat),
+            },
+            {
+                id: sessionId,
+                originalImage,
+                generations: generations.map(candidate => candidate.id === generationId ? { ...candidate, chat } : candidate),
+            },
+        );
+    });
+
+export const setFinalGeneration = (sessionId: string, generationId: string | null): Promise<void> =>
+    serialize(async () => {
+        const db = await openDb();
+        const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+        const store = tx.objectStore(SUMMARY_STORE);
+        const summary = await requestResult(store.get(sessionId) as IDBRequest<SessionSummary | undefined>);
+        if (summary) {
+            store.put({ ...summary, finalGenerationId: generationId ?? undefined });
+        }
+        await transactionDone(tx);
+    });
+
+export const renameSession = (id: string, name: string): Promise<void> =>
+    serialize(async () => {
+        const db = await openDb();
+        const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+        const store = tx.objectStore(SUMMARY_STORE);
+        const summary = await requestResult(store.get(id) as IDBRequest<SessionSummary | undefined>);
+        if (summary) {
+            store.put({ ...summary, name: name.trim() || summary.name });
+        }
+        await transactionDone(tx);
+    });
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(SUMMARY_STORE).delete(id);
+    tx.objectStore(DATA_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+export const clearSessions = async (): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(SUMMARY_STORE).clear();
+    tx.objectStore(DATA_STORE).clear();
+    await transactionDone(tx);
+};
+
+/** Null when the browser does not expose the Storage API. */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+};
+
+/**
+ * Deletes the oldest sessions while there are more than MAX_SESSIONS or the
+ * origin is above EVICTION_USAGE_RATIO of its quota. `keepId` is never evicted.
+ * Returns the ids that were removed.
+ */
+export const evictOldSessions = async (keepId?: string): Promise<string[]> => {
+    const candidates = (await listSessions())
+        .filter(s => s.id !== keepId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    let remaining = candidates.length + (keepId ? 1 : 0);
+    const evicted: string[] = [];
+
+    const storage = await getStorageUsage();
+    let usage = storage?.usage ?? 0;
+    const usageLimit = storage ? storage.quota * EVICTION_USAGE_RATIO : Infinity;
+
+    for (const session of candidates) {
+        if (remaining <= MAX_SESSIONS && usage <= usageLimit) break;
+        await deleteSession(session.id);
+        evicted.push(session.id);
+        remaining--;
+        usage -= session.approxBytes;
+    }
+    return evicted;
+};
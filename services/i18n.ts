@@ -0,0 +1,55 @@
+/**
+ * Locale handling shared by the UI, the providers and the API server. Kept
+ * free of React and DOM-only APIs at import time so the server can use it.
+ */
+
+export type Locale = 'ko' | 'en';
+
+/** Add a locale here, give it a catalog in `locales/` and a prompt language in `promptTemplates.ts`. */
+export const SUPPORTED_LOCALES: readonly Locale[] = ['ko', 'en'];
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+/** Each language's name in itself, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+    ko: '한국어',
+    en: 'English',
+};
+
+const STORAGE_KEY = 'career-vision.locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/** First supported language in the browser's preference list, matching on the primary subtag ("en-US" -> "en"). */
+export const detectLocale = (languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []): Locale => {
+    for (const language of languages) {
+        const primary = language?.toLowerCase().split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return DEFAULT_LOCALE;
+};
+
+/** The user's saved choice, or the browser language on first visit. */
+export const loadLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch {
+        // Storage can be disabled (private mode, kiosk policies); fall back to detection.
+    }
+    return detectLocale();
+};
+
+export const saveLocale = (locale: Locale): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // Not persisting the choice is harmless; it is still applied for this visit.
+    }
+};
+
+export type MessageParams = Record<string, string | number>;
+
+/** Replaces `{name}` placeholders; unknown placeholders are left as-is so a missing param is visible. */
+export const interpolate = (template: string, params?: MessageParams): string =>
+    params ? template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match)) : template;
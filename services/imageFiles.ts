@@ -0,0 +1,102 @@
+import { ALLOWED_IMAGE_MIME_TYPES } from './careerVisionProvider';
+
+export const isSupportedImage = (file: File): boolean => ALLOWED_IMAGE_MIME_TYPES.includes(file.type);
+
+/** Uploads are downscaled before sending, so this only guards against files that would stall decoding. */
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export type ImageFileIssue = 'unsupportedType' | 'tooLarge';
+
+export const validateImageFile = (file: File): ImageFileIssue | null => {
+    if (!isSupportedImage(file)) return 'unsupportedType';
+    if (file.size > MAX_UPLOAD_BYTES) return 'tooLarge';
+    return null;
+};
+
+/** The first image on the clipboard, e.g. a screenshot or a photo copied from another app. */
+export const imageFromClipboard = (clipboardData: DataTransfer | null): File | null => {
+    const item = Array.from(clipboardData?.items ?? []).find(candidate => candidate.kind === 'file' && candidate.type.startsWith('image/'));
+    const file = item?.getAsFile();
+    if (!file) return null;
+    // Pasted images are usually named "image.png"; give them a clearer name for history and exports.
+    return file.name && file.name !== 'image.png' ? file : new File([file], `pasted-${Date.now()}.${extensionForMimeType(file.type)}`, { type: file.type });
+};
+
+/** Decodes a base64 data URL into raw bytes, e.g. for writing into a ZIP. */
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+/** Encodes raw bytes as a base64 data URL, the form providers take images in. */
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    // Chunked, because spreading a large array into fromCharCode overflows the call stack.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+/** Identifies PNG, JPEG and WebP from their magic bytes, for files that come without a trustworthy type. */
+export const sniffImageMimeType = (bytes: Uint8Array): string | null => {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    // "RIFF" <size> "WEBP"
+    if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+    return null;
+};
+
+export const extensionForMimeType = (mimeType: string): string => {
+    switch (mimeType) {
+        case 'image/jpeg': return 'jpg';
+        case 'image/webp': return 'webp';
+        case 'image/gif': return 'gif';
+        case 'image/svg+xml': return 'svg';
+        default: return 'png';
+    }
+};
+
+export const mimeTypeOfDataUrl = (dataUrl: string): string =>
+    dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [file];
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const files: File[] = [];
+        // readEntries returns results in chunks; keep reading until it comes back empty.
+        for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+            for (const child of batch) {
+                files.push(...await readEntryFiles(child));
+            }
+        }
+        return files;
+    }
+    return [];
+};
+
+/** Collects every file from a drop, descending into dropped folders where the browser allows it. */
+export const filesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files);
+    }
+    const nested = await Promise.all(entries.map(readEntryFiles));
+    return nested.flat();
+};
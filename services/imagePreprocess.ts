@@ -0,0 +1,238 @@
+import type { SourceImage } from '../types';
+import { ALLOWED_IMAGE_MIME_TYPES } from './careerVisionProvider';
+
+export type OutputImageType = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+    /** Longest side of the output in pixels. */
+    maxDimension: number;
+    outputType: OutputImageType;
+    /** Quality is lowered (and, failing that, the size reduced) until the encoded image fits. */
+    targetBytes: number;
+}
+
+/** Square crop in the coordinates of the orientation-corrected image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    size: number;
+}
+
+export interface PreparedImage {
+    /** Orientation-corrected pixels; no metadata survives the trip through the canvas. */
+    canvas: HTMLCanvasElement;
+    width: number;
+    height: number;
+}
+
+export interface PreprocessedImage extends SourceImage {
+    width: number;
+    height: number;
+    bytes: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: 1536,
+    outputType: 'image/jpeg',
+    targetBytes: 800 * 1024,
+};
+
+/** Decoded images are capped at this size before any further work, to keep canvas memory in check. */
+const MAX_DECODE_DIMENSION = 4096;
+const MIN_QUALITY = 0.5;
+const MAX_ENCODE_ATTEMPTS = 8;
+
+export type ImagePreprocessErrorCode = 'canvas' | 'unsupported' | 'decode';
+
+/** The UI shows a localized message per `code`; `message` is for logs. */
+export class ImagePreprocessError extends Error {
+    /** The rejected MIME type for `unsupported`. */
+    readonly detail?: string;
+
+    constructor(readonly code: ImagePreprocessErrorCode, message: string, detail?: string) {
+        super(message);
+        this.name = 'ImagePreprocessError';
+        this.detail = detail;
+    }
+}
+
+interface ExifOrientation {
+    value: number;
+    /** Byte offset of the orientation value, so it can be reset before decoding. */
+    offset: number;
+    littleEndian: boolean;
+}
+
+/** Finds the EXIF orientation tag in a JPEG, if there is one. */
+export const readExifOrientation = (view: DataView): ExifOrientation | null => {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00) return null;
+        const segmentLength = view.getUint16(offset + 2);
+
+        // APP1 segment starting with "Exif\0\0".
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            const tiff = offset + 10;
+            const littleEndian = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+            if (ifd + 2 > view.byteLength) return null;
+            const entries = view.getUint16(ifd, littleEndian);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > view.byteLength) return null;
+                if (view.getUint16(entry, littleEndian) === 0x0112) {
+                    return { value: view.getUint16(entry + 8, littleEndian), offset: entry + 8, littleEndian };
+                }
+            }
+            return null;
+        }
+        if (marker === 0xffda) return null; // Start of scan: no more metadata.
+        offset += 2 + segmentLength;
+    }
+    return null;
+};
+
+const decode = async (blob: Blob): Promise<CanvasImageSource & { width: number; height: number }> => {
+    if (typeof createImageBitmap === 'function') {
+        return createImageBitmap(blob);
+    }
+    const url = URL.createObjectURL(blob);
+    try {
+        return await new Promise<HTMLImageElement>((resolve, reject) => {
+            const image = new Image();
+            image.onload = () => resolve(image);
+            image.onerror = () => reject(new Error('decode failed'));
+            image.src = url;
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// Canvas transforms for EXIF orientations 2-8; 5-8 also swap width and height.
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new ImagePreprocessError('canvas', 'Could not create a 2D canvas context for the image.');
+    }
+    return [canvas, ctx];
+};
+
+/**
+ * Decodes a file into an upright canvas. Browsers disagree on whether they
+ * honour EXIF orientation when decoding, so the tag is reset to 1 first and
+ * the rotation is applied here, which gives the same result everywhere.
+ */
+export const prepareImage = async (file: File): Promise<PreparedImage> => {
+    if (!ALLOWED_IMAGE_MIME_TYPES.includes(file.type)) {
+        throw new ImagePreprocessError('unsupported', `Unsupported image type: ${file.type || 'unknown'}.`, file.type || undefined);
+    }
+
+    const buffer = await file.arrayBuffer();
+    const exif = file.type === 'image/jpeg' ? readExifOrientation(new DataView(buffer)) : null;
+    if (exif && exif.value !== 1) {
+        new DataView(buffer).setUint16(exif.offset, 1, exif.littleEndian);
+    }
+    const orientation = exif && exif.value >= 1 && exif.value <= 8 ? exif.value : 1;
+
+    let source: CanvasImageSource & { width: number; height: number };
+    try {
+        source = await decode(new Blob([buffer], { type: file.type }));
+    } catch {
+        throw new ImagePreprocessError('decode', 'The image could not be decoded.');
+    }
+
+    const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(source.width, source.height));
+    const width = source.width * scale;
+    const height = source.height * scale;
+    const swapped = orientation >= 5;
+    const [canvas, ctx] = createCanvas(swapped ? height : width, swapped ? width : height);
+    applyOrientation(ctx, orientation, Math.round(width), Math.round(height));
+    ctx.drawImage(source, 0, 0, Math.round(width), Math.round(height));
+    if ('close' in source && typeof source.close === 'function') source.close();
+
+    return { canvas, width: canvas.width, height: canvas.height };
+};
+
+const encode = (canvas: HTMLCanvasElement, type: OutputImageType, quality: number): string => {
+    const dataUrl = canvas.toDataURL(type, quality);
+    // Browsers without WebP encoding silently return PNG; fall back to JPEG so the size target still applies.
+    return dataUrl.startsWith(`data:${type}`) ? dataUrl : canvas.toDataURL('image/jpeg', quality);
+};
+
+const dataUrlBytes = (dataUrl: string): number => {
+    const base64Length = dataUrl.length - dataUrl.indexOf(',') - 1;
+    return Math.floor(base64Length * 3 / 4);
+};
+
+const toResult = ({ dataUrl, width, height }: { dataUrl: string; width: number; height: number }): PreprocessedImage => ({
+    base64: dataUrl,
+    mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+    width,
+    height,
+    bytes: dataUrlBytes(dataUrl),
+});
+
+/** Crops, downscales and re-encodes a prepared image into what the service consumes. */
+export const exportPreparedImage = (prepared: PreparedImage, crop: CropRect | null, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): PreprocessedImage => {
+    const region = crop
+        ? {
+            x: Math.max(0, Math.min(crop.x, prepared.width - 1)),
+            y: Math.max(0, Math.min(crop.y, prepared.height - 1)),
+            width: Math.min(crop.size, prepared.width),
+            height: Math.min(crop.size, prepared.height),
+        }
+        : { x: 0, y: 0, width: prepared.width, height: prepared.height };
+
+    let scale = Math.min(1, options.maxDimension / Math.max(region.width, region.height));
+    let best: { dataUrl: string; width: number; height: number } | null = null;
+
+    for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+        const [canvas, ctx] = createCanvas(region.width * scale, region.height * scale);
+        if (options.outputType === 'image/jpeg') {
+            // JPEG has no alpha; transparent PNG pixels would otherwise turn black.
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(prepared.canvas, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+
+        for (let quality = 0.92; quality >= MIN_QUALITY; quality -= 0.14) {
+            const dataUrl = encode(canvas, options.outputType, quality);
+            best = { dataUrl, width: canvas.width, height: canvas.height };
+            if (dataUrlBytes(dataUrl) <= options.targetBytes) {
+                return toResult(best);
+            }
+        }
+        scale *= 0.8;
+    }
+    return toResult(best!);
+};
+
+/** The square crop centred on the image, used as the cropper's starting point. */
+export const centeredSquareCrop = (prepared: Pick<PreparedImage, 'width' | 'height'>): CropRect => {
+    const size = Math.min(prepared.width, prepared.height);
+    return { x: (prepared.width - size) / 2, y: (prepared.height - size) / 2, size };
+};
+
+/** One-shot pipeline without interactive cropping, e.g. for batch mode. */
+export const preprocessImage = async (file: File, crop: CropRect | null = null, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreprocessedImage> =>
+    exportPreparedImage(await prepareImage(file), crop, options);
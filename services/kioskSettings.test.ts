@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CAREER_CATALOG } from './careerCatalog';
+import {
+    checkCareerPolicy,
+    checkInstructionPolicy,
+    containsBlockedTerm,
+    DEFAULT_KIOSK_SETTINGS,
+    exportKioskSettings,
+    hashPin,
+    importKioskSettings,
+    isValidPin,
+    KioskSettingsError,
+    MAX_GENERATIONS_PER_SESSION,
+    parseKioskSettings,
+    remainingChatQuestions,
+    remainingGenerations,
+    verifyPin,
+    type KioskSettings,
+} from './kioskSettings';
+
+const kiosk = (overrides: Partial<KioskSettings> = {}): KioskSettings => ({ ...DEFAULT_KIOSK_SETTINGS, enabled: true, ...overrides });
+
+const exportFile = (settings: unknown) => JSON.stringify({ format: 'career-vision-kiosk-settings', version: 1, settings });
+
+describe('importKioskSettings', () => {
+    it('reads back what was exported', () => {
+        const settings = kiosk({ maxGenerationsPerSession: 5, maxChatQuestionsPerSession: 10, blockedTerms: ['zombie'] });
+        assert.deepEqual(importKioskSettings(exportKioskSettings(settings)), settings);
+    });
+
+    it('rejects text that is not JSON', () => {
+        assert.throws(() => importKioskSettings('{ "format": '), { name: 'KioskSettingsError', message: /not valid JSON/ });
+    });
+
+    it('rejects other files and other versions', () => {
+        assert.throws(() => importKioskSettings(JSON.stringify({ settings: kiosk() })), /not a Career Vision kiosk settings export/);
+        assert.throws(() => importKioskSettings(JSON.stringify({ format: 'career-vision-kiosk-settings', version: 2, settings: kiosk() })), /Unsupported settings version 2/);
+    });
+
+    it('rejects fields of the wrong type', () => {
+        for (const settings of [
+            null,
+            { ...kiosk(), enabled: 'yes' },
+            { ...kiosk(), pinHash: '1234' },
+            { ...kiosk(), blockedTerms: 'zombie' },
+            { ...kiosk(), maxGenerationsPerSession: -1 },
+            { ...kiosk(), inactivityResetMinutes: 2.5 },
+        ]) {
+            assert.throws(() => importKioskSettings(exportFile(settings)), KioskSettingsError);
+        }
+    });
+});
+
+describe('parseKioskSettings', () => {
+    it('clamps caps, drops unknown careers and empty terms', () => {
+        const parsed = parseKioskSettings({
+            ...kiosk(),
+            allowedCareerIds: [CAREER_CATALOG[0].id, 'no-such-career'],
+            maxGenerationsPerSession: MAX_GENERATIONS_PER_SESSION + 50,
+            blockedTerms: [' zombie ', '  '],
+        });
+        assert.deepEqual(parsed.allowedCareerIds, [CAREER_CATALOG[0].id]);
+        assert.equal(parsed.maxGenerationsPerSession, MAX_GENERATIONS_PER_SESSION);
+        assert.deepEqual(parsed.blockedTerms, ['zombie']);
+    });
+
+    it('leaves chat unlimited for settings saved before the chat cap existed', () => {
+        const { maxChatQuestionsPerSession: _omitted, ...older } = kiosk();
+        assert.equal(parseKioskSettings(older).maxChatQuestionsPerSession, 0);
+    });
+});
+
+describe('PIN', () => {
+    it('accepts 4 to 8 digits only', () => {
+        assert.equal(isValidPin('1234'), true);
+        assert.equal(isValidPin('12345678'), true);
+        assert.equal(isValidPin('123'), false);
+        assert.equal(isValidPin('123456789'), false);
+        assert.equal(isValidPin('12a4'), false);
+    });
+
+    it('stores a hash that verifies only the same PIN', async () => {
+        const pinHash = await hashPin('2468');
+        assert.match(pinHash, /^[0-9a-f]{64}$/);
+        assert.notEqual(pinHash, await hashPin('2469'));
+        assert.equal(await verifyPin('2468', pinHash), true);
+        assert.equal(await verifyPin('2469', pinHash), false);
+        assert.equal(await verifyPin('2468', null), false);
+    });
+});
+
+describe('session caps', () => {
+    it('counts down the generations left and stops at zero', () => {
+        const settings = kiosk({ maxGenerationsPerSession: 3 });
+        assert.equal(remainingGenerations(0, settings), 3);
+        assert.equal(remainingGenerations(2, settings), 1);
+        assert.equal(remainingGenerations(5, settings), 0);
+    });
+
+    it('is unlimited when the cap is 0 or kiosk mode is off', () => {
+        assert.equal(remainingGenerations(50, kiosk({ maxGenerationsPerSession: 0 })), Infinity);
+        assert.equal(remainingGenerations(50, kiosk({ enabled: false, maxGenerationsPerSession: 3 })), Infinity);
+        assert.equal(remainingChatQuestions(50, kiosk({ enabled: false, maxChatQuestionsPerSession: 3 })), Infinity);
+    });
+
+    it('caps chat questions separately from generations', () => {
+        const settings = kiosk({ maxGenerationsPerSession: 1, maxChatQuestionsPerSession: 4 });
+        assert.equal(remainingChatQuestions(1, settings), 3);
+        assert.equal(remainingGenerations(1, settings), 0);
+    });
+});
+
+describe('blocklist', () => {
+    it('matches regardless of case, spacing and full-width letters', () => {
+        const terms = ['Zombie Hunter'];
+        assert.equal(containsBlockedTerm('zombiehunter', terms), true);
+        assert.equal(containsBlockedTerm('ＺＯＭＢＩＥ  hunter apprentice', terms), true);
+        assert.equal(containsBlockedTerm('zombie', terms), false);
+        assert.equal(containsBlockedTerm('anything', ['  ']), false);
+    });
+
+    it('applies to careers and edit requests only while kiosk mode is on', () => {
+        const settings = kiosk({ blockedTerms: ['좀비'] });
+        assert.equal(checkCareerPolicy('좀비 사냥꾼', settings), 'blocked');
+        assert.equal(checkInstructionPolicy('좀비 분장으로 바꿔줘', settings), 'blocked');
+        assert.equal(checkCareerPolicy('좀비 사냥꾼', { ...settings, enabled: false }), null);
+    });
+});
+
+describe('checkCareerPolicy', () => {
+    const [allowed, other] = CAREER_CATALOG;
+
+    it('allows only listed catalog careers when careers are restricted', () => {
+        const settings = kiosk({ restrictCareers: true, allowedCareerIds: [allowed.id] });
+        assert.equal(checkCareerPolicy(allowed.names.en, settings), null);
+        assert.equal(checkCareerPolicy(allowed.names.ko, settings), null);
+        assert.equal(checkCareerPolicy(other.names.en, settings), 'notAllowed');
+        assert.equal(checkCareerPolicy('Dragon tamer', settings), 'notAllowed');
+        assert.equal(checkCareerPolicy('  ', settings), 'careerRequired');
+    });
+
+    it('checks the blocklist before the allow-list', () => {
+        const settings = kiosk({ restrictCareers: true, allowedCareerIds: [allowed.id], blockedTerms: [allowed.names.en] });
+        assert.equal(checkCareerPolicy(allowed.names.en, settings), 'blocked');
+    });
+
+    it('allows any career, or none, without restrictions', () => {
+        assert.equal(checkCareerPolicy('Dragon tamer', kiosk()), null);
+        assert.equal(checkCareerPolicy('', kiosk()), null);
+    });
+});
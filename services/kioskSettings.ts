@@ -0,0 +1,225 @@
+import { CAREER_CATALOG, findCareer } from './careerCatalog';
+
+/**
+ * Restrictions for shared school devices. Changed only through the PIN
+ * protected admin panel; students see their effects but not the settings.
+ */
+export interface KioskSettings {
+    /** Master switch; with it off the other restrictions are kept but not applied. */
+    enabled: boolean;
+    /** SHA-256 of the PIN. A short PIN is easy to brute-force, so this keeps curious students out, not attackers. */
+    pinHash: string | null;
+    /** Only careers in `allowedCareerIds` may be generated, and the AI may not pick one itself. */
+    restrictCareers: boolean;
+    /** Catalog ids from `careerCatalog`. */
+    allowedCareerIds: string[];
+    /** Successful generations per kiosk session (see `KioskUsage`), refinements included. 0 means unlimited. */
+    maxGenerationsPerSession: number;
+    /** Chat questions per kiosk session, across all results. 0 means unlimited. */
+    maxChatQuestionsPerSession: number;
+    /** Terms that must not appear in a career or refinement, matched case- and space-insensitively. */
+    blockedTerms: string[];
+    /** Reset to the upload screen after this many idle minutes. 0 turns it off. */
+    inactivityResetMinutes: number;
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+    enabled: false,
+    pinHash: null,
+    restrictCareers: false,
+    allowedCareerIds: CAREER_CATALOG.map(entry => entry.id),
+    maxGenerationsPerSession: 0,
+    maxChatQuestionsPerSession: 0,
+    blockedTerms: [],
+    inactivityResetMinutes: 0,
+};
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const MAX_INACTIVITY_RESET_MINUTES = 120;
+export const MAX_GENERATIONS_PER_SESSION = 100;
+export const MAX_CHAT_QUESTIONS_PER_SESSION = 200;
+
+const STORAGE_KEY = 'career-vision.kiosk';
+const USAGE_STORAGE_KEY = 'career-vision.kiosk-usage';
+const EXPORT_FORMAT = 'career-vision-kiosk-settings';
+const EXPORT_VERSION = 1;
+
+export class KioskSettingsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KioskSettingsError';
+    }
+}
+
+export const isValidPin = (pin: string): boolean =>
+    new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+// crypto.subtle only exists in secure contexts; kiosks are served over HTTPS or localhost anyway for the camera.
+export const hashPin = async (pin: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`career-vision:${pin}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (pin: string, pinHash: string | null): Promise<boolean> =>
+    pinHash !== null && (await hashPin(pin)) === pinHash;
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPinHash = (value: unknown): value is string =>
+    typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+
+const clampInteger = (value: unknown, max: number, field: string): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new KioskSettingsError(`'${field}' must be a whole number of 0 or more.`);
+    }
+    return Math.min(value, max);
+};
+
+/** Validates settings from storage or an imported file; unknown catalog ids and empty terms are dropped. */
+export const parseKioskSettings = (value: unknown): KioskSettings => {
+    if (!value || typeof value !== 'object') {
+        throw new KioskSettingsError('Settings must be a JSON object.');
+    }
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.enabled !== 'boolean' || typeof raw.restrictCareers !== 'boolean') {
+        throw new KioskSettingsError("'enabled' and 'restrictCareers' must be true or false.");
+    }
+    let pinHash: string | null = null;
+    if (raw.pinHash !== null && raw.pinHash !== undefined) {
+        if (!isPinHash(raw.pinHash)) {
+            throw new KioskSettingsError("'pinHash' must be null or a SHA-256 hex digest.");
+        }
+        pinHash = raw.pinHash;
+    }
+    if (!isStringArray(raw.allowedCareerIds) || !isStringArray(raw.blockedTerms)) {
+        throw new KioskSettingsError("'allowedCareerIds' and 'blockedTerms' must be lists of strings.");
+    }
+    const knownIds = new Set(CAREER_CATALOG.map(entry => entry.id));
+    return {
+        enabled: raw.enabled,
+        pinHash,
+        restrictCareers: raw.restrictCareers,
+        allowedCareerIds: raw.allowedCareerIds.filter(id => knownIds.has(id)),
+        maxGenerationsPerSession: clampInteger(raw.maxGenerationsPerSession, MAX_GENERATIONS_PER_SESSION, 'maxGenerationsPerSession'),
+        // Settings saved or exported before the chat cap existed leave chat unlimited.
+        maxChatQuestionsPerSession: clampInteger(raw.maxChatQuestionsPerSession ?? 0, MAX_CHAT_QUESTIONS_PER_SESSION, 'maxChatQuestionsPerSession'),
+        blockedTerms: raw.blockedTerms.map(term => term.trim()).filter(Boolean),
+        inactivityResetMinutes: clampInteger(raw.inactivityResetMinutes, MAX_INACTIVITY_RESET_MINUTES, 'inactivityResetMinutes'),
+    };
+};
+
+export const loadKioskSettings = (): KioskSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return parseKioskSettings(JSON.parse(stored));
+    } catch (e) {
+        console.warn('Ignoring unreadable kiosk settings:', e);
+    }
+    return DEFAULT_KIOSK_SETTINGS;
+};
+
+/** Unlike the locale, failing to persist restrictions must be visible to the adult who set them, so this throws. */
+export const saveKioskSettings = (settings: KioskSettings): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * What the current kiosk session has used. It spans uploads and page reloads,
+ * so a new photo does not buy more generations; only the inactivity reset or
+ * the teacher starts a new session.
+ */
+export interface KioskUsage {
+    generations: number;
+    /** Chat questions sent, whether or not the answer arrived. */
+    chatQuestions: number;
+}
+
+export const EMPTY_KIOSK_USAGE: KioskUsage = { generations: 0, chatQuestions: 0 };
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const loadKioskUsage = (): KioskUsage => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? 'null');
+        if (isCount(stored?.generations)) {
+            return { generations: stored.generations, chatQuestions: isCount(stored.chatQuestions) ? stored.chatQuestions : 0 };
+        }
+    } catch (e) {
+        console.warn('Ignoring unreadable kiosk usage:', e);
+    }
+    return EMPTY_KIOSK_USAGE;
+};
+
+/** Best-effort: if storage is full the count still holds until the page is reloaded. */
+export const saveKioskUsage = (usage: KioskUsage): void => {
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(usage));
+    } catch (e) {
+        console.warn('Failed to save kiosk usage:', e);
+    }
+};
+
+/** JSON for rolling the same settings out to other devices, PIN hash included. */
+export const exportKioskSettings = (settings: KioskSettings): string =>
+    JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, settings }, null, 2);
+
+export const importKioskSettings = (json: string): KioskSettings => {
+    let file: unknown;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new KioskSettingsError('The file is not valid JSON.');
+    }
+    const { format, version, settings } = (file ?? {}) as Record<string, unknown>;
+    if (format !== EXPORT_FORMAT) {
+        throw new KioskSettingsError('The file is not a Career Vision kiosk settings export.');
+    }
+    if (version !== EXPORT_VERSION) {
+        throw new KioskSettingsError(`Unsupported settings version ${String(version)}.`);
+    }
+    return parseKioskSettings(settings);
+};
+
+export type CareerPolicyIssue = 'careerRequired' | 'notAllowed' | 'blocked';
+
+const normaliseTerm = (text: string): string => text.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+
+export const containsBlockedTerm = (text: string, blockedTerms: readonly string[]): boolean => {
+    const haystack = normaliseTerm(text);
+    return blockedTerms.some(term => {
+        const needle = normaliseTerm(term);
+        return needle.length > 0 && haystack.includes(needle);
+    });
+};
+
+/**
+ * Checks a career before it is sent for generation. With kiosk mode off
+ * everything is allowed. An empty career means "let the AI choose", which
+ * an allow-list rules out.
+ */
+export const checkCareerPolicy = (career: string, settings: KioskSettings): CareerPolicyIssue | null => {
+    if (!settings.enabled) return null;
+    if (containsBlockedTerm(career, settings.blockedTerms)) return 'blocked';
+    if (!settings.restrictCareers) return null;
+    if (!career.trim()) return 'careerRequired';
+    const entry = findCareer(career);
+    return entry && settings.allowedCareerIds.includes(entry.id) ? null : 'notAllowed';
+};
+
+/** Refinement instructions are free text, so only the blocklist applies to them. */
+export const checkInstructionPolicy = (instruction: string, settings: KioskSettings): CareerPolicyIssue | null =>
+    settings.enabled && containsBlockedTerm(instruction, settings.blockedTerms) ? 'blocked' : null;
+
+/** How many more generations this session may run; Infinity when uncapped. */
+export const remainingGenerations = (used: number, settings: KioskSettings): number =>
+    settings.enabled && settings.maxGenerationsPerSession > 0 ? Math.max(0, settings.maxGenerationsPerSession - used) : Infinity;
+
+/** How many more chat questions this session may ask; Infinity when uncapped. */
+export const remainingChatQuestions = (used: number, settings: KioskSettings): number =>
+    settings.enabled && settings.maxChatQuestionsPerSession > 0 ? Math.max(0, settings.maxChatQuestionsPerSession - used) : Infinity;
+
+/** Catalog ids students may pick from, or undefined when any career is fine. */
+export const allowedCareerIdsFor = (settings: KioskSettings): readonly string[] | undefined =>
+    settings.enabled && settings.restrictCareers ? settings.allowedCareerIds : undefined;
@@ -0,0 +1,362 @@
+import { type CareerAnalysis, type GenerationResult } from '../types';
+import { findCareer } from './careerCatalog';
+import { type CareerVisionProvider, type ChatRequest, type GenerationRequest } from './careerVisionProvider';
+import { sleep } from './concurrency';
+import { toGenerationError } from './generationErrors';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+import { bytesToDataUrl } from './imageFiles';
+import { resolveCareerPrompt } from './promptInput';
+import { promptProvenance } from './promptTemplates';
+
+interface CannedCareerText {
+    title: string;
+    reason: string;
+    keySkills: string[];
+    educationPath: string[];
+    relatedCareers: string[];
+}
+
+interface CannedCareer {
+    /** Catalog careers this scene's badge and tint fit, so a requested career gets a matching look. */
+    careerIds: readonly string[];
+    emoji: string;
+    tint: string;
+    text: Record<Locale, CannedCareerText>;
+}
+
+const CANNED_CAREERS: CannedCareer[] = [
+    {
+        careerIds: ['astronaut'],
+        emoji: '🚀',
+        tint: '#1e3a8a',
+        text: {
+            ko: {
+                title: '우주비행사',
+                reason: '밝은 눈빛과 호기심 가득한 표정에서 미지의 세계를 탐험할 용기가 느껴졌어요. 배경을 깊은 우주의 푸른빛으로 바꾸고 로켓 배지를 달아 우주비행사의 모습을 표현했습니다.',
+                keySkills: ['체력과 인내심', '물리·공학 지식', '위기 대처 능력'],
+                educationPath: ['이공계 대학 진학(항공우주공학 등)', '대학원 또는 조종·연구 경력', '우주비행사 선발 및 훈련'],
+                relatedCareers: ['항공우주 엔지니어', '파일럿', '천문학자'],
+            },
+            en: {
+                title: 'Astronaut',
+                reason: 'The bright eyes and curious expression suggested the courage to explore the unknown. The background was turned deep-space blue and a rocket badge was added to show an astronaut.',
+                keySkills: ['Stamina and patience', 'Physics and engineering', 'Staying calm in a crisis'],
+                educationPath: ['Study science or engineering (e.g. aerospace)', 'Graduate study or flight and research experience', 'Astronaut selection and training'],
+                relatedCareers: ['Aerospace engineer', 'Pilot', 'Astronomer'],
+            },
+        },
+    },
+    {
+        careerIds: ['chef', 'baker'],
+        emoji: '👨‍🍳',
+        tint: '#b45309',
+        text: {
+            ko: {
+                title: '셰프',
+                reason: '따뜻한 미소가 사람들에게 맛있는 음식을 대접하는 모습과 잘 어울렸어요. 주방의 따뜻한 조명 느낌을 더하고 셰프 배지를 달아 요리사의 모습을 표현했습니다.',
+                keySkills: ['미각과 창의력', '위생·안전 관리', '팀 리더십'],
+                educationPath: ['조리 관련 고등학교 또는 학원', '조리학과 진학 또는 자격증 취득', '레스토랑 주방 실무 경력'],
+                relatedCareers: ['파티시에', '푸드 스타일리스트', '외식 창업가'],
+            },
+            en: {
+                title: 'Chef',
+                reason: 'The warm smile fits someone who serves great food to others. Warm kitchen lighting and a chef badge were added to show a cook at work.',
+                keySkills: ['Taste and creativity', 'Hygiene and safety', 'Team leadership'],
+                educationPath: ['Culinary high school or cooking classes', 'Culinary degree or certification', 'Hands-on experience in restaurant kitchens'],
+                relatedCareers: ['Pastry chef', 'Food stylist', 'Restaurant founder'],
+            },
+        },
+    },
+    {
+        careerIds: ['software-developer', 'data-scientist', 'robotics-engineer', 'esports-player'],
+        emoji: '💻',
+        tint: '#065f46',
+        text: {
+            ko: {
+                title: '소프트웨어 개발자',
+                reason: '차분하고 집중력 있는 인상에서 복잡한 문제를 끈기 있게 해결하는 개발자의 모습이 떠올랐어요. 모니터 불빛 같은 초록빛 톤과 노트북 배지로 개발자의 분위기를 연출했습니다.',
+                keySkills: ['논리적 사고', '프로그래밍', '협업과 문서화'],
+                educationPath: ['정보·수학 과목 심화 학습', '컴퓨터공학 전공 또는 부트캠프', '인턴십과 개인 프로젝트'],
+                relatedCareers: ['데이터 과학자', '게임 개발자', 'UX 엔지니어'],
+            },
+            en: {
+                title: 'Software developer',
+                reason: 'The calm, focused look brought to mind a developer who patiently works through hard problems. A green, monitor-like tone and a laptop badge set the mood.',
+                keySkills: ['Logical thinking', 'Programming', 'Collaboration and documentation'],
+                educationPath: ['Advanced computing and maths classes', 'Computer science degree or bootcamp', 'Internships and personal projects'],
+                relatedCareers: ['Data scientist', 'Game developer', 'UX engineer'],
+            },
+        },
+    },
+    {
+        careerIds: ['doctor', 'nurse', 'dentist', 'pharmacist', 'veterinarian', 'paramedic'],
+        emoji: '🩺',
+        tint: '#0e7490',
+        text: {
+            ko: {
+                title: '의사',
+                reason: '믿음직한 표정에서 다른 사람을 돌보는 따뜻한 마음이 느껴졌어요. 병원의 깨끗한 청록색 톤과 청진기 배지로 의사의 모습을 표현했습니다.',
+                keySkills: ['공감과 소통', '생명과학 지식', '정확한 판단력'],
+                educationPath: ['생명과학·화학 심화 학습', '의과대학 또는 의학전문대학원', '인턴·레지던트 수련'],
+                relatedCareers: ['간호사', '약사', '의공학자'],
+            },
+            en: {
+                title: 'Doctor',
+                reason: 'The trustworthy expression suggested a caring person who looks after others. A clean hospital teal and a stethoscope badge show a doctor.',
+                keySkills: ['Empathy and communication', 'Life science knowledge', 'Careful judgement'],
+                educationPath: ['Advanced biology and chemistry', 'Medical school', 'Internship and residency'],
+                relatedCareers: ['Nurse', 'Pharmacist', 'Biomedical engineer'],
+            },
+        },
+    },
+    {
+        careerIds: ['painter', 'designer', 'animator', 'photographer'],
+        emoji: '🎨',
+        tint: '#9d174d',
+        text: {
+            ko: {
+                title: '화가',
+                reason: '개성 있는 분위기에서 풍부한 상상력과 감수성이 느껴졌어요. 화사한 색감을 덧입히고 팔레트 배지를 달아 화가의 모습을 표현했습니다.',
+                keySkills: ['관찰력', '색채 감각', '꾸준한 작업 습관'],
+                educationPath: ['미술 실기 준비', '미술대학 진학 또는 독립 작업', '전시와 포트폴리오 구축'],
+                relatedCareers: ['일러스트레이터', '디자이너', '미술 교사'],
+            },
+            en: {
+                title: 'Painter',
+                reason: 'The distinctive mood suggested a rich imagination and sensitivity. Vivid colours and a palette badge show a painter.',
+                keySkills: ['Observation', 'Sense of colour', 'Steady working habits'],
+                educationPath: ['Practical art preparation', 'Art school or independent practice', 'Exhibitions and a portfolio'],
+                relatedCareers: ['Illustrator', 'Designer', 'Art teacher'],
+            },
+        },
+    },
+    {
+        careerIds: ['scientist'],
+        emoji: '🔬',
+        tint: '#5b21b6',
+        text: {
+            ko: {
+                title: '과학자',
+                reason: '날카로운 눈빛에서 세상의 원리를 파고드는 탐구심이 느껴졌어요. 실험실의 보랏빛 조명과 현미경 배지로 과학자의 모습을 표현했습니다.',
+                keySkills: ['탐구심', '실험 설계', '데이터 분석'],
+                educationPath: ['과학 과목 심화 학습', '자연과학 전공', '대학원 연구 과정'],
+                relatedCareers: ['연구원', '과학 커뮤니케이터', '기술 컨설턴트'],
+            },
+            en: {
+                title: 'Scientist',
+                reason: 'The sharp gaze suggested a curiosity about how the world works. Purple lab lighting and a microscope badge show a scientist.',
+                keySkills: ['Curiosity', 'Experiment design', 'Data analysis'],
+                educationPath: ['Advanced science classes', 'Natural science degree', 'Graduate research'],
+                relatedCareers: ['Researcher', 'Science communicator', 'Technology consultant'],
+            },
+        },
+    },
+];
+
+type ChatTopic = 'study' | 'skills' | 'related' | 'general';
+
+// Rough keyword match on the question, enough to make the demo answers feel relevant.
+const CHAT_TOPIC_PATTERNS: [Exclude<ChatTopic, 'general'>, RegExp][] = [
+    ['study', /공부|전공|대학|학교|학과|자격증|study|school|degree|major|college|universit|course/i],
+    ['skills', /역량|능력|기술|스킬|잘해야|skill|abilit|good at|strength/i],
+    ['related', /비슷|관련|다른 직업|similar|related|other (jobs|careers)|alternative/i],
+];
+
+const chatTopicOf = (question: string): ChatTopic =>
+    CHAT_TOPIC_PATTERNS.find(([, pattern]) => pattern.test(question))?.[0] ?? 'general';
+
+interface MockCopy {
+    prompted: (career: string, emoji: string) => string;
+    refined: (instruction: string, emoji: string) => string;
+    demoSuffix: string;
+    genericSkills: string[];
+    genericPath: (career: string) => string[];
+    confidenceNote: string;
+    chat: (topic: ChatTopic, career: CareerAnalysis) => string;
+}
+
+const listLines = (items: string[]): string => items.map(item => `- ${item}`).join('\n');
+
+const MOCK_COPY: Record<Locale, MockCopy> = {
+    ko: {
+        prompted: (career, emoji) => `이 사진 속 인물이 '${career}'(으)로 일하는 모습을 상상해 보았어요. 전체적인 색감을 바꾸고 ${emoji} 배지를 달아 직업의 분위기를 표현했습니다.`,
+        refined: (instruction, emoji) => `'${instruction}' 요청에 맞춰 이전 이미지의 색감을 바꾸고 ${emoji} 배지를 새로 달았습니다.`,
+        demoSuffix: '(오프라인 데모 결과입니다)',
+        genericSkills: ['호기심', '꾸준한 학습', '협업 능력'],
+        genericPath: career => [`'${career}' 관련 과목과 활동 탐색`, '관련 전공 또는 직업 교육 과정', '현장 실습과 경력 쌓기'],
+        confidenceNote: '오프라인 데모 모드의 미리 준비된 결과로, 실제 사진 분석에 기반하지 않았습니다.',
+        chat: (topic, { title, keySkills, educationPath, relatedCareers }) => {
+            if (topic === 'study' && educationPath.length) {
+                return `'${title}'(으)로 가는 길은 보통 이렇게 이어져요.\n${listLines(educationPath)}\n지금은 관련 과목을 꾸준히 공부하면서 동아리나 체험 활동으로 직접 경험해 보는 것이 좋아요.`;
+            }
+            if (topic === 'skills' && keySkills.length) {
+                return `'${title}'에게 특히 중요한 역량은 ${keySkills.join(', ')}이에요. 작은 프로젝트나 학교 활동에서 하나씩 연습해 보면 자연스럽게 길러져요.`;
+            }
+            if (topic === 'related' && relatedCareers.length) {
+                return `'${title}'와(과) 비슷한 직업으로는 ${relatedCareers.join(', ')}이(가) 있어요. 관심이 가는 직업이 있다면 그 직업으로도 이미지를 만들어 비교해 보세요.`;
+            }
+            return `좋은 질문이에요! '${title}'의 실제 하루는 일하는 곳마다 다르지만, 보통 ${keySkills[0] ?? '전문 지식'}을(를) 발휘하며 동료들과 함께 문제를 해결해요. 진로 경로나 필요한 역량이 궁금하면 더 물어보세요.`;
+        },
+    },
+    en: {
+        prompted: (career, emoji) => `We imagined the person in this photo working as a "${career}". The colours were changed and a ${emoji} badge was added to set the mood of the job.`,
+        refined: (instruction, emoji) => `Following "${instruction}", the colours of the previous image were changed and a new ${emoji} badge was added.`,
+        demoSuffix: '(offline demo result)',
+        genericSkills: ['Curiosity', 'Steady learning', 'Teamwork'],
+        genericPath: career => [`Explore classes and activities related to "${career}"`, 'A related degree or vocational course', 'Work placements and experience'],
+        confidenceNote: 'A canned result from the offline demo mode, not based on analysing the actual photo.',
+        chat: (topic, { title, keySkills, educationPath, relatedCareers }) => {
+            if (topic === 'study' && educationPath.length) {
+                return `The road to becoming a "${title}" usually looks like this:\n${listLines(educationPath)}\nFor now, keep up with the related subjects and try clubs or taster activities to get real experience.`;
+            }
+            if (topic === 'skills' && keySkills.length) {
+                return `The skills that matter most for a "${title}" are ${keySkills.join(', ')}. Practising them one at a time in small projects or school activities is a great start.`;
+            }
+            if (topic === 'related' && relatedCareers.length) {
+                return `Careers similar to "${title}" include ${relatedCareers.join(', ')}. If one of them sounds interesting, generate an image for it too and compare.`;
+            }
+            return `Good question! A real day as a "${title}" depends on the workplace, but it usually means using ${keySkills[0]?.toLowerCase() ?? 'specialist knowledge'} and solving problems with colleagues. Ask me about the study path or the skills you need if you want to know more.`;
+        },
+    },
+};
+
+const IMAGE_SIZE = 1024;
+/** Pause between streamed words, so the demo shows the answer being written. */
+const CHAT_WORD_DELAY_MS = 30;
+const BANNER_HEIGHT = 160;
+
+// FNV-1a: small, stable and good enough to spread prompts across the canned careers.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/** The scene made for the requested catalog career, if there is one. */
+const cannedCareerFor = (prompt: string): CannedCareer | undefined => {
+    const entry = findCareer(prompt);
+    return entry && CANNED_CAREERS.find(career => career.careerIds.includes(entry.id));
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Mock provider could not decode the source image.'));
+        image.src = src;
+    });
+
+const canvasCompositeImage = async (source: string, career: CannedCareer, label: string): Promise<string> => {
+    const image = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_SIZE;
+    canvas.height = IMAGE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Mock provider could not create a 2D canvas context.');
+    }
+
+    // Cover-fit the photo into the square canvas.
+    const scale = Math.max(IMAGE_SIZE / image.width, IMAGE_SIZE / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    ctx.drawImage(image, (IMAGE_SIZE - width) / 2, (IMAGE_SIZE - height) / 2, width, height);
+
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = career.tint;
+    ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+    ctx.globalAlpha = 0.85;
+    ctx.fillRect(0, IMAGE_SIZE - BANNER_HEIGHT, IMAGE_SIZE, BANNER_HEIGHT);
+    ctx.globalAlpha = 1;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.font = '96px sans-serif';
+    ctx.fillText(career.emoji, 40, IMAGE_SIZE - BANNER_HEIGHT / 2);
+    ctx.font = 'bold 64px sans-serif';
+    ctx.fillText(label, 180, IMAGE_SIZE - BANNER_HEIGHT / 2, IMAGE_SIZE - 220);
+
+    return canvas.toDataURL('image/png');
+};
+
+const escapeXml = (text: string): string =>
+    text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/** The same picture as an SVG that embeds the photo, for Node (e.g. the CLI) where there is no canvas. */
+const svgCompositeImage = async (source: string, career: CannedCareer, label: string): Promise<string> => {
+    const bannerY = IMAGE_SIZE - BANNER_HEIGHT;
+    const textY = IMAGE_SIZE - BANNER_HEIGHT / 2;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_SIZE}" height="${IMAGE_SIZE}" viewBox="0 0 ${IMAGE_SIZE} ${IMAGE_SIZE}">`
+        + `<image href="${escapeXml(source)}" width="${IMAGE_SIZE}" height="${IMAGE_SIZE}" preserveAspectRatio="xMidYMid slice"/>`
+        + `<rect width="${IMAGE_SIZE}" height="${IMAGE_SIZE}" fill="${career.tint}" fill-opacity="0.25"/>`
+        + `<rect y="${bannerY}" width="${IMAGE_SIZE}" height="${BANNER_HEIGHT}" fill="${career.tint}" fill-opacity="0.85"/>`
+        + `<text x="40" y="${textY}" dominant-baseline="middle" font-size="96">${career.emoji}</text>`
+        + `<text x="180" y="${textY}" dominant-baseline="middle" font-family="sans-serif" font-weight="bold" font-size="64" fill="#ffffff">${escapeXml(label)}</text>`
+        + `</svg>`;
+    return bytesToDataUrl(new TextEncoder().encode(svg), 'image/svg+xml');
+};
+
+const compositeImage = (source: string, career: CannedCareer, label: string): Promise<string> =>
+    typeof document === 'undefined' ? svgCompositeImage(source, career, label) : canvasCompositeImage(source, career, label);
+
+/**
+ * Offline provider for demos and development. The same photo and prompt always
+ * produce the same career and text; the image is the original photo with a
+ * tinted overlay and a title banner, drawn on a canvas in the browser and
+ * returned as an SVG where there is no DOM.
+ */
+export class MockProvider implements CareerVisionProvider {
+    readonly id = 'mock' as const;
+
+    constructor(private readonly latencyMs: number = 800) {}
+
+    async isConfigured(): Promise<boolean> {
+        return true;
+    }
+
+    async generate({ imageBase64, prompt, instruction, locale = DEFAULT_LOCALE, template, style, signal }: GenerationRequest): Promise<GenerationResult> {
+        const career = cannedCareerFor(prompt) ?? CANNED_CAREERS[hashString(`${prompt}|${instruction ?? ''}|${imageBase64.length}`) % CANNED_CAREERS.length];
+        const text = career.text[locale];
+        const copy = MOCK_COPY[locale];
+        const requested = resolveCareerPrompt(prompt, locale).title;
+        const title = requested || text.title;
+        let description = requested ? copy.prompted(requested, career.emoji) : text.reason;
+        if (instruction) {
+            description = copy.refined(instruction, career.emoji);
+        }
+
+        try {
+            await sleep(this.latencyMs, signal);
+        } catch (e) {
+            throw toGenerationError(e);
+        }
+
+        return {
+            image: await compositeImage(imageBase64, career, title),
+            title,
+            description: `${description} ${copy.demoSuffix}`,
+            keySkills: requested ? copy.genericSkills : text.keySkills,
+            educationPath: requested ? copy.genericPath(requested) : text.educationPath,
+            relatedCareers: requested ? [] : text.relatedCareers,
+            confidenceNote: copy.confidenceNote,
+            ...(instruction ? {} : promptProvenance(template, style)),
+        };
+    }
+
+    async *streamChat({ career, question, locale = DEFAULT_LOCALE, signal }: ChatRequest): AsyncGenerator<string> {
+        const copy = MOCK_COPY[locale];
+        const answer = `${copy.chat(chatTopicOf(question), career)} ${copy.demoSuffix}`;
+        try {
+            await sleep(this.latencyMs / 2, signal);
+            for (const word of answer.match(/\S+\s*/g) ?? []) {
+                yield word;
+                await sleep(CHAT_WORD_DELAY_MS, signal);
+            }
+        } catch (e) {
+            throw toGenerationError(e);
+        }
+    }
+}
@@ -0,0 +1,171 @@
+import { sleep } from './concurrency';
+import { buildGifPalette, GifWriter, type GifFrame } from './gif';
+
+/**
+ * Short original → career animations for sharing. Both formats are encoded in
+ * the browser: GIF with the hand-written encoder, WebM by recording a canvas
+ * with MediaRecorder in real time.
+ */
+
+export type MorphFormat = 'gif' | 'webm';
+
+export type MorphExportErrorCode = 'unsupported' | 'decode' | 'encode';
+
+/** The UI shows a localized message per `code`; `message` is for logs. */
+export class MorphExportError extends Error {
+    constructor(readonly code: MorphExportErrorCode, message: string, options: { cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'MorphExportError';
+    }
+}
+
+export interface MorphOptions {
+    /** Edge of the square output in pixels. */
+    size?: number;
+    /** Length of the cross-fade itself. */
+    fadeMs?: number;
+    /** How long each end is held still. */
+    holdMs?: number;
+    signal?: AbortSignal;
+    /** Called with 0–1 while frames are produced. */
+    onProgress?: (fraction: number) => void;
+}
+
+const DEFAULT_SIZE = 480;
+const DEFAULT_FADE_MS = 2000;
+const DEFAULT_HOLD_MS = 800;
+const GIF_FPS = 12;
+const WEBM_FPS = 30;
+const WEBM_BITS_PER_SECOND = 4_000_000;
+const BACKGROUND = '#111827';
+/** Extra zoom at the start of the fade; the generated image settles from it as it appears. */
+const MORPH_ZOOM = 0.06;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new MorphExportError('decode', 'Could not decode an image for the animation.'));
+        image.src = src;
+    });
+
+const createCanvas = (size: number): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new MorphExportError('unsupported', 'Canvas 2D is not available.');
+    return ctx;
+};
+
+const easeInOut = (t: number): number => t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+/** Contain-fits the image, scaled around the centre by `zoom`. */
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, size: number, zoom: number) => {
+    const scale = Math.min(size / image.naturalWidth, size / image.naturalHeight) * zoom;
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.drawImage(image, (size - width) / 2, (size - height) / 2, width, height);
+};
+
+/** Draws one frame; `progress` 0 is the original photo and 1 the generated image. */
+const drawMorphFrame = (ctx: CanvasRenderingContext2D, before: HTMLImageElement, after: HTMLImageElement, progress: number) => {
+    const size = ctx.canvas.width;
+    const eased = easeInOut(Math.min(1, Math.max(0, progress)));
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, size, size);
+    drawContained(ctx, before, size, 1 + MORPH_ZOOM * eased);
+    ctx.globalAlpha = eased;
+    drawContained(ctx, after, size, 1 + MORPH_ZOOM * (1 - eased));
+    ctx.globalAlpha = 1;
+};
+
+const loadPair = (originalImage: string, generatedImage: string) =>
+    Promise.all([loadImage(originalImage), loadImage(generatedImage)]);
+
+export const isWebmExportSupported = (): boolean =>
+    typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'captureStream' in HTMLCanvasElement.prototype
+    && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+export const createMorphGif = async (originalImage: string, generatedImage: string, options: MorphOptions = {}): Promise<Blob> => {
+    const { size = DEFAULT_SIZE, fadeMs = DEFAULT_FADE_MS, holdMs = DEFAULT_HOLD_MS, signal, onProgress } = options;
+    const [before, after] = await loadPair(originalImage, generatedImage);
+    const ctx = createCanvas(size);
+    const steps = Math.max(2, Math.round(fadeMs / 1000 * GIF_FPS));
+    const frameMs = fadeMs / steps;
+
+    // Holds are a single frame with a long delay rather than repeated frames.
+    const frames: GifFrame[] = [];
+    for (let step = 0; step <= steps; step++) {
+        drawMorphFrame(ctx, before, after, step / steps);
+        const isEnd = step === 0 || step === steps;
+        frames.push({ pixels: ctx.getImageData(0, 0, size, size).data, delayMs: isEnd ? holdMs : frameMs });
+    }
+
+    try {
+        const writer = new GifWriter(size, size, buildGifPalette(frames));
+        for (const [index, frame] of frames.entries()) {
+            writer.addFrame(frame);
+            onProgress?.((index + 1) / frames.length);
+            // Yield so the page stays responsive and a cancel can land between frames.
+            await sleep(0, signal);
+        }
+        return new Blob([writer.finish()], { type: 'image/gif' });
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new MorphExportError('encode', `GIF encoding failed: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+    }
+};
+
+/** Plays the animation once on a hidden canvas while MediaRecorder captures it, so it takes as long as the clip. */
+export const createMorphWebm = async (originalImage: string, generatedImage: string, options: MorphOptions = {}): Promise<Blob> => {
+    const { size = DEFAULT_SIZE, fadeMs = DEFAULT_FADE_MS, holdMs = DEFAULT_HOLD_MS, signal, onProgress } = options;
+    const mimeType = typeof MediaRecorder !== 'undefined' ? WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) : undefined;
+    if (!mimeType || !isWebmExportSupported()) {
+        throw new MorphExportError('unsupported', 'This browser cannot record WebM video from a canvas.');
+    }
+    const [before, after] = await loadPair(originalImage, generatedImage);
+    const ctx = createCanvas(size);
+    drawMorphFrame(ctx, before, after, 0);
+
+    const stream = ctx.canvas.captureStream(WEBM_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+        recorder.onstop = () => resolve();
+        recorder.onerror = (event) => reject(new MorphExportError('encode', 'WebM recording failed.', { cause: event }));
+    });
+
+    const total = holdMs * 2 + fadeMs;
+    recorder.start();
+    try {
+        const startedAt = performance.now();
+        for (let elapsed = 0; elapsed < total; elapsed = performance.now() - startedAt) {
+            drawMorphFrame(ctx, before, after, (elapsed - holdMs) / fadeMs);
+            onProgress?.(elapsed / total);
+            await sleep(1000 / WEBM_FPS, signal);
+        }
+        drawMorphFrame(ctx, before, after, 1);
+        await sleep(1000 / WEBM_FPS, signal);
+    } finally {
+        recorder.stop();
+        stream.getTracks().forEach(track => track.stop());
+    }
+    await stopped;
+    onProgress?.(1);
+    if (!chunks.length) throw new MorphExportError('encode', 'The recorder produced no video data.');
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const createMorphAnimation = (format: MorphFormat, originalImage: string, generatedImage: string, options?: MorphOptions): Promise<Blob> =>
+    format === 'gif'
+        ? createMorphGif(originalImage, generatedImage, options)
+        : createMorphWebm(originalImage, generatedImage, options);
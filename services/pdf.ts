@@ -0,0 +1,93 @@
+/**
+ * Minimal PDF writer: one full-page JPEG per page. Posters are rendered on a
+ * canvas first, so Korean text arrives as pixels and no font has to be embedded.
+ */
+
+export interface PdfPage {
+    /** Baseline JPEG bytes, embedded as-is with DCTDecode. */
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    /** Page size in points (1/72 inch). */
+    width: number;
+    height: number;
+}
+
+/** A4 in points. */
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 };
+
+// PDF text strings are PDFDocEncoding unless they start with a UTF-16BE BOM; hex keeps the bytes 7-bit.
+const utf16HexString = (value: string): string => {
+    let hex = 'FEFF';
+    for (let i = 0; i < value.length; i++) {
+        hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+};
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString();
+
+/** Builds the document in memory and returns its bytes. */
+export const createPdf = (pages: PdfPage[], title?: string): Uint8Array => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const push = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        push(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, 3 info, then page, image and content stream for each page.
+    const pageId = (index: number) => 4 + index * 3;
+
+    // The binary comment line tells transfer tools the file is not plain text.
+    push(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34, 0x0a, 0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    beginObject(1);
+    push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    beginObject(2);
+    push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+    beginObject(3);
+    push(`<< /Producer ${utf16HexString('Career Vision AI')}${title ? ` /Title ${utf16HexString(title)}` : ''} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const id = pageId(index);
+        const width = formatNumber(page.width);
+        const height = formatNumber(page.height);
+
+        beginObject(id);
+        push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>\nendobj\n`);
+
+        beginObject(id + 1);
+        push(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        push(page.jpeg);
+        push('\nendstream\nendobj\n');
+
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+        beginObject(id + 2);
+        push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    });
+
+    const objectCount = 4 + pages.length * 3;
+    const xrefOffset = length;
+    push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const part of parts) {
+        output.set(part, position);
+        position += part.length;
+    }
+    return output;
+};
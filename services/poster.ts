@@ -0,0 +1,280 @@
+import type { GenerationResult } from '../types';
+import { dataUrlToBytes } from './imageFiles';
+import { A4_PORTRAIT, createPdf, type PdfPage } from './pdf';
+import { type Locale } from './i18n';
+
+export type PosterTemplateId = 'portrait' | 'landscape' | 'square';
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PosterTemplate {
+    id: PosterTemplateId;
+    width: number;
+    height: number;
+    /** PDF page size in points. */
+    page: { width: number; height: number };
+    /** Square cells for the original photo and the generated image. */
+    original: Rect;
+    generated: Rect;
+    text: Rect;
+    titleSize: number;
+    bodySize: number;
+}
+
+// Portrait and landscape are A4 at 150 dpi so the PDF prints sharp; square suits social media.
+export const POSTER_TEMPLATES: Record<PosterTemplateId, PosterTemplate> = {
+    portrait: {
+        id: 'portrait',
+        width: 1240,
+        height: 1754,
+        page: A4_PORTRAIT,
+        original: { x: 80, y: 220, width: 520, height: 520 },
+        generated: { x: 640, y: 220, width: 520, height: 520 },
+        text: { x: 80, y: 800, width: 1080, height: 800 },
+        titleSize: 72,
+        bodySize: 32,
+    },
+    landscape: {
+        id: 'landscape',
+        width: 1754,
+        height: 1240,
+        page: { width: A4_PORTRAIT.height, height: A4_PORTRAIT.width },
+        original: { x: 80, y: 240, width: 560, height: 560 },
+        generated: { x: 680, y: 240, width: 560, height: 560 },
+        text: { x: 1300, y: 240, width: 374, height: 840 },
+        titleSize: 56,
+        bodySize: 26,
+    },
+    square: {
+        id: 'square',
+        width: 1080,
+        height: 1080,
+        page: { width: A4_PORTRAIT.width, height: A4_PORTRAIT.width },
+        original: { x: 60, y: 170, width: 465, height: 465 },
+        generated: { x: 555, y: 170, width: 465, height: 465 },
+        text: { x: 60, y: 680, width: 960, height: 300 },
+        titleSize: 56,
+        bodySize: 26,
+    },
+};
+
+export interface PosterContent {
+    originalImage: string;
+    result: GenerationResult;
+    date: Date;
+    /** Shown in the footer, e.g. the student's file name in batch mode. */
+    caption?: string;
+}
+
+/** Fixed wording drawn on the poster, taken from the UI locale's catalog. */
+export interface PosterText {
+    locale: Locale;
+    heading: string;
+    beforeLabel: string;
+    afterLabel: string;
+    skillsLabel: string;
+}
+
+// Inter has no Hangul, so the poster asks for Noto Sans KR (loaded in index.html) with system fallbacks.
+const FONT_FAMILY = '"Noto Sans KR", "Apple SD Gothic Neo", "Malgun Gothic", sans-serif';
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const PRIMARY_COLOR = '#8b5cf6';
+const ACCENT_COLOR = '#f472b6';
+const PDF_JPEG_QUALITY = 0.9;
+
+const font = (weight: number, size: number) => `${weight} ${size}px ${FONT_FAMILY}`;
+
+// A canvas draws with whatever font is ready at that moment; without this the first export can fall back to tofu boxes.
+const ensureFonts = async (): Promise<void> => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    try {
+        await Promise.all([400, 700].map(weight => document.fonts.load(font(weight, 32), '가나다')));
+    } catch {
+        // Offline or blocked: the system fallbacks still render Hangul on most devices.
+    }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not decode an image for the poster.'));
+        image.src = src;
+    });
+
+const roundedRect = (ctx: CanvasRenderingContext2D, { x, y, width, height }: Rect, radius: number) => {
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.arcTo(x + width, y, x + width, y + height, radius);
+    ctx.arcTo(x + width, y + height, x, y + height, radius);
+    ctx.arcTo(x, y + height, x, y, radius);
+    ctx.arcTo(x, y, x + width, y, radius);
+    ctx.closePath();
+};
+
+const drawImageCell = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, cell: Rect, label: string, labelColor: string) => {
+    ctx.save();
+    ctx.shadowColor = 'rgba(31, 41, 55, 0.18)';
+    ctx.shadowBlur = 24;
+    ctx.shadowOffsetY = 8;
+    roundedRect(ctx, cell, 28);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.restore();
+
+    ctx.save();
+    roundedRect(ctx, cell, 28);
+    ctx.clip();
+    // Contain-fit so nothing of either picture is cropped away.
+    const scale = Math.min(cell.width / image.width, cell.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    ctx.drawImage(image, cell.x + (cell.width - width) / 2, cell.y + (cell.height - height) / 2, width, height);
+    ctx.restore();
+
+    const labelSize = Math.round(cell.width * 0.045);
+    ctx.font = font(700, labelSize);
+    const pillWidth = ctx.measureText(label).width + labelSize * 1.4;
+    const pill: Rect = { x: cell.x + 16, y: cell.y + 16, width: pillWidth, height: labelSize * 1.8 };
+    roundedRect(ctx, pill, pill.height / 2);
+    ctx.fillStyle = labelColor;
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, pill.x + labelSize * 0.7, pill.y + pill.height / 2);
+};
+
+/**
+ * Splits text into lines that fit `maxWidth`. Breaks at spaces first and
+ * falls back to single characters, since a long Korean phrase can exceed a
+ * line without containing any space.
+ */
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        line = '';
+        for (const char of word) {
+            if (line && ctx.measureText(line + char).width > maxWidth) {
+                lines.push(line);
+                line = '';
+            }
+            line += char;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+// Draws lines from `y` while they fit above `bottom`; the last visible line gets an ellipsis if text was cut.
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number, bottom: number, maxWidth: number): number => {
+    const fitting = Math.max(0, Math.floor((bottom - y) / lineHeight));
+    const visible = lines.slice(0, fitting);
+    if (visible.length < lines.length && visible.length > 0) {
+        let last = visible[visible.length - 1];
+        while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+        visible[visible.length - 1] = `${last}…`;
+    }
+    visible.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+    return y + visible.length * lineHeight;
+};
+
+const formatDate = (date: Date, locale: Locale): string =>
+    date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Draws one poster onto a new canvas. */
+export const renderPoster = async (content: PosterContent, templateId: PosterTemplateId, labels: PosterText): Promise<HTMLCanvasElement> => {
+    const template = POSTER_TEMPLATES[templateId];
+    const [original, generated] = await Promise.all([loadImage(content.originalImage), loadImage(content.result.image), ensureFonts()]);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = template.width;
+    canvas.height = template.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create a 2D canvas context for the poster.');
+    }
+
+    const background = ctx.createLinearGradient(0, 0, template.width, template.height);
+    background.addColorStop(0, '#e0e7ff');
+    background.addColorStop(0.5, '#f3e8ff');
+    background.addColorStop(1, '#fce7f3');
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, template.width, template.height);
+
+    const margin = template.original.x;
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = PRIMARY_COLOR;
+    ctx.font = font(700, Math.round(template.titleSize * 0.6));
+    ctx.fillText(labels.heading, margin, template.original.y - template.titleSize * 0.9);
+
+    drawImageCell(ctx, original, template.original, labels.beforeLabel, MUTED_COLOR);
+    drawImageCell(ctx, generated, template.generated, labels.afterLabel, ACCENT_COLOR);
+
+    const { text } = template;
+    const bottom = text.y + text.height;
+    ctx.textBaseline = 'top';
+
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = font(700, template.titleSize);
+    let y = drawLines(ctx, wrapText(ctx, content.result.title, text.width), text.x, text.y, template.titleSize * 1.25, bottom, text.width);
+    y += template.bodySize * 0.8;
+
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.font = font(400, template.bodySize);
+    const lineHeight = template.bodySize * 1.6;
+    // Leave room for the skills line below the description.
+    const skills = content.result.keySkills.length > 0 ? `${labels.skillsLabel} · ${content.result.keySkills.join(', ')}` : '';
+    const reserved = skills ? lineHeight * 2 + template.bodySize : 0;
+    y = drawLines(ctx, wrapText(ctx, content.result.description, text.width), text.x, y, lineHeight, bottom - reserved, text.width);
+
+    if (skills) {
+        y += template.bodySize;
+        ctx.fillStyle = PRIMARY_COLOR;
+        ctx.font = font(700, template.bodySize);
+        drawLines(ctx, wrapText(ctx, skills, text.width), text.x, y, lineHeight, bottom, text.width);
+    }
+
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = MUTED_COLOR;
+    ctx.font = font(400, Math.round(template.bodySize * 0.85));
+    const footer = [content.caption, formatDate(content.date, labels.locale)].filter(Boolean).join(' · ');
+    ctx.fillText(footer, margin, template.height - margin * 0.6);
+
+    return canvas;
+};
+
+export const posterToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the poster as PNG.'))), 'image/png');
+    });
+
+/** Renders one poster per entry and packs them into a printable PDF, one page each. */
+export const createPosterPdf = async (contents: PosterContent[], templateId: PosterTemplateId, labels: PosterText, title?: string): Promise<Blob> => {
+    const template = POSTER_TEMPLATES[templateId];
+    const pages: PdfPage[] = [];
+    // Sequential on purpose: a class worth of A4 canvases at once would use a lot of memory.
+    for (const content of contents) {
+        const canvas = await renderPoster(content, templateId, labels);
+        pages.push({
+            jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', PDF_JPEG_QUALITY)),
+            pixelWidth: canvas.width,
+            pixelHeight: canvas.height,
+            width: template.page.width,
+            height: template.page.height,
+        });
+    }
+    return new Blob([createPdf(pages, title)], { type: 'application/pdf' });
+};
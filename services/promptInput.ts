@@ -0,0 +1,79 @@
+import { careerName, findCareer } from './careerCatalog';
+import type { Locale } from './i18n';
+
+export const MAX_CAREER_LENGTH = 40;
+export const MAX_INSTRUCTION_LENGTH = 200;
+export const MAX_CHAT_QUESTION_LENGTH = 300;
+
+export type PromptInputIssue = 'tooLong' | 'invalidCharacters' | 'instructions';
+
+// Letters and digits in any script plus light punctuation. Quotes, backticks, brackets and line
+// breaks are left out because the text is placed inside quotes in the model prompt.
+const ALLOWED_CHARACTER = /[\p{L}\p{M}\p{N} ,.\-&/()·!?%+:]/u;
+const DISALLOWED_CHARACTERS = /[^\p{L}\p{M}\p{N} ,.\-&/()·!?%+:]+/gu;
+
+// Phrases that address the model rather than describe a job or an edit.
+const INSTRUCTION_PATTERNS: readonly RegExp[] = [
+    // "Instructions" alone is an ordinary word ("instruction designer"); it only counts in this imperative shape.
+    /\b(ignore|disregard|forget|override)\b.{0,30}\b(previous|prior|above|earlier|all|any|the)\b.{0,20}\b(instructions?|prompts?|rules?|messages?)\b/i,
+    /\bsystem\s*prompt\b/i,
+    /\b(you are now|act as|pretend to be|from now on)\b/i,
+    /\bjailbreak\b/i,
+    /(이전|위의?|앞의?|기존)\s*(지시|명령|프롬프트|규칙)/,
+    /(지시|명령|프롬프트|규칙)\S*\s*(을|를)?\s*(무시|잊)/,
+    /시스템\s*프롬프트/,
+];
+
+/** Whether `text` reads like instructions to the model. */
+export const containsPromptInstructions = (text: string): boolean =>
+    INSTRUCTION_PATTERNS.some(pattern => pattern.test(text));
+
+/**
+ * Makes free text safe to quote inside a model prompt: drops characters
+ * outside the allowed set, collapses whitespace and cuts it to `maxLength`.
+ */
+export const sanitizePromptText = (text: string, maxLength: number): string =>
+    Array.from(text.normalize('NFKC').replace(DISALLOWED_CHARACTERS, ' ').replace(/\s+/g, ' ').trim())
+        .slice(0, maxLength)
+        .join('')
+        .trim();
+
+/** The first problem with user-typed prompt text, or null when it can be sent as is. */
+export const validatePromptText = (text: string, maxLength: number): PromptInputIssue | null => {
+    const trimmed = text.trim();
+    if (Array.from(trimmed).length > maxLength) return 'tooLong';
+    if (Array.from(trimmed.normalize('NFKC')).some(char => !ALLOWED_CHARACTER.test(char))) return 'invalidCharacters';
+    if (containsPromptInstructions(trimmed)) return 'instructions';
+    return null;
+};
+
+export const validateCareerInput = (text: string): PromptInputIssue | null => validatePromptText(text, MAX_CAREER_LENGTH);
+
+export const validateInstruction = (text: string): PromptInputIssue | null => validatePromptText(text, MAX_INSTRUCTION_LENGTH);
+
+/**
+ * Chat questions go to the model as their own turn rather than inside quotes,
+ * so any characters are fine; only the length and instruction checks apply.
+ */
+export const validateChatQuestion = (text: string): PromptInputIssue | null => {
+    const trimmed = text.trim();
+    if (Array.from(trimmed).length > MAX_CHAT_QUESTION_LENGTH) return 'tooLong';
+    if (containsPromptInstructions(trimmed)) return 'instructions';
+    return null;
+};
+
+export interface CareerPrompt {
+    /** Catalog name in the requested locale, or the sanitised input for careers outside the catalog. */
+    title: string;
+    /** Scene details for catalog careers. */
+    visualHint?: string;
+}
+
+/** What a provider puts into its prompt for the user's career text. */
+export const resolveCareerPrompt = (prompt: string, locale: Locale): CareerPrompt => {
+    const entry = findCareer(prompt);
+    if (entry) {
+        return { title: careerName(entry, locale), visualHint: entry.visualHint };
+    }
+    return { title: sanitizePromptText(prompt, MAX_CAREER_LENGTH) };
+};
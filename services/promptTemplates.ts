@@ -0,0 +1,199 @@
+import type { GenerationResult } from '../types';
+import { CAREER_ANALYSIS_JSON_EXAMPLES } from './careerAnalysis';
+import type { Locale } from './i18n';
+import type { CareerPrompt } from './promptInput';
+
+/**
+ * Prompt templates for generating from the original photo. A template only
+ * holds the image directions; the task framing and the JSON analysis
+ * instructions around it are fixed, so a custom template cannot break parsing.
+ * Shared by the Gemini provider and the template editor's preview.
+ */
+
+export type PromptVariable = 'career' | 'style' | 'setting' | 'age';
+
+export const PROMPT_VARIABLES: readonly PromptVariable[] = ['career', 'style', 'setting', 'age'];
+
+export type StyleId = 'realistic' | 'anime' | 'watercolor' | 'retroPoster' | 'future20';
+
+export const STYLE_IDS: readonly StyleId[] = ['realistic', 'anime', 'watercolor', 'retroPoster', 'future20'];
+
+export const DEFAULT_STYLE_ID: StyleId = 'realistic';
+
+/** English values for the `{style}` and `{age}` variables. Display names live in the locale catalogs. */
+export interface StylePreset {
+    style: string;
+    age: string;
+}
+
+const CURRENT_AGE = 'at their current age';
+const PHOTO_STYLE = 'a photorealistic photo with natural lighting';
+
+export const STYLE_PRESETS: Record<StyleId, StylePreset> = {
+    realistic: { style: PHOTO_STYLE, age: CURRENT_AGE },
+    anime: { style: 'a Japanese anime illustration with clean line art and cel shading', age: CURRENT_AGE },
+    watercolor: { style: 'a soft watercolor painting on textured paper with gentle colour bleeds', age: CURRENT_AGE },
+    retroPoster: { style: 'a retro mid-century poster with bold flat colours, simple shapes and a subtle print texture', age: CURRENT_AGE },
+    future20: { style: PHOTO_STYLE, age: 'about 20 years older, as an experienced professional' },
+};
+
+export interface PromptTemplate {
+    id: string;
+    /** Shown for custom templates; built-in templates are named in the locale catalogs. */
+    name: string;
+    /** Image directions with `{career}`, `{style}`, `{setting}` and `{age}` placeholders. */
+    body: string;
+    builtIn: boolean;
+}
+
+export type BuiltInTemplateId = 'standard' | 'portrait' | 'action';
+
+export const BUILT_IN_TEMPLATES: readonly (PromptTemplate & { id: BuiltInTemplateId })[] = [
+    {
+        id: 'standard',
+        name: 'Standard',
+        body: "Show the person as {career}, {age}. Scene: {setting}. Render the whole image as {style}. Keep the person's face and identity recognisable.",
+        builtIn: true,
+    },
+    {
+        id: 'portrait',
+        name: 'Portrait',
+        body: 'Make a head-and-shoulders portrait of the person as {career}, {age}, wearing the typical outfit of the job. Blur the background softly; scene hints: {setting}. Render it as {style}. Keep the face recognisable.',
+        builtIn: true,
+    },
+    {
+        id: 'action',
+        name: 'At work',
+        body: 'Show the person as {career}, {age}, in the middle of a typical task of the job with the tools of the trade in hand. Scene: {setting}. Render it as {style}. Keep the face recognisable.',
+        builtIn: true,
+    },
+];
+
+export const DEFAULT_TEMPLATE: PromptTemplate = BUILT_IN_TEMPLATES[0];
+
+export const MAX_TEMPLATE_LENGTH = 800;
+export const MAX_TEMPLATE_NAME_LENGTH = 40;
+export const MAX_CUSTOM_TEMPLATES = 20;
+
+export const isStyleId = (value: unknown): value is StyleId =>
+    typeof value === 'string' && (STYLE_IDS as readonly string[]).includes(value);
+
+export const findBuiltInTemplate = (id: string): PromptTemplate | undefined =>
+    BUILT_IN_TEMPLATES.find(template => template.id === id);
+
+export type PromptTemplateIssue = 'empty' | 'tooLong' | 'missingCareer' | 'unknownVariable';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const isPromptVariable = (name: string): name is PromptVariable =>
+    (PROMPT_VARIABLES as readonly string[]).includes(name);
+
+/** Checks a template body from the editor or the API. Without `{career}` every career would produce the same picture. */
+export const validateTemplateBody = (body: string): PromptTemplateIssue | null => {
+    if (!body.trim()) return 'empty';
+    if (body.length > MAX_TEMPLATE_LENGTH) return 'tooLong';
+    const names = Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+    if (names.some(name => !isPromptVariable(name))) return 'unknownVariable';
+    if (!names.includes('career')) return 'missingCareer';
+    return null;
+};
+
+const CHOSEN_CAREER = 'a career that suits them, which you choose yourself';
+
+/** Values for the placeholders. `career` is null when the model picks the career. */
+export const templateVariables = (career: CareerPrompt | null, styleId: StyleId): Record<PromptVariable, string> => ({
+    career: career ? `a "${career.title}"` : CHOSEN_CAREER,
+    style: STYLE_PRESETS[styleId].style,
+    setting: career?.visualHint ?? 'a workplace typical of the career',
+    age: STYLE_PRESETS[styleId].age,
+});
+
+export const renderPromptTemplate = (body: string, variables: Record<PromptVariable, string>): string =>
+    body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => isPromptVariable(name) ? variables[name] : placeholder);
+
+/** Language the model is told to write in, per UI locale. */
+export const PROMPT_LANGUAGES: Record<Locale, string> = {
+    ko: 'Korean',
+    en: 'English',
+};
+
+/**
+ * Full prompt for a generation from the original photo. `career.title` must
+ * arrive sanitised, so it cannot close the quotes it is placed in.
+ */
+export const buildGenerationPrompt = (
+    career: CareerPrompt | null,
+    locale: Locale,
+    template: Pick<PromptTemplate, 'body'> = DEFAULT_TEMPLATE,
+    styleId: StyleId = DEFAULT_STYLE_ID,
+): string => {
+    const directions = renderPromptTemplate(template.body.trim(), templateVariables(career, styleId));
+    const task = career
+        ? `modify the provided user image to represent a "${career.title}" and then describe your changes.`
+        : 'choose a suitable career for the person in the provided image, modify the image to represent that career, and then describe your changes.';
+    const firstStep = career ? '' : 'First, analyze the person and choose a fitting career. ';
+    const titleRule = career
+        ? `"title" is "${career.title}". "reason" explains what you changed in the image to express the '${career.title}' career.`
+        : '"title" is the career you chose. "reason" explains why you chose it and what you changed in the image.';
+    return `You are a creative AI image editor. Your task is to ${task}
+
+**CRITICAL INSTRUCTIONS:**
+1.  **GENERATE IMAGE FIRST:** You MUST generate a new image by editing the original. This is your primary task. ${firstStep}${directions}
+2.  **GENERATE TEXT SECOND:** After generating the image, you MUST provide the analysis as a single JSON object, with no markdown and no other text, in exactly this shape:
+${CAREER_ANALYSIS_JSON_EXAMPLES[locale]}
+    Write every value in ${PROMPT_LANGUAGES[locale]}. ${titleRule}
+
+**MANDATORY OUTPUT:** Your final response MUST contain BOTH the generated image AND the JSON analysis. Do not respond with only text.`;
+};
+
+/** What a provider records on a result generated from the original photo. */
+export const promptProvenance = (template?: Pick<PromptTemplate, 'id'>, styleId?: StyleId): Pick<GenerationResult, 'templateId' | 'styleId'> => ({
+    templateId: template?.id ?? DEFAULT_TEMPLATE.id,
+    styleId: styleId ?? DEFAULT_STYLE_ID,
+});
+
+/** The user's own templates and current picks, kept in this browser only. */
+export interface PromptPreferences {
+    customTemplates: PromptTemplate[];
+    templateId: string;
+    styleId: StyleId;
+}
+
+const STORAGE_KEY = 'career-vision.prompt-templates';
+
+export const DEFAULT_PROMPT_PREFERENCES: PromptPreferences = {
+    customTemplates: [],
+    templateId: DEFAULT_TEMPLATE.id,
+    styleId: DEFAULT_STYLE_ID,
+};
+
+const parseCustomTemplate = (value: unknown): PromptTemplate | null => {
+    const raw = (value ?? {}) as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || typeof raw.body !== 'string') return null;
+    if (findBuiltInTemplate(raw.id) || validateTemplateBody(raw.body)) return null;
+    return { id: raw.id, name: raw.name.slice(0, MAX_TEMPLATE_NAME_LENGTH), body: raw.body, builtIn: false };
+};
+
+export const loadPromptPreferences = (): PromptPreferences => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return DEFAULT_PROMPT_PREFERENCES;
+        const raw = JSON.parse(stored) as Record<string, unknown>;
+        const customTemplates = (Array.isArray(raw.customTemplates) ? raw.customTemplates : [])
+            .map(parseCustomTemplate)
+            .filter((template): template is PromptTemplate => template !== null)
+            .slice(0, MAX_CUSTOM_TEMPLATES);
+        const templateId = typeof raw.templateId === 'string' && (findBuiltInTemplate(raw.templateId) || customTemplates.some(template => template.id === raw.templateId))
+            ? raw.templateId
+            : DEFAULT_TEMPLATE.id;
+        return { customTemplates, templateId, styleId: isStyleId(raw.styleId) ? raw.styleId : DEFAULT_STYLE_ID };
+    } catch (e) {
+        console.warn('Ignoring unreadable prompt templates:', e);
+        return DEFAULT_PROMPT_PREFERENCES;
+    }
+};
+
+/** Throws when storage is full or blocked, so the editor can tell the user their template was not kept. */
+export const savePromptPreferences = (preferences: PromptPreferences): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
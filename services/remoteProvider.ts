@@ -0,0 +1,123 @@
+import { type GenerationResult } from '../types';
+import { GenerationError, isGenerationErrorKind, toGenerationError } from './generationErrors';
+import {
+    type ApiErrorBody,
+    type ApiHealthBody,
+    type CareerVisionProvider,
+    type ChatRequest,
+    type ChatRequestBody,
+    type ChatStreamEvent,
+    type GenerateRequestBody,
+    type GenerationRequest,
+} from './careerVisionProvider';
+import { findBuiltInTemplate } from './promptTemplates';
+
+const errorFromBody = (body: Partial<ApiErrorBody>, status: number): GenerationError | null => {
+    if (typeof body.error !== 'string' || !body.error) return null;
+    return isGenerationErrorKind(body.code)
+        ? new GenerationError(body.code, body.error)
+        : toGenerationError(Object.assign(new Error(body.error), { status }));
+};
+
+const toError = async (response: Response): Promise<GenerationError> => {
+    try {
+        const error = errorFromBody(await response.json() as Partial<ApiErrorBody>, response.status);
+        if (error) return error;
+    } catch {
+        // Not a JSON error body; fall through to the status line.
+    }
+    return toGenerationError(Object.assign(new Error(`Server responded with ${response.status} ${response.statusText}`.trim()), { status: response.status }));
+};
+
+/**
+ * Browser provider that forwards requests to the app's own backend, which holds
+ * the Gemini API key. See `server/index.ts`.
+ */
+export class RemoteProvider implements CareerVisionProvider {
+    readonly id = 'remote' as const;
+
+    constructor(private readonly baseUrl: string = '/api') {}
+
+    async isConfigured(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/health`);
+            if (!response.ok) return false;
+            const body = await response.json() as ApiHealthBody;
+            return body.configured === true;
+        } catch {
+            return false;
+        }
+    }
+
+    async generate({ imageBase64, mimeType, prompt, instruction, locale, template, style, signal }: GenerationRequest): Promise<GenerationResult> {
+        const body: GenerateRequestBody = {
+            image: imageBase64,
+            mimeType,
+            prompt,
+            instruction,
+            locale,
+            templateId: template?.id,
+            // The server knows the built-in templates; only custom ones travel in full.
+            templateBody: template && !findBuiltInTemplate(template.id) ? template.body : undefined,
+            style,
+        };
+        const response = await this.post('/generate', body, signal);
+        return await response.json() as GenerationResult;
+    }
+
+    async *streamChat({ career, history, question, locale, signal }: ChatRequest): AsyncGenerator<string> {
+        const body: ChatRequestBody = { career, history, question, locale };
+        const response = await this.post('/chat', body, signal);
+        if (!response.body) {
+            throw new GenerationError('network', 'The server did not stream an answer.');
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let pending = '';
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                pending += value ?? '';
+                const lines = pending.split('\n');
+                pending = done ? '' : lines.pop() ?? '';
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    const event = JSON.parse(line) as ChatStreamEvent;
+                    if ('error' in event) {
+                        throw errorFromBody(event, response.status) ?? new GenerationError('unknown', 'The server reported an error without details.');
+                    }
+                    yield event.text;
+                }
+                if (done) return;
+            }
+        } catch (e) {
+            if (signal?.aborted) throw toGenerationError(signal.reason ?? e);
+            if (e instanceof GenerationError) throw e;
+            throw new GenerationError('network', 'The answer stream was interrupted. Please try again.', { cause: e });
+        } finally {
+            // Also runs when the caller stops reading early; dropping the body ends the request.
+            reader.cancel().catch(() => undefined);
+        }
+    }
+
+    /** Sends a JSON body and returns the response, or throws a `GenerationError` for network failures and error statuses. */
+    private async post(path: string, body: GenerateRequestBody | ChatRequestBody, signal?: AbortSignal): Promise<Response> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (e) {
+            if (signal?.aborted) throw toGenerationError(signal.reason ?? e);
+            throw new GenerationError('network', "Could not reach the generation server. Please check your connection and try again.", { cause: e });
+        }
+
+        if (!response.ok) {
+            throw await toError(response);
+        }
+        return response;
+    }
+}
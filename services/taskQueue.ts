@@ -0,0 +1,111 @@
+export type TaskQueueState = 'idle' | 'running' | 'paused';
+
+export interface TaskQueueOptions {
+    concurrency: number;
+    /** Minimum gap between two task starts, to stay under API rate limits. */
+    intervalMs?: number;
+    onStateChange?: (state: TaskQueueState) => void;
+}
+
+/**
+ * A throttled FIFO queue with pause, resume and cancel. Pausing and cancelling
+ * only affect tasks that have not started yet; running tasks finish normally.
+ */
+export class TaskQueue {
+    private readonly pending: (() => Promise<void>)[] = [];
+    private active = 0;
+    private paused = false;
+    private lastStartedAt = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private idleWaiters: (() => void)[] = [];
+
+    constructor(private readonly options: TaskQueueOptions) {}
+
+    get state(): TaskQueueState {
+        if (this.paused) return 'paused';
+        return this.active > 0 || this.pending.length > 0 ? 'running' : 'idle';
+    }
+
+    get size(): number {
+        return this.pending.length;
+    }
+
+    add(task: () => Promise<void>): void {
+        this.pending.push(task);
+        this.notify();
+        this.pump();
+    }
+
+    pause(): void {
+        this.paused = true;
+        this.clearTimer();
+        this.notify();
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.notify();
+        this.pump();
+    }
+
+    /** Drops every task that has not started and returns how many were dropped. */
+    cancel(): number {
+        const dropped = this.pending.length;
+        this.pending.length = 0;
+        this.paused = false;
+        this.clearTimer();
+        this.notify();
+        this.settleIfIdle();
+        return dropped;
+    }
+
+    /** Resolves once nothing is running or waiting. */
+    onIdle(): Promise<void> {
+        if (this.active === 0 && this.pending.length === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    private pump(): void {
+        if (this.paused || this.timer || this.active >= this.options.concurrency || this.pending.length === 0) return;
+
+        const wait = this.lastStartedAt + (this.options.intervalMs ?? 0) - Date.now();
+        if (wait > 0) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.pump();
+            }, wait);
+            return;
+        }
+
+        const task = this.pending.shift()!;
+        this.active++;
+        this.lastStartedAt = Date.now();
+        task()
+            .catch(e => console.error('Queued task failed:', e))
+            .finally(() => {
+                this.active--;
+                this.notify();
+                this.settleIfIdle();
+                this.pump();
+            });
+        this.pump();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private settleIfIdle(): void {
+        if (this.active > 0 || this.pending.length > 0) return;
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    private notify(): void {
+        this.options.onStateChange?.(this.state);
+    }
+}
@@ -0,0 +1,90 @@
+import { createId } from './ids';
+import type { ChatMessage, GenerationResult, SessionGeneration, VersionTree } from '../types';
+
+/** Builds a tree node; pass the parent id and instruction for refinements. */
+export const createVersion = (prompt: string, result: GenerationResult, parentId?: string, instruction?: string): SessionGeneration => ({
+    id: createId(),
+    createdAt: Date.now(),
+    prompt,
+    result,
+    ...(parentId ? { parentId, instruction } : {}),
+});
+
+/** Adds a version and makes it current. Pass `null` to start a new tree. */
+export const addVersion = (tree: VersionTree | null, node: SessionGeneration): VersionTree => {
+    const base: VersionTree = tree ?? { nodes: {}, order: [], currentId: node.id, finalId: null, redoTargets: {} };
+    return {
+        ...base,
+        nodes: { ...base.nodes, [node.id]: node },
+        order: [...base.order, node.id],
+        currentId: node.id,
+        redoTargets: node.parentId ? { ...base.redoTargets, [node.parentId]: node.id } : base.redoTargets,
+    };
+};
+
+export const childrenOf = (tree: VersionTree, id: string | null): SessionGeneration[] =>
+    tree.order.map(nodeId => tree.nodes[nodeId]).filter(node => (node.parentId ?? null) === id);
+
+/** Root first, ending at `id`. */
+export const versionPath = (tree: VersionTree, id: string): SessionGeneration[] => {
+    const path: SessionGeneration[] = [];
+    for (let node: SessionGeneration | undefined = tree.nodes[id]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+        path.unshift(node);
+    }
+    return path;
+};
+
+/** Selects a version and remembers the path to it, so undo followed by redo comes back here. */
+export const selectVersion = (tree: VersionTree, id: string): VersionTree => {
+    if (!tree.nodes[id]) return tree;
+    const redoTargets = { ...tree.redoTargets };
+    for (const node of versionPath(tree, id)) {
+        if (node.parentId) redoTargets[node.parentId] = node.id;
+    }
+    return { ...tree, currentId: id, redoTargets };
+};
+
+export const canUndo = (tree: VersionTree): boolean => !!tree.nodes[tree.currentId]?.parentId;
+
+export const canRedo = (tree: VersionTree): boolean => redoTargetOf(tree) !== null;
+
+const redoTargetOf = (tree: VersionTree): string | null => {
+    const target = tree.redoTargets[tree.currentId];
+    if (target && tree.nodes[target]) return target;
+    const children = childrenOf(tree, tree.currentId);
+    return children.length > 0 ? children[children.length - 1].id : null;
+};
+
+export const undoVersion = (tree: VersionTree): VersionTree => {
+    const parentId = tree.nodes[tree.currentId]?.parentId;
+    if (!parentId) return tree;
+    return { ...tree, currentId: parentId, redoTargets: { ...tree.redoTargets, [parentId]: tree.currentId } };
+};
+
+export const redoVersion = (tree: VersionTree): VersionTree => {
+    const target = redoTargetOf(tree);
+    return target ? { ...tree, currentId: target } : tree;
+};
+
+export const markFinalVersion = (tree: VersionTree, id: string | null): VersionTree =>
+    id === null || tree.nodes[id] ? { ...tree, finalId: id } : tree;
+
+export const setVersionChat = (tree: VersionTree, id: string, chat: ChatMessage[]): VersionTree =>
+    tree.nodes[id] ? { ...tree, nodes: { ...tree.nodes, [id]: { ...tree.nodes[id], chat } } } : tree;
+
+export const currentVersion = (tree: VersionTree): SessionGeneration => tree.nodes[tree.currentId];
+
+export const finalVersion = (tree: VersionTree): SessionGeneration => tree.nodes[tree.finalId ?? tree.currentId] ?? currentVersion(tree);
+
+/** Rebuilds a tree from stored generations, selecting the newest one. */
+export const versionTreeFromGenerations = (generations: SessionGeneration[], finalId?: string): VersionTree | null => {
+    const storedIds = new Set(generations.map(generation => generation.id));
+    const tree = [...generations]
+        .sort((a, b) => a.createdAt - b.createdAt)
+        // A refinement whose parent failed to save becomes a root rather than disappearing from the tree.
+        .reduce<VersionTree | null>((built, generation) => {
+            const orphan = generation.parentId && !storedIds.has(generation.parentId);
+            return addVersion(built, orphan ? { ...generation, parentId: undefined } : generation);
+        }, null);
+    return tree && finalId ? markFinalVersion(tree, finalId) : tree;
+};
@@ -1,3 +1,4 @@
+import type { StyleId } from './services/promptTemplates';
 
 export enum AppStatus {
   IDLE,
@@ -6,8 +7,111 @@ export enum AppStatus {
   ERROR,
 }
 
-export interface GenerationResult {
-  image: string;
+export interface CareerAnalysis {
   title: string;
+  /** Why this career was chosen and what was changed in the image. */
   description: string;
+  keySkills: string[];
+  /** Typical steps from school to the job, in order. */
+  educationPath: string[];
+  relatedCareers: string[];
+  /** How sure the model is and what the suggestion is (not) based on. */
+  confidenceNote: string;
+}
+
+export interface GenerationResult extends CareerAnalysis {
+  image: string;
+  /** Prompt template that produced the image. Refinements keep their parent's; absent on older results. */
+  templateId?: string;
+  /** Style preset that produced the image. Refinements keep their parent's; absent on older results. */
+  styleId?: StyleId;
+}
+
+export type ComparisonTileStatus = 'queued' | 'loading' | 'success' | 'error';
+
+/** One career in multi-career comparison mode. */
+export interface ComparisonTile {
+  id: string;
+  career: string;
+  status: ComparisonTileStatus;
+  result?: GenerationResult;
+  error?: string;
+  favourite: boolean;
+}
+
+/** The uploaded photo as the service consumes it. */
+export interface SourceImage {
+  /** Data URL (`data:<mime>;base64,...`). */
+  base64: string;
+  mimeType: string;
+}
+
+export type ChatRole = 'user' | 'model';
+
+/** One turn of the follow-up conversation about a result. */
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  createdAt: number;
+}
+
+export interface SessionGeneration {
+  id: string;
+  createdAt: number;
+  /** Career the user asked for; empty when the model chose. */
+  prompt: string;
+  result: GenerationResult;
+  /** Version this one was refined from; absent for generations from the original photo. */
+  parentId?: string;
+  /** Follow-up edit that produced this version from its parent. */
+  instruction?: string;
+  /** Follow-up questions about this version's career and their answers, oldest first. */
+  chat?: ChatMessage[];
+}
+
+/** Lightweight listing entry, kept apart from the large images so the history list loads fast. */
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string;
+  generationCount: number;
+  lastTitle?: string;
+  /** Generation picked as the final version in the version tree. */
+  finalGenerationId?: string;
+  /** Rough size of the stored images and text, used for the quota indicator. */
+  approxBytes: number;
+}
+
+export interface StoredSession extends SessionSummary {
+  originalImage: SourceImage;
+  generations: SessionGeneration[];
+}
+
+export type BatchItemStatus = 'pending' | 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+/** One photo in batch (classroom) mode. */
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  image: SourceImage;
+  /** Career for this photo only; falls back to the shared career when empty. */
+  career: string;
+  status: BatchItemStatus;
+  result?: GenerationResult;
+  error?: string;
+}
+
+/** Version tree of one photo: roots are generated from the original, children are refinements. */
+export interface VersionTree {
+  nodes: Record<string, SessionGeneration>;
+  /** Node ids in creation order. */
+  order: string[];
+  currentId: string;
+  /** The version the user picked to download; falls back to the current one. */
+  finalId: string | null;
+  /** Child to return to on redo, per parent id. */
+  redoTargets: Record<string, string>;
 }
@@ -3,10 +3,19 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const apiProxy = {
+      '/api': `http://localhost:${env.API_PORT || 8787}`,
+    };
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.CAREER_VISION_PROVIDER': JSON.stringify(env.CAREER_VISION_PROVIDER ?? 'gemini'),
+        'process.env.GENERATION_TIMEOUT_MS': JSON.stringify(env.GENERATION_TIMEOUT_MS ?? '')
+      },
+      server: {
+        proxy: apiProxy
+      },
+      preview: {
+        proxy: apiProxy
       },
       resolve: {
         alias: {